@@ -10,6 +10,7 @@ import { StatCard } from '@/components/StatCard';
 import { LessonCard } from '@/components/LessonCard';
 import { EmptyState } from '@/components/EmptyState';
 import Colors from '@/constants/colors';
+import { addDays, localDate } from '@/lib/dates';
 
 const screenWidth = Dimensions.get('window').width - 40;
 
@@ -66,9 +67,7 @@ export default function AnalyticsScreen() {
   const getStudyData = () => {
     const data: number[] = [];
     for (let i = 6; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = localDate(addDays(new Date(), -i));
       const stat = studyStats.find((s) => s.date === dateStr);
       data.push(stat?.total_minutes || 0);
     }
@@ -78,9 +77,7 @@ export default function AnalyticsScreen() {
   const getAccuracyData = () => {
     const data: number[] = [];
     for (let i = 6; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = localDate(addDays(new Date(), -i));
       const stat = accuracyStats.find((s) => s.date === dateStr);
       data.push(stat?.accuracy || 0);
     }
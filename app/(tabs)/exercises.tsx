@@ -5,6 +5,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useApp } from '@/lib/AppContext';
+import { getDueExerciseCount } from '@/db/database';
 import { PrimaryButton } from '@/components/PrimaryButton';
 import Colors from '@/constants/colors';
 
@@ -13,6 +14,7 @@ export default function ExercisesScreen() {
   const { subjects } = useApp();
   const [selectedSubject, setSelectedSubject] = useState<number | null>(null);
   const [selectedDifficulty, setSelectedDifficulty] = useState<number | null>(null);
+  const [dueCount, setDueCount] = useState(0);
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
   const difficulties = [
@@ -21,6 +23,19 @@ export default function ExercisesScreen() {
     { value: 3, label: 'صعب', color: Colors.danger },
   ];
 
+  useFocusEffect(
+    useCallback(() => {
+      getDueExerciseCount()
+        .then(setDueCount)
+        .catch((error) => console.error('Error loading due questions:', error));
+    }, [])
+  );
+
+  const startDueQuiz = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    router.push('/quiz?source=due');
+  };
+
   const startQuiz = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     const params = new URLSearchParams();
@@ -42,6 +57,19 @@ export default function ExercisesScreen() {
         <Text style={styles.title}>التمارين</Text>
         <Text style={styles.subtitle}>اختر المادة ومستوى الصعوبة</Text>
 
+        {dueCount > 0 && (
+          <Pressable style={styles.dueCard} onPress={startDueQuiz}>
+            <View style={styles.dueIcon}>
+              <Ionicons name="refresh-circle" size={32} color={Colors.warning} />
+            </View>
+            <View style={styles.quizOptionInfo}>
+              <Text style={styles.quizOptionTitle}>أسئلة للمراجعة اليوم</Text>
+              <Text style={styles.quizOptionDesc}>{dueCount} سؤال أخطأت فيه سابقاً</Text>
+            </View>
+            <Ionicons name="chevron-back" size={20} color={Colors.textLight} />
+          </Pressable>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>اختر المادة</Text>
           <ScrollView
@@ -190,6 +218,25 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginBottom: 24,
   },
+  dueCard: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+    borderWidth: 2,
+    borderColor: Colors.warning,
+  },
+  dueIcon: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: Colors.warning + '20',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 16,
+  },
   section: {
     marginBottom: 24,
   },
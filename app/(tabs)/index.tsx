@@ -10,12 +10,16 @@ import { CountdownCard } from '@/components/CountdownCard';
 import { QuickActionButton } from '@/components/QuickActionButton';
 import { LessonCard } from '@/components/LessonCard';
 import { ProgressRing } from '@/components/ProgressRing';
+import { ResumeSessionCard } from '@/components/ResumeSessionCard';
+import { getActiveSessions, clearActiveSession } from '@/db/database';
+import type { ActiveSession } from '@/db/types';
 import Colors from '@/constants/colors';
 
 export default function DashboardScreen() {
   const insets = useSafeAreaInsets();
   const {
     settings,
+    databaseError,
     subjectProgress,
     recommendedLessons,
     todayMinutes,
@@ -23,13 +27,32 @@ export default function DashboardScreen() {
     refreshData,
   } = useApp();
   const [refreshing, setRefreshing] = useState(false);
+  const [activeSessions, setActiveSessions] = useState<ActiveSession[]>([]);
 
   useFocusEffect(
     useCallback(() => {
       refreshData();
+      loadActiveSessions();
     }, [])
   );
 
+  const loadActiveSessions = async () => {
+    try {
+      setActiveSessions(await getActiveSessions());
+    } catch (error) {
+      console.error('Error loading active sessions:', error);
+    }
+  };
+
+  const discardSession = async (session: ActiveSession) => {
+    try {
+      await clearActiveSession(session.kind);
+      await loadActiveSessions();
+    } catch (error) {
+      console.error('Error discarding session:', error);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await refreshData();
@@ -60,17 +83,46 @@ export default function DashboardScreen() {
       >
         <View style={styles.header}>
           <Text style={styles.greeting}>مرحباً بك</Text>
-          <Pressable
-            style={styles.settingsButton}
-            onPress={() => {
-              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              router.push('/settings');
-            }}
-          >
-            <Ionicons name="settings-outline" size={24} color={Colors.text} />
-          </Pressable>
+          <View style={styles.headerActions}>
+            <Pressable
+              style={styles.settingsButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push('/documents');
+              }}
+            >
+              <Ionicons name="folder-open-outline" size={24} color={Colors.text} />
+            </Pressable>
+            <Pressable
+              style={styles.settingsButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push('/settings');
+              }}
+            >
+              <Ionicons name="settings-outline" size={24} color={Colors.text} />
+            </Pressable>
+          </View>
         </View>
 
+        {databaseError && (
+          <View style={styles.errorBanner}>
+            <Ionicons name="warning" size={22} color={Colors.danger} />
+            <Text style={styles.errorBannerText}>
+              تعذر تحديث قاعدة البيانات. بياناتك محفوظة، أعد تشغيل التطبيق للمحاولة مجدداً.
+            </Text>
+          </View>
+        )}
+
+        {activeSessions.map((session) => (
+          <ResumeSessionCard
+            key={session.kind}
+            session={session}
+            onResume={() => router.push(session.kind === 'mock' ? '/mock?resume=1' : '/quiz?resume=1')}
+            onDiscard={() => discardSession(session)}
+          />
+        ))}
+
         {settings?.exam_date && (
           <CountdownCard daysLeft={daysUntilExam} examDate={settings.exam_date} />
         )}
@@ -216,6 +268,10 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: Colors.text,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   settingsButton: {
     width: 44,
     height: 44,
@@ -224,6 +280,24 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  errorBanner: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    backgroundColor: Colors.danger + '15',
+    borderWidth: 1,
+    borderColor: Colors.danger,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  errorBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+    lineHeight: 22,
+  },
   statsRow: {
     flexDirection: 'row-reverse',
     justifyContent: 'space-around',
@@ -4,28 +4,49 @@ import { router, useFocusEffect } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { getLessonsForReview, getRecommendedLessons } from '@/db/database';
-import type { LessonWithSubject, WeakLesson } from '@/db/types';
-import { LessonCard } from '@/components/LessonCard';
+import {
+  getPlanItems,
+  getPendingPlanItemCount,
+  regenerateStudyPlan,
+  rollForwardPlanItems,
+  completePlanItem,
+  skipPlanItem,
+} from '@/db/database';
+import type { PlanItemKind, PlanItemWithLesson } from '@/db/types';
+import { useApp } from '@/lib/AppContext';
+import { localDate } from '@/lib/dates';
+import { PlanItemCard } from '@/components/PlanItemCard';
+import { RecallGradeSheet } from '@/components/RecallGradeSheet';
 import { EmptyState } from '@/components/EmptyState';
 import Colors from '@/constants/colors';
 
 const DAYS_AR = ['الأحد', 'الاثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'];
 
+const SECTIONS: { kind: PlanItemKind; title: string; icon: keyof typeof Ionicons.glyphMap; color: string }[] = [
+  { kind: 'review', title: 'للمراجعة', icon: 'refresh-circle', color: Colors.warning },
+  { kind: 'lesson', title: 'دروس جديدة', icon: 'book', color: Colors.primary },
+  { kind: 'revision', title: 'مراجعة نهائية', icon: 'school', color: Colors.accent },
+];
+
 interface DayPlan {
   date: Date;
+  key: string;
   dayName: string;
   isToday: boolean;
-  lessons: WeakLesson[];
-  reviewLessons: LessonWithSubject[];
+  items: PlanItemWithLesson[];
 }
 
 export default function PlanScreen() {
   const insets = useSafeAreaInsets();
-  const [weekPlan, setWeekPlan] = useState<DayPlan[]>([]);
+  const { settings } = useApp();
+  const [plan, setPlan] = useState<DayPlan[]>([]);
   const [selectedDay, setSelectedDay] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [unscheduled, setUnscheduled] = useState(0);
+  // The item whose recall grade is being asked for before it is completed.
+  const [gradingItem, setGradingItem] = useState<PlanItemWithLesson | null>(null);
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
+  const dailyGoal = settings?.daily_minutes_goal || 60;
 
   useFocusEffect(
     useCallback(() => {
@@ -33,36 +54,38 @@ export default function PlanScreen() {
     }, [])
   );
 
-  const loadPlan = async () => {
+  const loadPlan = async (regenerate = false) => {
     try {
       setIsLoading(true);
-      const recommended = await getRecommendedLessons(10);
-      const reviewQueue = await getLessonsForReview();
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      const plan: DayPlan[] = [];
+      await rollForwardPlanItems();
+      if (regenerate || (await getPendingPlanItemCount()) === 0) {
+        setUnscheduled(await regenerateStudyPlan());
+      }
 
-      for (let i = 0; i < 7; i++) {
-        const date = new Date(today);
-        date.setDate(date.getDate() + i);
+      const todayKey = localDate();
+      const items = await getPlanItems(todayKey);
 
-        const dayLessons = recommended.slice(i * 2, i * 2 + 2);
-        const dayReviews = reviewQueue.filter((lesson) => {
-          return true;
-        }).slice(0, 1);
+      const byDay = new Map<string, PlanItemWithLesson[]>([[todayKey, []]]);
+      for (const item of items) {
+        const list = byDay.get(item.plan_date) ?? [];
+        list.push(item);
+        byDay.set(item.plan_date, list);
+      }
 
-        plan.push({
-          date,
-          dayName: DAYS_AR[date.getDay()],
-          isToday: i === 0,
-          lessons: dayLessons,
-          reviewLessons: i === 0 ? reviewQueue.slice(0, 2) : [],
+      const days: DayPlan[] = Array.from(byDay.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, dayItems]) => {
+          const date = new Date(key);
+          return {
+            date,
+            key,
+            dayName: DAYS_AR[date.getDay()],
+            isToday: key === todayKey,
+            items: dayItems,
+          };
         });
-      }
 
-      setWeekPlan(plan);
+      setPlan(days);
     } catch (error) {
       console.error('Error loading plan:', error);
     } finally {
@@ -70,11 +93,27 @@ export default function PlanScreen() {
     }
   };
 
+  const handleComplete = async (quality: number) => {
+    if (!gradingItem) return;
+    const item = gradingItem;
+    setGradingItem(null);
+    await completePlanItem(item.id, quality);
+    loadPlan();
+  };
+
+  const handleSkip = async (item: PlanItemWithLesson) => {
+    await skipPlanItem(item.id);
+    loadPlan();
+  };
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('ar-DZ', { day: 'numeric', month: 'short' });
   };
 
-  const currentDayPlan = weekPlan[selectedDay];
+  const currentDayPlan = plan[selectedDay];
+  const plannedMinutes = currentDayPlan
+    ? currentDayPlan.items.reduce((sum, item) => sum + item.minutes, 0)
+    : 0;
 
   return (
     <View style={styles.container}>
@@ -86,17 +125,41 @@ export default function PlanScreen() {
         ]}
         showsVerticalScrollIndicator={false}
       >
-        <Text style={styles.title}>الخطة الأسبوعية</Text>
-        <Text style={styles.subtitle}>خطة الدراسة للأيام القادمة</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>خطة الدراسة</Text>
+          <Pressable
+            style={styles.regenerateButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setSelectedDay(0);
+              loadPlan(true);
+            }}
+            disabled={isLoading}
+          >
+            <Ionicons name="refresh" size={20} color={Colors.primary} />
+          </Pressable>
+        </View>
+        <Text style={styles.subtitle}>
+          {settings?.exam_date ? 'موزعة على الأيام المتبقية قبل الامتحان' : 'خطة الدراسة للأيام القادمة'}
+        </Text>
+
+        {unscheduled > 0 && (
+          <View style={styles.warningCard}>
+            <Ionicons name="alert-circle" size={20} color={Colors.warning} />
+            <Text style={styles.warningText}>
+              {unscheduled} دروس لا تتسع في وقتك اليومي قبل الامتحان. زد هدف الدراسة اليومي لإدراجها.
+            </Text>
+          </View>
+        )}
 
         <ScrollView
           horizontal
           showsHorizontalScrollIndicator={false}
           contentContainerStyle={styles.daysScroll}
         >
-          {weekPlan.map((day, index) => (
+          {plan.map((day, index) => (
             <Pressable
-              key={index}
+              key={day.key}
               style={[
                 styles.dayButton,
                 selectedDay === index && styles.dayButtonSelected,
@@ -134,57 +197,62 @@ export default function PlanScreen() {
 
         {currentDayPlan && (
           <View style={styles.dayContent}>
-            {currentDayPlan.reviewLessons.length > 0 && (
-              <View style={styles.section}>
-                <View style={styles.sectionHeader}>
-                  <Ionicons name="refresh-circle" size={24} color={Colors.warning} />
-                  <Text style={styles.sectionTitle}>للمراجعة</Text>
-                </View>
-                {currentDayPlan.reviewLessons.map((lesson) => (
-                  <LessonCard
-                    key={lesson.id}
-                    title={lesson.title}
-                    subjectName={lesson.subject_name}
-                    subjectColor={lesson.subject_color}
-                    isCompleted={lesson.is_completed === 1}
-                    showSubject
-                    onPress={() => router.push(`/lessons/${lesson.id}`)}
-                  />
-                ))}
-              </View>
+            {currentDayPlan.items.length > 0 && (
+              <Text style={styles.budgetText}>
+                {plannedMinutes} / {dailyGoal} دقيقة مخططة
+              </Text>
             )}
 
-            {currentDayPlan.lessons.length > 0 && (
-              <View style={styles.section}>
-                <View style={styles.sectionHeader}>
-                  <Ionicons name="book" size={24} color={Colors.primary} />
-                  <Text style={styles.sectionTitle}>دروس مقترحة</Text>
+            {SECTIONS.map((section) => {
+              const sectionItems = currentDayPlan.items.filter((i) => i.kind === section.kind);
+              if (sectionItems.length === 0) return null;
+              return (
+                <View key={section.kind} style={styles.section}>
+                  <View style={styles.sectionHeader}>
+                    <Ionicons name={section.icon} size={24} color={section.color} />
+                    <Text style={styles.sectionTitle}>{section.title}</Text>
+                  </View>
+                  {section.kind === 'review' && currentDayPlan.isToday && (
+                    <Pressable
+                      style={styles.reviewButton}
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                        router.push('/review');
+                      }}
+                    >
+                      <Ionicons name="play-circle" size={20} color="#fff" />
+                      <Text style={styles.reviewButtonText}>ابدأ جلسة المراجعة</Text>
+                    </Pressable>
+                  )}
+                  {sectionItems.map((item) => (
+                    <PlanItemCard
+                      key={item.id}
+                      item={item}
+                      onPress={() => router.push(`/lessons/${item.lesson_id}`)}
+                      onComplete={() => setGradingItem(item)}
+                      onSkip={() => handleSkip(item)}
+                    />
+                  ))}
                 </View>
-                {currentDayPlan.lessons.map((lesson) => (
-                  <LessonCard
-                    key={lesson.lesson_id}
-                    title={lesson.lesson_title}
-                    subjectName={lesson.subject_name}
-                    subjectColor={lesson.subject_color}
-                    isCompleted={false}
-                    showSubject
-                    onPress={() => router.push(`/lessons/${lesson.lesson_id}`)}
-                  />
-                ))}
-              </View>
-            )}
+              );
+            })}
 
-            {currentDayPlan.lessons.length === 0 &&
-              currentDayPlan.reviewLessons.length === 0 && (
-                <EmptyState
-                  icon="calendar-outline"
-                  title="لا توجد مهام لهذا اليوم"
-                  description="استمر في الدراسة وستُضاف مهام جديدة تلقائياً"
-                />
-              )}
+            {currentDayPlan.items.length === 0 && (
+              <EmptyState
+                icon="calendar-outline"
+                title="لا توجد مهام لهذا اليوم"
+                description="استمر في الدراسة وستُضاف مهام جديدة تلقائياً"
+              />
+            )}
           </View>
         )}
       </ScrollView>
+
+      <RecallGradeSheet
+        lessonTitle={gradingItem?.lesson_title ?? null}
+        onSubmit={handleComplete}
+        onCancel={() => setGradingItem(null)}
+      />
     </View>
   );
 }
@@ -200,12 +268,25 @@ const styles = StyleSheet.create({
   scrollContent: {
     paddingHorizontal: 20,
   },
+  titleRow: {
+    flexDirection: 'row-reverse',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
   title: {
     fontSize: 28,
     fontWeight: '700',
     color: Colors.text,
     textAlign: 'right',
-    marginBottom: 8,
+  },
+  regenerateButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
   },
   subtitle: {
     fontSize: 16,
@@ -213,6 +294,22 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginBottom: 24,
   },
+  warningCard: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    backgroundColor: Colors.warning + '15',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+    lineHeight: 22,
+  },
   daysScroll: {
     flexDirection: 'row-reverse',
     gap: 10,
@@ -267,6 +364,12 @@ const styles = StyleSheet.create({
   dayContent: {
     marginTop: 24,
   },
+  budgetText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'right',
+    marginBottom: 16,
+  },
   section: {
     marginBottom: 24,
   },
@@ -276,6 +379,21 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     gap: 8,
   },
+  reviewButton: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.warning,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  reviewButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -27,7 +27,12 @@ function RootLayoutNav() {
       <Stack.Screen name="lessons/[id]" options={{ headerShown: false }} />
       <Stack.Screen name="quiz" options={{ headerShown: false, presentation: 'modal' }} />
       <Stack.Screen name="mock" options={{ headerShown: false, presentation: 'modal' }} />
+      <Stack.Screen name="review" options={{ headerShown: false, presentation: 'modal' }} />
+      <Stack.Screen name="mock-history" options={{ headerShown: false, presentation: 'modal' }} />
       <Stack.Screen name="settings" options={{ headerShown: false }} />
+      <Stack.Screen name="documents/index" options={{ headerShown: false }} />
+      <Stack.Screen name="documents/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="login" options={{ headerShown: false, presentation: 'modal' }} />
     </Stack>
   );
 }
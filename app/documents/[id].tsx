@@ -0,0 +1,529 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Platform,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { KeyboardAvoidingView } from 'react-native-keyboard-controller';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { getDocument, getDocumentMessages, clearDocumentMessages } from '@/db/database';
+import type { AnswerLang, DocumentMessage, StudyDocument } from '@/db/types';
+import { askDocument, DocumentError, getMessagePages } from '@/lib/documents';
+import { PdfViewer } from '@/components/PdfViewer';
+import Colors from '@/constants/colors';
+
+type DocumentTab = 'chat' | 'pdf';
+
+const LANG_OPTIONS: { value: AnswerLang; label: string }[] = [
+  { value: 'ar', label: 'العربية' },
+  { value: 'fr', label: 'Français' },
+];
+
+export default function DocumentScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const insets = useSafeAreaInsets();
+  const [document, setDocument] = useState<StudyDocument | null>(null);
+  const [messages, setMessages] = useState<DocumentMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tab, setTab] = useState<DocumentTab>('chat');
+  const [lang, setLang] = useState<AnswerLang>('ar');
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamingAnswer, setStreamingAnswer] = useState('');
+  const [pdfPage, setPdfPage] = useState<number | undefined>(undefined);
+  const [askError, setAskError] = useState<string | null>(null);
+  const scrollRef = useRef<ScrollView>(null);
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const documentId = parseInt(id, 10);
+      const [documentData, history] = await Promise.all([
+        getDocument(documentId),
+        getDocumentMessages(documentId),
+      ]);
+      setDocument(documentData);
+      setMessages(history);
+      // Continue in the language of the last exchange.
+      if (history.length > 0) {
+        setLang(history[history.length - 1].lang);
+      }
+    } catch (error) {
+      console.error('Error loading document:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!document || !text || pendingQuestion) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setQuestion('');
+    setAskError(null);
+    setPendingQuestion(text);
+    setStreamingAnswer('');
+    try {
+      await askDocument(document, text, lang, setStreamingAnswer);
+      setMessages(await getDocumentMessages(document.id));
+    } catch (error) {
+      console.error('Error asking question:', error);
+      setAskError(error instanceof DocumentError ? error.message : 'حدث خطأ غير متوقع.');
+      // Give the question back so it can be resent.
+      setQuestion(text);
+    } finally {
+      setPendingQuestion(null);
+      setStreamingAnswer('');
+    }
+  };
+
+  const openPage = (page: number) => {
+    Haptics.selectionAsync();
+    setPdfPage(page);
+    setTab('pdf');
+  };
+
+  const performClear = async () => {
+    if (!document) return;
+    try {
+      await clearDocumentMessages(document.id);
+      setMessages([]);
+    } catch (error) {
+      console.error('Error clearing conversation:', error);
+    }
+  };
+
+  const handleClear = () => {
+    const message = 'سيتم حذف كل الأسئلة والأجوبة الخاصة بهذا المستند.';
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        performClear();
+      }
+    } else {
+      Alert.alert('مسح المحادثة', message, [
+        { text: 'إلغاء', style: 'cancel' },
+        { text: 'مسح', style: 'destructive', onPress: performClear },
+      ]);
+    }
+  };
+
+  if (isLoading && !document) {
+    return (
+      <View style={[styles.container, styles.loadingContainer]}>
+        <Text style={styles.loadingText}>جاري التحميل...</Text>
+      </View>
+    );
+  }
+
+  if (!document) {
+    return (
+      <View style={[styles.container, styles.loadingContainer]}>
+        <Text style={styles.loadingText}>المستند غير موجود</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.back();
+            }}
+          >
+            <Ionicons name="arrow-forward" size={24} color={Colors.text} />
+          </Pressable>
+          <View style={styles.headerContent}>
+            <Text style={styles.documentTitle} numberOfLines={2}>
+              {document.filename}
+            </Text>
+            {document.pages ? <Text style={styles.documentMeta}>{document.pages} صفحة</Text> : null}
+          </View>
+        </View>
+
+        <View style={styles.tabs}>
+          {([
+            { value: 'chat', label: 'اسأل المستند', icon: 'chatbubbles-outline' },
+            { value: 'pdf', label: 'عرض الملف', icon: 'document-outline' },
+          ] as const).map((option) => (
+            <Pressable
+              key={option.value}
+              style={[styles.tab, tab === option.value && styles.tabActive]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setTab(option.value);
+              }}
+            >
+              <Ionicons
+                name={option.icon}
+                size={18}
+                color={tab === option.value ? Colors.surface : Colors.textSecondary}
+              />
+              <Text style={[styles.tabText, tab === option.value && styles.tabTextActive]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {tab === 'pdf' ? (
+        <PdfViewer uri={document.local_uri} page={pdfPage} />
+      ) : (
+        <KeyboardAvoidingView style={styles.chat} behavior="padding">
+          <ScrollView
+            ref={scrollRef}
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: true })}
+            keyboardShouldPersistTaps="handled"
+          >
+            {messages.length === 0 && !pendingQuestion && (
+              <View style={styles.emptyChat}>
+                <Ionicons name="chatbubble-ellipses-outline" size={40} color={Colors.textLight} />
+                <Text style={styles.emptyChatText}>
+                  اطرح سؤالاً عن محتوى هذا المستند، وستكون الإجابة مبنية على نصه فقط.
+                </Text>
+              </View>
+            )}
+
+            {messages.map((message) => {
+              const pages = message.role === 'assistant' ? getMessagePages(message) : [];
+              return (
+                <View
+                  key={message.id}
+                  style={[styles.bubble, message.role === 'user' ? styles.userBubble : styles.assistantBubble]}
+                >
+                  <Text
+                    style={[
+                      styles.bubbleText,
+                      message.role === 'user' && styles.userBubbleText,
+                      message.lang === 'fr' && styles.latinText,
+                    ]}
+                  >
+                    {message.content}
+                  </Text>
+                  {pages.length > 0 && (
+                    <View style={styles.pageChips}>
+                      {pages.map((page) => (
+                        <Pressable key={page} style={styles.pageChip} onPress={() => openPage(page)}>
+                          <Text style={styles.pageChipText}>ص {page}</Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+
+            {pendingQuestion && (
+              <>
+                <View style={[styles.bubble, styles.userBubble]}>
+                  <Text style={[styles.bubbleText, styles.userBubbleText]}>{pendingQuestion}</Text>
+                </View>
+                <View style={[styles.bubble, styles.assistantBubble]}>
+                  {streamingAnswer ? (
+                    <Text style={[styles.bubbleText, lang === 'fr' && styles.latinText]}>{streamingAnswer}</Text>
+                  ) : (
+                    <ActivityIndicator size="small" color={Colors.primary} />
+                  )}
+                </View>
+              </>
+            )}
+
+            {askError && <Text style={styles.errorText}>{askError}</Text>}
+          </ScrollView>
+
+          <View style={[styles.composer, { paddingBottom: insets.bottom + 12 }]}>
+            <View style={styles.composerToolbar}>
+              <View style={styles.langToggle}>
+                {LANG_OPTIONS.map((option) => (
+                  <Pressable
+                    key={option.value}
+                    style={[styles.langOption, lang === option.value && styles.langOptionActive]}
+                    onPress={() => {
+                      Haptics.selectionAsync();
+                      setLang(option.value);
+                    }}
+                  >
+                    <Text style={[styles.langText, lang === option.value && styles.langTextActive]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              {messages.length > 0 && (
+                <Pressable onPress={handleClear} hitSlop={8}>
+                  <Text style={styles.clearText}>مسح المحادثة</Text>
+                </Pressable>
+              )}
+            </View>
+
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, lang === 'fr' && styles.latinText]}
+                value={question}
+                onChangeText={setQuestion}
+                placeholder={lang === 'fr' ? 'Pose ta question...' : 'اكتب سؤالك...'}
+                placeholderTextColor={Colors.textLight}
+                multiline
+              />
+              <Pressable
+                style={[styles.sendButton, (!question.trim() || !!pendingQuestion) && styles.sendButtonDisabled]}
+                onPress={handleAsk}
+                disabled={!question.trim() || !!pendingQuestion}
+              >
+                <Ionicons name="send" size={20} color={Colors.surface} style={styles.sendIcon} />
+              </Pressable>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+  },
+  header: {
+    backgroundColor: Colors.surface,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  headerRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    alignItems: 'flex-end',
+  },
+  documentTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  documentMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  tabs: {
+    flexDirection: 'row-reverse',
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    padding: 4,
+    marginTop: 16,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    gap: 6,
+  },
+  tabActive: {
+    backgroundColor: Colors.primary,
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  tabTextActive: {
+    color: Colors.surface,
+  },
+  chat: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  emptyChat: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 12,
+  },
+  emptyChatText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  bubble: {
+    maxWidth: '85%',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 10,
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: Colors.primary,
+    borderBottomRightRadius: 4,
+  },
+  assistantBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: Colors.surface,
+    borderBottomLeftRadius: 4,
+  },
+  bubbleText: {
+    fontSize: 15,
+    color: Colors.text,
+    textAlign: 'right',
+    lineHeight: 24,
+  },
+  userBubbleText: {
+    color: Colors.surface,
+  },
+  pageChips: {
+    flexDirection: 'row-reverse',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  pageChip: {
+    backgroundColor: Colors.primary + '15',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  pageChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  latinText: {
+    textAlign: 'left',
+    writingDirection: 'ltr',
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  composer: {
+    backgroundColor: Colors.surface,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.borderLight,
+  },
+  composerToolbar: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  langToggle: {
+    flexDirection: 'row-reverse',
+    backgroundColor: Colors.background,
+    borderRadius: 10,
+    padding: 3,
+  },
+  langOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  langOptionActive: {
+    backgroundColor: Colors.secondary,
+  },
+  langText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  langTextActive: {
+    color: Colors.surface,
+  },
+  clearText: {
+    fontSize: 13,
+    color: Colors.danger,
+  },
+  inputRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'flex-end',
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    minHeight: 44,
+    maxHeight: 120,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  sendButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.4,
+  },
+  sendIcon: {
+    transform: [{ scaleX: -1 }],
+  },
+});
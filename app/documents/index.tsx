@@ -0,0 +1,310 @@
+import { useState, useCallback } from 'react';
+import { StyleSheet, Text, View, ScrollView, Pressable, Platform, Alert } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { getDocuments } from '@/db/database';
+import type { DocumentSummary } from '@/db/types';
+import { DocumentError, importDocument, removeDocument } from '@/lib/documents';
+import { getCurrentUser, signOut, type AuthUser } from '@/lib/auth';
+import { EmptyState } from '@/components/EmptyState';
+import { PrimaryButton } from '@/components/PrimaryButton';
+import Colors from '@/constants/colors';
+
+// Below this OCR confidence (0-100) on any page, warn that the text may be off.
+const LOW_OCR_CONFIDENCE = 80;
+
+export default function DocumentsScreen() {
+  const insets = useSafeAreaInsets();
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  // `undefined` until the session check returns; uploads need an account.
+  const [user, setUser] = useState<AuthUser | null | undefined>(undefined);
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+
+  useFocusEffect(
+    useCallback(() => {
+      loadDocuments();
+      loadUser();
+    }, [])
+  );
+
+  const loadDocuments = async () => {
+    try {
+      setIsLoading(true);
+      setDocuments(await getDocuments());
+    } catch (error) {
+      console.error('Error loading documents:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadUser = async () => {
+    try {
+      setUser(await getCurrentUser());
+    } catch (error) {
+      // Offline: keep the local documents usable and let the upload report it.
+      console.error('Error loading account:', error);
+      setUser(undefined);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      await signOut();
+      setUser(null);
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      alert(`${title}\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const handleUpload = async () => {
+    try {
+      setIsUploading(true);
+      const imported = await importDocument();
+      if (!imported) return;
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      const warnings: string[] = [];
+      if (imported.ocrTruncated) {
+        warnings.push(
+          `هذا ملف ممسوح ضوئياً طويل، فقُرئت أول ${imported.ocrTruncated.read} صفحة فقط من ${imported.ocrTruncated.total}، ولن تشمل الإجابات بقية الصفحات.`
+        );
+      }
+      if (imported.ocrConfidence !== null && imported.ocrConfidence < LOW_OCR_CONFIDENCE) {
+        warnings.push('تمت قراءة النص آلياً من صور الصفحات وقد يحتوي على أخطاء، فراجع الإجابات مع الملف الأصلي.');
+      }
+      if (warnings.length > 0) {
+        showMessage('ملف ممسوح ضوئياً', warnings.join('\n\n'));
+      }
+      router.push(`/documents/${imported.id}`);
+    } catch (error) {
+      console.error('Error importing document:', error);
+      showMessage('تعذر رفع الملف', error instanceof DocumentError ? error.message : 'حدث خطأ أثناء حفظ الملف.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const performDelete = async (document: DocumentSummary) => {
+    try {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      await removeDocument(document);
+      loadDocuments();
+    } catch (error) {
+      console.error('Error deleting document:', error);
+    }
+  };
+
+  const handleDelete = (document: DocumentSummary) => {
+    const message = `سيتم حذف "${document.filename}" وكل المحادثة المرتبطة به.`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        performDelete(document);
+      }
+    } else {
+      Alert.alert('حذف المستند', message, [
+        { text: 'إلغاء', style: 'cancel' },
+        { text: 'حذف', style: 'destructive', onPress: () => performDelete(document) },
+      ]);
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString('ar-DZ', { month: 'short', day: 'numeric' });
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+      <View style={styles.header}>
+        <Pressable style={styles.closeButton} onPress={() => router.back()}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle}>مستنداتي</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 24 }]}
+        showsVerticalScrollIndicator={false}
+      >
+        {user === null ? (
+          <View style={styles.accountCard}>
+            <Text style={styles.accountText}>سجّل الدخول لرفع ملفاتك وطرح الأسئلة عليها.</Text>
+            <PrimaryButton title="تسجيل الدخول" onPress={() => router.push('/login')} />
+          </View>
+        ) : (
+          <>
+            {user && (
+              <View style={styles.accountRow}>
+                <Text style={styles.accountText}>{`متصل باسم ${user.username}`}</Text>
+                <Pressable onPress={handleSignOut} hitSlop={8}>
+                  <Text style={styles.signOutText}>تسجيل الخروج</Text>
+                </Pressable>
+              </View>
+            )}
+            <PrimaryButton
+              title={isUploading ? 'جاري استخراج النص...' : 'رفع ملف PDF'}
+              onPress={handleUpload}
+              loading={isUploading}
+              disabled={isUploading}
+            />
+          </>
+        )}
+
+        {!isLoading && documents.length === 0 ? (
+          <EmptyState
+            icon="document-attach-outline"
+            title="لا توجد مستندات بعد"
+            description="ارفع درساً أو ملخصاً بصيغة PDF واطرح أسئلتك عليه بالعربية أو الفرنسية"
+          />
+        ) : (
+          <View style={styles.list}>
+            {documents.map((document) => (
+              <Pressable
+                key={document.id}
+                style={({ pressed }) => [styles.documentCard, pressed && styles.pressed]}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  router.push(`/documents/${document.id}`);
+                }}
+                onLongPress={() => handleDelete(document)}
+              >
+                <View style={styles.documentIcon}>
+                  <Ionicons name="document-text" size={24} color={Colors.primary} />
+                </View>
+                <View style={styles.documentInfo}>
+                  <Text style={styles.documentTitle} numberOfLines={1}>
+                    {document.filename}
+                  </Text>
+                  <Text style={styles.documentMeta}>
+                    {formatDate(document.created_at)}
+                    {document.pages ? ` · ${document.pages} صفحة` : ''}
+                    {` · ${document.message_count} رسالة`}
+                  </Text>
+                </View>
+                <Pressable style={styles.deleteButton} onPress={() => handleDelete(document)} hitSlop={8}>
+                  <Ionicons name="trash-outline" size={20} color={Colors.danger} />
+                </Pressable>
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  closeButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholder: {
+    width: 44,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+  },
+  list: {
+    marginTop: 16,
+  },
+  accountCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  accountRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  accountText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'right',
+  },
+  signOutText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.danger,
+  },
+  documentCard: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  pressed: {
+    opacity: 0.9,
+    transform: [{ scale: 0.99 }],
+  },
+  documentIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.primary + '15',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  documentInfo: {
+    flex: 1,
+    alignItems: 'flex-end',
+  },
+  documentTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  documentMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  deleteButton: {
+    padding: 6,
+    marginRight: 8,
+  },
+});
@@ -7,6 +7,7 @@ import * as Haptics from 'expo-haptics';
 import { getLesson, markLessonComplete, getExercises } from '@/db/database';
 import type { LessonWithSubject, Exercise } from '@/db/types';
 import { PrimaryButton } from '@/components/PrimaryButton';
+import { RecallGradeSheet } from '@/components/RecallGradeSheet';
 import Colors from '@/constants/colors';
 
 export default function LessonDetailScreen() {
@@ -15,6 +16,7 @@ export default function LessonDetailScreen() {
   const [lesson, setLesson] = useState<LessonWithSubject | null>(null);
   const [exerciseCount, setExerciseCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [isGrading, setIsGrading] = useState(false);
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
   useFocusEffect(
@@ -39,11 +41,12 @@ export default function LessonDetailScreen() {
     }
   };
 
-  const handleMarkComplete = async () => {
+  const handleMarkComplete = async (quality: number) => {
     if (!lesson) return;
     try {
+      setIsGrading(false);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      await markLessonComplete(lesson.id);
+      await markLessonComplete(lesson.id, quality);
       loadData();
     } catch (error) {
       console.error('Error marking lesson complete:', error);
@@ -56,6 +59,12 @@ export default function LessonDetailScreen() {
     router.push(`/quiz?lessonId=${lesson.id}`);
   };
 
+  const handleStartTimer = () => {
+    if (!lesson) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    router.push(`/timer?lessonId=${lesson.id}`);
+  };
+
   if (!lesson) {
     return (
       <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
@@ -144,15 +153,28 @@ export default function LessonDetailScreen() {
 
       <View style={[styles.footer, { paddingBottom: insets.bottom + 16 }]}>
         {lesson.is_completed !== 1 ? (
-          <PrimaryButton title="تم إنهاء الدرس" onPress={handleMarkComplete} />
+          <View style={styles.footerRow}>
+            <View style={styles.footerButton}>
+              <PrimaryButton title="ابدأ المؤقت" onPress={handleStartTimer} variant="secondary" />
+            </View>
+            <View style={styles.footerButton}>
+              <PrimaryButton title="تم إنهاء الدرس" onPress={() => setIsGrading(true)} />
+            </View>
+          </View>
         ) : (
           <PrimaryButton
             title="ابدأ جلسة مراجعة"
-            onPress={() => router.push('/timer')}
+            onPress={handleStartTimer}
             variant="secondary"
           />
         )}
       </View>
+
+      <RecallGradeSheet
+        lessonTitle={isGrading ? lesson.title : null}
+        onSubmit={handleMarkComplete}
+        onCancel={() => setIsGrading(false)}
+      />
     </View>
   );
 }
@@ -295,4 +317,11 @@ const styles = StyleSheet.create({
     borderTopColor: Colors.borderLight,
     backgroundColor: Colors.background,
   },
+  footerRow: {
+    flexDirection: 'row-reverse',
+    gap: 12,
+  },
+  footerButton: {
+    flex: 1,
+  },
 });
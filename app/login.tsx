@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { StyleSheet, Text, View, Pressable, Platform, TextInput, ScrollView } from 'react-native';
+import { router } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { AuthError, signIn, signUp } from '@/lib/auth';
+import { PrimaryButton } from '@/components/PrimaryButton';
+import Colors from '@/constants/colors';
+
+type Mode = 'login' | 'register';
+
+export default function LoginScreen() {
+  const insets = useSafeAreaInsets();
+  const [mode, setMode] = useState<Mode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await (mode === 'login' ? signIn : signUp)(username, password);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (err) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(err instanceof AuthError ? err.message : 'حدث خطأ، أعد المحاولة.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    Haptics.selectionAsync();
+    setMode(mode === 'login' ? 'register' : 'login');
+    setError(null);
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+      <View style={styles.header}>
+        <Pressable style={styles.closeButton} onPress={() => router.back()}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle}>{mode === 'login' ? 'تسجيل الدخول' : 'إنشاء حساب'}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 24 }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.description}>
+          يحفظ الحساب مستنداتك على الخادم لتطرح أسئلتك عليها من أي جهاز.
+        </Text>
+
+        <TextInput
+          style={styles.input}
+          value={username}
+          onChangeText={setUsername}
+          placeholder="اسم المستخدم"
+          placeholderTextColor={Colors.textLight}
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoComplete="username"
+        />
+        <TextInput
+          style={styles.input}
+          value={password}
+          onChangeText={setPassword}
+          placeholder="كلمة المرور"
+          placeholderTextColor={Colors.textLight}
+          secureTextEntry
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          onSubmitEditing={handleSubmit}
+        />
+
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <PrimaryButton
+          title={mode === 'login' ? 'دخول' : 'إنشاء الحساب'}
+          onPress={handleSubmit}
+          loading={isSubmitting}
+          disabled={!username.trim() || !password || isSubmitting}
+        />
+        <Pressable style={styles.switchButton} onPress={toggleMode}>
+          <Text style={styles.switchText}>
+            {mode === 'login' ? 'ليس لديك حساب؟ أنشئ حساباً' : 'لديك حساب؟ سجّل الدخول'}
+          </Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  closeButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholder: {
+    width: 44,
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'right',
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    color: Colors.text,
+    textAlign: 'right',
+    marginBottom: 12,
+  },
+  error: {
+    fontSize: 13,
+    color: Colors.danger,
+    textAlign: 'right',
+    marginBottom: 12,
+  },
+  switchButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  switchText: {
+    fontSize: 15,
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,262 @@
+import { useState, useCallback } from 'react';
+import { StyleSheet, Text, View, ScrollView, Pressable, Dimensions, Platform } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LineChart } from 'react-native-chart-kit';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { getMockExams } from '@/db/database';
+import type { MockExam } from '@/db/types';
+import { getBlueprint } from '@/lib/examBlueprints';
+import { EmptyState } from '@/components/EmptyState';
+import Colors from '@/constants/colors';
+
+const screenWidth = Dimensions.get('window').width - 64;
+const CHART_EXAMS = 10;
+
+export default function MockHistoryScreen() {
+  const insets = useSafeAreaInsets();
+  const [exams, setExams] = useState<MockExam[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [])
+  );
+
+  const loadHistory = async () => {
+    try {
+      setIsLoading(true);
+      setExams(await getMockExams());
+    } catch (error) {
+      console.error('Error loading mock exam history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString('ar-DZ', { month: 'short', day: 'numeric' });
+  };
+
+  const formatDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    return mins > 0 ? `${mins} د` : `${seconds} ث`;
+  };
+
+  const gradeColor = (grade: number) =>
+    grade >= 14 ? Colors.success : grade >= 10 ? Colors.warning : Colors.danger;
+
+  // Exams come newest first; the chart reads left to right in time order.
+  const chartExams = exams.slice(0, CHART_EXAMS).reverse();
+  const best = exams.reduce((max, e) => Math.max(max, e.overall_grade), 0);
+  const average = exams.length > 0
+    ? exams.reduce((sum, e) => sum + e.overall_grade, 0) / exams.length
+    : 0;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+      <View style={styles.header}>
+        <Pressable style={styles.closeButton} onPress={() => router.back()}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle}>سجل الامتحانات التجريبية</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 24 }]}
+        showsVerticalScrollIndicator={false}
+      >
+        {!isLoading && exams.length === 0 ? (
+          <EmptyState
+            icon="document-text-outline"
+            title="لا توجد امتحانات بعد"
+            description="أنهِ امتحاناً تجريبياً لتتبع تطور معدلك"
+          />
+        ) : (
+          <>
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryValue}>{exams.length}</Text>
+                <Text style={styles.summaryLabel}>امتحان</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryValue}>{average.toFixed(2)}</Text>
+                <Text style={styles.summaryLabel}>المعدل</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryValue}>{best.toFixed(2)}</Text>
+                <Text style={styles.summaryLabel}>أفضل نتيجة</Text>
+              </View>
+            </View>
+
+            {chartExams.length > 1 && (
+              <View style={styles.chartContainer}>
+                <LineChart
+                  data={{
+                    labels: chartExams.map((e) => formatDate(e.finished_at)),
+                    datasets: [{ data: chartExams.map((e) => e.overall_grade) }],
+                  }}
+                  width={screenWidth}
+                  height={180}
+                  chartConfig={{
+                    backgroundColor: Colors.surface,
+                    backgroundGradientFrom: Colors.surface,
+                    backgroundGradientTo: Colors.surface,
+                    decimalPlaces: 0,
+                    color: (opacity = 1) => `rgba(30, 58, 95, ${opacity})`,
+                    labelColor: () => Colors.textSecondary,
+                    propsForDots: {
+                      r: '4',
+                      strokeWidth: '2',
+                      stroke: Colors.primary,
+                    },
+                  }}
+                  style={styles.chart}
+                  bezier
+                  fromZero
+                />
+              </View>
+            )}
+
+            {exams.map((exam) => (
+              <Pressable
+                key={exam.id}
+                style={({ pressed }) => [styles.examCard, pressed && styles.pressed]}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  router.push(`/mock?examId=${exam.id}`);
+                }}
+              >
+                <View style={[styles.gradeBadge, { backgroundColor: gradeColor(exam.overall_grade) }]}>
+                  <Text style={styles.gradeText}>{exam.overall_grade.toFixed(1)}</Text>
+                </View>
+                <View style={styles.examInfo}>
+                  <Text style={styles.examTitle}>
+                    {getBlueprint(exam.blueprint_id)?.title ?? 'امتحان تجريبي'}
+                  </Text>
+                  <Text style={styles.examMeta}>
+                    {formatDate(exam.finished_at)} · {exam.correct}/{exam.total} · {formatDuration(exam.duration_seconds)}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-back" size={20} color={Colors.textLight} />
+              </Pressable>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  closeButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholder: {
+    width: 44,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+  },
+  summaryRow: {
+    flexDirection: 'row-reverse',
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: Colors.primary,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  chartContainer: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 12,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  chart: {
+    borderRadius: 16,
+  },
+  examCard: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  pressed: {
+    opacity: 0.9,
+    transform: [{ scale: 0.99 }],
+  },
+  gradeBadge: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  gradeText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  examInfo: {
+    flex: 1,
+    alignItems: 'flex-end',
+  },
+  examTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  examMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+});
@@ -1,57 +1,163 @@
-import { useState, useEffect, useCallback } from 'react';
-import { StyleSheet, Text, View, ScrollView, Pressable, Platform } from 'react-native';
-import { router, useFocusEffect } from 'expo-router';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { StyleSheet, Text, View, ScrollView, Pressable, Platform, Alert } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { getRandomExercises, saveAttempt } from '@/db/database';
-import type { Exercise } from '@/db/types';
-import { ExerciseOption } from '@/components/ExerciseOption';
+import {
+  getBlueprintExercises,
+  saveAttempt,
+  recordLessonResults,
+  saveMockExam,
+  getMockExam,
+  getMockExamAnswers,
+  getExercisesByIds,
+  saveActiveSession,
+  getActiveSession,
+  clearActiveSession,
+} from '@/db/database';
+import type { ExerciseWithSubject, MockCheckpoint } from '@/db/types';
+import {
+  EXAM_BLUEPRINTS,
+  getBlueprint,
+  getBlueprintQuestionCount,
+  scoreMockExam,
+  type ExamBlueprint,
+  type MockExamScore,
+} from '@/lib/examBlueprints';
+import {
+  getExercisePayload,
+  withValidPayloads,
+  gradeAnswer,
+  isAnswerComplete,
+  createInitialAnswer,
+  formatAnswer,
+  formatCorrectAnswer,
+  type ExerciseAnswer,
+} from '@shared/exercise';
+import { ExerciseInput } from '@/components/ExerciseInput';
 import { PrimaryButton } from '@/components/PrimaryButton';
 import { ProgressRing } from '@/components/ProgressRing';
 import Colors from '@/constants/colors';
 
-const MOCK_EXAM_QUESTIONS = 30;
-const MOCK_EXAM_DURATION = 60 * 60;
-
 export default function MockExamScreen() {
   const insets = useSafeAreaInsets();
-  const [exercises, setExercises] = useState<Exercise[]>([]);
-  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const { examId, resume } = useLocalSearchParams<{ examId?: string; resume?: string }>();
+  const [blueprint, setBlueprint] = useState<ExamBlueprint | null>(null);
+  const [exercises, setExercises] = useState<ExerciseWithSubject[]>([]);
+  const [answers, setAnswers] = useState<(ExerciseAnswer | null)[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [timeLeft, setTimeLeft] = useState(MOCK_EXAM_DURATION);
+  const [timeLeft, setTimeLeft] = useState(0);
+  const [deadline, setDeadline] = useState<number | null>(null);
   const [isComplete, setIsComplete] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(!!examId || !!resume);
   const [showReview, setShowReview] = useState(false);
+  const [score, setScore] = useState<MockExamScore | null>(null);
+  const [timeSpent, setTimeSpent] = useState<number[]>([]);
+  // Set when saving the finished exam failed; the exam stays open so the
+  // student can retry with the finish button instead of losing it.
+  const [saveFailed, setSaveFailed] = useState(false);
+  const startedAt = useRef('');
+  const questionTimes = useRef<number[]>([]);
+  const questionEnteredAt = useRef(0);
+  const isFinishing = useRef(false);
+  // How much of a finish already reached the database, so a retry after a
+  // failed save doesn't record the same attempts, lesson results or exam twice.
+  const savedProgress = useRef({ attempts: 0, lessonResults: false, exam: false });
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
-  useFocusEffect(
-    useCallback(() => {
-      loadExercises();
-    }, [])
-  );
-
   useEffect(() => {
-    if (!isLoading && !isComplete && timeLeft > 0) {
-      const timer = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            handleFinish();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-      return () => clearInterval(timer);
+    if (examId) {
+      loadPastExam(parseInt(examId, 10));
+    } else if (resume) {
+      resumeExam();
     }
-  }, [isLoading, isComplete, timeLeft]);
+  }, [examId, resume]);
 
-  const loadExercises = async () => {
+  const loadPastExam = async (id: number) => {
     try {
       setIsLoading(true);
-      const exercisesList = await getRandomExercises(MOCK_EXAM_QUESTIONS);
+      const exam = await getMockExam(id);
+      if (!exam) return;
+      const rows = withValidPayloads(await getMockExamAnswers(id));
+      setBlueprint(getBlueprint(exam.blueprint_id) ?? null);
+      setExercises(rows);
+      setAnswers(rows.map((r) => (r.answer_json ? JSON.parse(r.answer_json) : null)));
+      setTimeSpent(rows.map((r) => r.time_spent_seconds));
+      setScore({
+        subjects: JSON.parse(exam.subject_scores_json),
+        overall: exam.overall_grade,
+        correct: exam.correct,
+        total: exam.total,
+      });
+      setIsComplete(true);
+      setShowReview(true);
+    } catch (error) {
+      console.error('Error loading mock exam:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resumeExam = async () => {
+    try {
+      setIsLoading(true);
+      const session = await getActiveSession('mock');
+      if (!session || !session.deadline_at) return;
+      const checkpoint: MockCheckpoint = JSON.parse(session.payload_json);
+      const selected = getBlueprint(checkpoint.blueprint_id);
+      if (!selected) {
+        await clearActiveSession('mock');
+        return;
+      }
+
+      const exercisesList = withValidPayloads(await getExercisesByIds(checkpoint.exercise_ids));
+      const savedIndex = (exercise: ExerciseWithSubject) => checkpoint.exercise_ids.indexOf(exercise.id);
+      setBlueprint(selected);
       setExercises(exercisesList);
-      setAnswers(new Array(exercisesList.length).fill(null));
+      setAnswers(exercisesList.map((e) => checkpoint.answers[savedIndex(e)] ?? null));
+      setCurrentIndex(Math.min(checkpoint.current_index, Math.max(0, exercisesList.length - 1)));
+      startedAt.current = session.started_at;
+      questionTimes.current = exercisesList.map((e) => checkpoint.question_times_ms[savedIndex(e)] ?? 0);
+      questionEnteredAt.current = Date.now();
+      setDeadline(new Date(session.deadline_at).getTime());
+    } catch (error) {
+      console.error('Error resuming mock exam:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startExam = async (selected: ExamBlueprint) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    try {
+      setIsLoading(true);
+      setBlueprint(selected);
+      const exercisesList = withValidPayloads(await getBlueprintExercises(selected));
+      const examDeadline = Date.now() + selected.duration_minutes * 60 * 1000;
+      const initialAnswers = exercisesList.map((e) => {
+        const payload = getExercisePayload(e);
+        return payload ? createInitialAnswer(payload, e.id) : null;
+      });
+      setExercises(exercisesList);
+      setAnswers(initialAnswers);
+      setCurrentIndex(0);
+      setTimeLeft(selected.duration_minutes * 60);
+      startedAt.current = new Date().toISOString();
+      questionTimes.current = new Array(exercisesList.length).fill(0);
+      savedProgress.current = { attempts: 0, lessonResults: false, exam: false };
+      questionEnteredAt.current = Date.now();
+      if (exercisesList.length > 0) {
+        const checkpoint: MockCheckpoint = {
+          blueprint_id: selected.id,
+          exercise_ids: exercisesList.map((e) => e.id),
+          answers: initialAnswers,
+          current_index: 0,
+          question_times_ms: questionTimes.current,
+        };
+        setDeadline(examDeadline);
+        await saveActiveSession('mock', checkpoint, startedAt.current, new Date(examDeadline).toISOString());
+      }
     } catch (error) {
       console.error('Error loading exercises:', error);
     } finally {
@@ -60,45 +166,180 @@ export default function MockExamScreen() {
   };
 
   const currentExercise = exercises[currentIndex];
-  const options: string[] = currentExercise
-    ? JSON.parse(currentExercise.options_json)
-    : [];
+  const currentPayload = currentExercise ? getExercisePayload(currentExercise) : null;
 
-  const handleSelectOption = (index: number) => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  const isCorrectAt = useCallback(
+    (index: number) => {
+      const payload = getExercisePayload(exercises[index]);
+      return payload !== null && gradeAnswer(payload, answers[index]);
+    },
+    [exercises, answers]
+  );
+
+  // Half-finished answers (a cleared selection, a half-matched pairing, an
+  // empty blank) count as skipped rather than as wrong attempts.
+  const isAnswered = useCallback(
+    (index: number) => {
+      const payload = getExercisePayload(exercises[index]);
+      return payload !== null && isAnswerComplete(payload, answers[index]);
+    },
+    [exercises, answers]
+  );
+
+  const handleAnswerChange = (answer: ExerciseAnswer) => {
     const newAnswers = [...answers];
-    newAnswers[currentIndex] = index;
+    newAnswers[currentIndex] = answer;
     setAnswers(newAnswers);
+    recordQuestionTime();
+    saveCheckpoint(newAnswers, currentIndex);
+  };
+
+  const saveCheckpoint = (currentAnswers: (ExerciseAnswer | null)[], index: number) => {
+    if (!blueprint || !deadline) return;
+    const checkpoint: MockCheckpoint = {
+      blueprint_id: blueprint.id,
+      exercise_ids: exercises.map((e) => e.id),
+      answers: currentAnswers,
+      current_index: index,
+      question_times_ms: questionTimes.current,
+    };
+    saveActiveSession('mock', checkpoint, startedAt.current, new Date(deadline).toISOString()).catch(
+      (error) => console.error('Error saving mock exam checkpoint:', error)
+    );
+  };
+
+  // Time is charged to whichever question is on screen, so jumping back and
+  // forth between questions accumulates rather than overwrites.
+  const recordQuestionTime = useCallback(() => {
+    const now = Date.now();
+    questionTimes.current[currentIndex] += now - questionEnteredAt.current;
+    questionEnteredAt.current = now;
+  }, [currentIndex]);
+
+  const goToQuestion = (index: number) => {
+    recordQuestionTime();
+    setCurrentIndex(index);
+    saveCheckpoint(answers, index);
   };
 
   const handleNext = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     if (currentIndex < exercises.length - 1) {
-      setCurrentIndex((prev) => prev + 1);
+      goToQuestion(currentIndex + 1);
     }
   };
 
   const handlePrevious = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     if (currentIndex > 0) {
-      setCurrentIndex((prev) => prev - 1);
+      goToQuestion(currentIndex - 1);
+    }
+  };
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      alert(`${title}\n${message}`);
+    } else {
+      Alert.alert(title, message);
     }
   };
 
-  const handleFinish = async () => {
+  const handleFinish = useCallback(async () => {
+    if (!blueprint || isFinishing.current) return;
+    isFinishing.current = true;
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    
-    for (let i = 0; i < exercises.length; i++) {
-      const exercise = exercises[i];
-      const answer = answers[i];
-      if (answer !== null) {
-        const isCorrect = answer === exercise.correct_index;
-        await saveAttempt(exercise.id, answer, isCorrect, 0);
+    recordQuestionTime();
+
+    const seconds = questionTimes.current.map((ms) => Math.round(ms / 1000));
+    const examScore = scoreMockExam(
+      blueprint,
+      exercises.map((exercise, index) => ({
+        subject_name: exercise.subject_name,
+        is_correct: isCorrectAt(index),
+      }))
+    );
+
+    try {
+      for (let i = savedProgress.current.attempts; i < exercises.length; i++) {
+        const answer = answers[i];
+        if (answer !== null && isAnswered(i)) {
+          await saveAttempt(exercises[i].id, answer, isCorrectAt(i), seconds[i]);
+        }
+        savedProgress.current.attempts = i + 1;
       }
+
+      // Skipped questions say nothing about a lesson, so they don't move its
+      // review date.
+      if (!savedProgress.current.lessonResults) {
+        await recordLessonResults(
+          exercises.flatMap((exercise, index) =>
+            isAnswered(index) ? [{ lesson_id: exercise.lesson_id, is_correct: isCorrectAt(index) }] : []
+          )
+        );
+        savedProgress.current.lessonResults = true;
+      }
+
+      if (!savedProgress.current.exam) {
+        const finishedAt = new Date();
+        await saveMockExam(
+          {
+            blueprint_id: blueprint.id,
+            started_at: startedAt.current,
+            finished_at: finishedAt.toISOString(),
+            duration_seconds: Math.round(
+              (finishedAt.getTime() - new Date(startedAt.current).getTime()) / 1000
+            ),
+            overall_grade: examScore.overall,
+            correct: examScore.correct,
+            total: examScore.total,
+            subject_scores_json: JSON.stringify(examScore.subjects),
+          },
+          exercises.map((exercise, index) => {
+            const answer = isAnswered(index) ? answers[index] : null;
+            return {
+              exercise_id: exercise.id,
+              position: index,
+              chosen_index: answer?.type === 'mcq' ? answer.index : null,
+              answer_json: answer ? JSON.stringify(answer) : null,
+              is_correct: isCorrectAt(index) ? 1 : 0,
+              time_spent_seconds: seconds[index],
+            };
+          })
+        );
+        savedProgress.current.exam = true;
+      }
+      await clearActiveSession('mock');
+    } catch (error) {
+      console.error('Error saving mock exam:', error);
+      setSaveFailed(true);
+      showMessage('تعذر حفظ الامتحان', 'لم تُحفظ نتيجتك بعد. اضغط على "إنهاء الامتحان" لإعادة المحاولة.');
+      return;
+    } finally {
+      isFinishing.current = false;
     }
-    
+
+    setSaveFailed(false);
+    setTimeSpent(seconds);
+    setScore(examScore);
     setIsComplete(true);
-  };
+  }, [blueprint, exercises, answers, isCorrectAt, isAnswered, recordQuestionTime]);
+
+  // The remaining time is derived from the wall-clock deadline rather than
+  // counted down, so time spent backgrounded or killed is still deducted.
+  // After a failed save the student retries by hand rather than every tick.
+  useEffect(() => {
+    if (!deadline || isComplete) return;
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((deadline - Date.now()) / 1000));
+      setTimeLeft(remaining);
+      if (remaining === 0 && !saveFailed) {
+        handleFinish();
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [deadline, isComplete, saveFailed, handleFinish]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -106,10 +347,7 @@ export default function MockExamScreen() {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const answeredCount = answers.filter((a) => a !== null).length;
-  const correctCount = exercises.reduce((count, exercise, index) => {
-    return count + (answers[index] === exercise.correct_index ? 1 : 0);
-  }, 0);
+  const answeredCount = exercises.filter((_, index) => isAnswered(index)).length;
 
   if (isLoading) {
     return (
@@ -121,9 +359,72 @@ export default function MockExamScreen() {
     );
   }
 
-  if (isComplete) {
-    const accuracy = (correctCount / exercises.length) * 100;
-    
+  if (!blueprint && !score) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+        <View style={styles.header}>
+          <Pressable style={styles.closeButton} onPress={() => router.back()}>
+            <Ionicons name="close" size={24} color={Colors.text} />
+          </Pressable>
+          <Text style={styles.headerTitle}>امتحان تجريبي</Text>
+          <Pressable
+            style={styles.closeButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push('/mock-history');
+            }}
+          >
+            <Ionicons name="stats-chart" size={22} color={Colors.primary} />
+          </Pressable>
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {EXAM_BLUEPRINTS.map((item) => (
+            <Pressable
+              key={item.id}
+              style={styles.blueprintCard}
+              onPress={() => startExam(item)}
+            >
+              <View style={styles.blueprintHeader}>
+                <Text style={styles.blueprintTitle}>{item.title}</Text>
+                <Ionicons name="chevron-back" size={20} color={Colors.textLight} />
+              </View>
+              <Text style={styles.blueprintDescription}>{item.description}</Text>
+              <Text style={styles.blueprintMeta}>
+                {getBlueprintQuestionCount(item)} سؤال · {item.duration_minutes} دقيقة
+              </Text>
+              {item.subjects.map((subject) => (
+                <View key={subject.subject_name} style={styles.blueprintRow}>
+                  <Text style={styles.blueprintSubject}>{subject.subject_name}</Text>
+                  <Text style={styles.blueprintSubjectMeta}>
+                    {subject.questions} أسئلة · المعامل {subject.coefficient}
+                  </Text>
+                </View>
+              ))}
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+    );
+  }
+
+  if (exercises.length === 0) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+        <View style={styles.resultContainer}>
+          <Ionicons name="help-circle-outline" size={64} color={Colors.textLight} />
+          <Text style={styles.resultSubtitle}>لا توجد أسئلة كافية لهذا الامتحان</Text>
+          <View style={styles.resultButtons}>
+            <PrimaryButton title="العودة" onPress={() => router.back()} />
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  if (isComplete && score) {
+    const gradePercent = (score.overall / 20) * 100;
+
     if (showReview) {
       return (
         <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
@@ -143,9 +444,9 @@ export default function MockExamScreen() {
             contentContainerStyle={styles.scrollContent}
           >
             {exercises.map((exercise, index) => {
-              const userAnswer = answers[index];
-              const isCorrect = userAnswer === exercise.correct_index;
-              const options: string[] = JSON.parse(exercise.options_json);
+              const payload = getExercisePayload(exercise);
+              if (!payload) return null;
+              const isCorrect = gradeAnswer(payload, answers[index]);
               
               return (
                 <View key={exercise.id} style={styles.reviewQuestion}>
@@ -166,13 +467,16 @@ export default function MockExamScreen() {
                   </View>
                   <Text style={styles.reviewQuestionText}>{exercise.question}</Text>
                   <Text style={styles.reviewAnswer}>
-                    إجابتك: {userAnswer !== null ? options[userAnswer] : 'لم تجب'}
+                    إجابتك: {formatAnswer(payload, answers[index]) ?? 'لم تجب'}
                   </Text>
                   {!isCorrect && (
                     <Text style={styles.reviewCorrectAnswer}>
-                      الإجابة الصحيحة: {options[exercise.correct_index]}
+                      الإجابة الصحيحة: {formatCorrectAnswer(payload)}
                     </Text>
                   )}
+                  <Text style={styles.reviewTime}>
+                    الوقت المستغرق: {formatTime(timeSpent[index] ?? 0)}
+                  </Text>
                 </View>
               );
             })}
@@ -187,11 +491,11 @@ export default function MockExamScreen() {
     
     return (
       <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
-        <View style={styles.resultContainer}>
+        <ScrollView contentContainerStyle={styles.resultContainer}>
           <View style={styles.resultIcon}>
-            {accuracy >= 70 ? (
+            {score.overall >= 14 ? (
               <Ionicons name="trophy" size={64} color={Colors.warning} />
-            ) : accuracy >= 50 ? (
+            ) : score.overall >= 10 ? (
               <Ionicons name="ribbon" size={64} color={Colors.success} />
             ) : (
               <Ionicons name="school" size={64} color={Colors.primary} />
@@ -199,28 +503,40 @@ export default function MockExamScreen() {
           </View>
           <Text style={styles.resultTitle}>انتهى الامتحان!</Text>
           <Text style={styles.resultSubtitle}>
-            نتيجتك: {correctCount} من {exercises.length}
+            معدلك: {score.overall.toFixed(2)} / 20
           </Text>
 
           <View style={styles.resultStats}>
             <ProgressRing
-              progress={accuracy}
+              progress={gradePercent}
               size={120}
               strokeWidth={12}
               color={
-                accuracy >= 70
+                score.overall >= 14
                   ? Colors.success
-                  : accuracy >= 50
+                  : score.overall >= 10
                   ? Colors.warning
                   : Colors.danger
               }
             />
           </View>
 
+          <View style={styles.subjectScores}>
+            {score.subjects.map((subject) => (
+              <View key={subject.subject_name} style={styles.subjectScoreRow}>
+                <Text style={styles.subjectScoreName}>{subject.subject_name}</Text>
+                <Text style={styles.subjectScoreMeta}>
+                  {subject.correct}/{subject.total} · معامل {subject.coefficient}
+                </Text>
+                <Text style={styles.subjectScoreGrade}>{subject.grade.toFixed(2)}/20</Text>
+              </View>
+            ))}
+          </View>
+
           <Text style={styles.resultMessage}>
-            {accuracy >= 70
+            {score.overall >= 14
               ? 'أداء ممتاز! أنت مستعد للامتحان.'
-              : accuracy >= 50
+              : score.overall >= 10
               ? 'أداء جيد، تحتاج لمزيد من المراجعة.'
               : 'تحتاج للمزيد من الدراسة والتدريب.'}
           </Text>
@@ -234,7 +550,7 @@ export default function MockExamScreen() {
               variant="secondary"
             />
           </View>
-        </View>
+        </ScrollView>
       </View>
     );
   }
@@ -278,11 +594,11 @@ export default function MockExamScreen() {
             style={[
               styles.progressDot,
               index === currentIndex && styles.progressDotActive,
-              answers[index] !== null && styles.progressDotAnswered,
+              isAnswered(index) && styles.progressDotAnswered,
             ]}
             onPress={() => {
               Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              setCurrentIndex(index);
+              goToQuestion(index);
             }}
           />
         ))}
@@ -298,18 +614,17 @@ export default function MockExamScreen() {
         </View>
 
         <View style={styles.options}>
-          {options.map((option, index) => (
-            <ExerciseOption
-              key={index}
-              text={option}
-              index={index}
-              selected={answers[currentIndex] === index}
-              correct={null}
+          {currentPayload && (
+            <ExerciseInput
+              key={currentExercise.id}
+              payload={currentPayload}
+              seed={currentExercise.id}
+              answer={answers[currentIndex]}
+              onChange={handleAnswerChange}
               showResult={false}
-              onSelect={() => handleSelectOption(index)}
               disabled={false}
             />
-          ))}
+          )}
         </View>
       </ScrollView>
 
@@ -493,7 +808,7 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
   },
   resultContainer: {
-    flex: 1,
+    flexGrow: 1,
     alignItems: 'center',
     justifyContent: 'center',
     padding: 40,
@@ -531,6 +846,83 @@ const styles = StyleSheet.create({
   resultButtons: {
     width: '100%',
   },
+  blueprintCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 2,
+    borderColor: Colors.accent,
+  },
+  blueprintHeader: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  blueprintTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  blueprintDescription: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'right',
+    marginBottom: 4,
+  },
+  blueprintMeta: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+    textAlign: 'right',
+    marginBottom: 12,
+  },
+  blueprintRow: {
+    flexDirection: 'row-reverse',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: Colors.borderLight,
+  },
+  blueprintSubject: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  blueprintSubjectMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  subjectScores: {
+    width: '100%',
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 24,
+  },
+  subjectScoreRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  subjectScoreName: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  subjectScoreMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  subjectScoreGrade: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: Colors.primary,
+    minWidth: 64,
+    textAlign: 'left',
+  },
   reviewQuestion: {
     backgroundColor: Colors.surface,
     borderRadius: 12,
@@ -579,4 +971,10 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 4,
   },
+  reviewTime: {
+    fontSize: 12,
+    color: Colors.textLight,
+    textAlign: 'right',
+    marginTop: 8,
+  },
 });
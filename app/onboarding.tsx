@@ -6,6 +6,7 @@ import {
   ScrollView,
   Pressable,
   Platform,
+  Switch,
 } from 'react-native';
 import { router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -14,6 +15,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useApp } from '@/lib/AppContext';
+import { localDate } from '@/lib/dates';
 import { PrimaryButton } from '@/components/PrimaryButton';
 import Colors from '@/constants/colors';
 
@@ -29,11 +31,17 @@ export default function OnboardingScreen() {
   const [dailyGoal, setDailyGoal] = useState(60);
   const [pomodoroWork, setPomodoroWork] = useState(25);
   const [pomodoroBreak, setPomodoroBreak] = useState(5);
+  const [longBreak, setLongBreak] = useState(15);
+  const [cycles, setCycles] = useState(4);
+  const [autoStartBreaks, setAutoStartBreaks] = useState(true);
+  const [autoStartWork, setAutoStartWork] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
   const dailyGoalOptions = [30, 45, 60, 90, 120];
   const pomodoroWorkOptions = [15, 20, 25, 30, 45];
   const pomodoroBreakOptions = [3, 5, 10, 15];
+  const longBreakOptions = [10, 15, 20, 30];
+  const cycleOptions = [2, 3, 4, 5, 6];
 
   const handleNext = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -59,10 +67,14 @@ export default function OnboardingScreen() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       
       await updateAppSettings({
-        exam_date: examDate.toISOString().split('T')[0],
+        exam_date: localDate(examDate),
         daily_minutes_goal: dailyGoal,
         pomodoro_work: pomodoroWork,
         pomodoro_break: pomodoroBreak,
+        pomodoro_long_break: longBreak,
+        pomodoro_cycles: cycles,
+        auto_start_breaks: autoStartBreaks ? 1 : 0,
+        auto_start_work: autoStartWork ? 1 : 0,
         onboarding_complete: 1,
       });
       
@@ -181,6 +193,38 @@ export default function OnboardingScreen() {
     </View>
   );
 
+  const renderOptionRow = (
+    options: number[],
+    selected: number,
+    onSelect: (value: number) => void,
+    unit: string
+  ) => (
+    <View style={styles.optionsGrid}>
+      {options.map((option) => (
+        <Pressable
+          key={option}
+          style={[
+            styles.optionButtonSmall,
+            selected === option && styles.optionButtonSelected,
+          ]}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            onSelect(option);
+          }}
+        >
+          <Text
+            style={[
+              styles.optionButtonText,
+              selected === option && styles.optionButtonTextSelected,
+            ]}
+          >
+            {option} {unit}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
   const renderPomodoro = () => (
     <View style={styles.stepContent}>
       <View style={styles.stepHeader}>
@@ -190,55 +234,32 @@ export default function OnboardingScreen() {
       </View>
       
       <Text style={styles.pomodoroLabel}>مدة فترة العمل</Text>
-      <View style={styles.optionsGrid}>
-        {pomodoroWorkOptions.map((option) => (
-          <Pressable
-            key={option}
-            style={[
-              styles.optionButtonSmall,
-              pomodoroWork === option && styles.optionButtonSelected,
-            ]}
-            onPress={() => {
-              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              setPomodoroWork(option);
-            }}
-          >
-            <Text
-              style={[
-                styles.optionButtonText,
-                pomodoroWork === option && styles.optionButtonTextSelected,
-              ]}
-            >
-              {option} د
-            </Text>
-          </Pressable>
-        ))}
-      </View>
-      
+      {renderOptionRow(pomodoroWorkOptions, pomodoroWork, setPomodoroWork, 'د')}
+
       <Text style={styles.pomodoroLabel}>مدة فترة الراحة</Text>
-      <View style={styles.optionsGrid}>
-        {pomodoroBreakOptions.map((option) => (
-          <Pressable
-            key={option}
-            style={[
-              styles.optionButtonSmall,
-              pomodoroBreak === option && styles.optionButtonSelected,
-            ]}
-            onPress={() => {
-              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              setPomodoroBreak(option);
-            }}
-          >
-            <Text
-              style={[
-                styles.optionButtonText,
-                pomodoroBreak === option && styles.optionButtonTextSelected,
-              ]}
-            >
-              {option} د
-            </Text>
-          </Pressable>
-        ))}
+      {renderOptionRow(pomodoroBreakOptions, pomodoroBreak, setPomodoroBreak, 'د')}
+
+      <Text style={styles.pomodoroLabel}>مدة الاستراحة الطويلة</Text>
+      {renderOptionRow(longBreakOptions, longBreak, setLongBreak, 'د')}
+
+      <Text style={styles.pomodoroLabel}>استراحة طويلة بعد كل</Text>
+      {renderOptionRow(cycleOptions, cycles, setCycles, 'دورات')}
+
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>بدء الراحة تلقائياً</Text>
+        <Switch
+          value={autoStartBreaks}
+          onValueChange={setAutoStartBreaks}
+          trackColor={{ true: Colors.primary, false: Colors.border }}
+        />
+      </View>
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>بدء الجلسة التالية تلقائياً</Text>
+        <Switch
+          value={autoStartWork}
+          onValueChange={setAutoStartWork}
+          trackColor={{ true: Colors.primary, false: Colors.border }}
+        />
       </View>
     </View>
   );
@@ -469,6 +490,20 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontStyle: 'italic',
   },
+  switchRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: Colors.text,
+  },
   pomodoroLabel: {
     fontSize: 16,
     fontWeight: '600',
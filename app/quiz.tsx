@@ -1,12 +1,31 @@
-import { useState, useEffect, useCallback } from 'react';
-import { StyleSheet, Text, View, ScrollView, Pressable, Platform } from 'react-native';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { StyleSheet, Text, View, ScrollView, Pressable, Platform, Alert } from 'react-native';
 import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { getRandomExercises, getExercises, saveAttempt } from '@/db/database';
-import type { Exercise } from '@/db/types';
-import { ExerciseOption } from '@/components/ExerciseOption';
+import {
+  getRandomExercises,
+  getExercises,
+  getDueExercises,
+  getExercisesByIds,
+  saveAttempt,
+  recordLessonResults,
+  saveActiveSession,
+  getActiveSession,
+  clearActiveSession,
+} from '@/db/database';
+import type { Exercise, LessonResult, QuizCheckpoint } from '@/db/types';
+import {
+  getExercisePayload,
+  withValidPayloads,
+  gradeAnswer,
+  isAnswerComplete,
+  createInitialAnswer,
+  formatCorrectAnswer,
+  type ExerciseAnswer,
+} from '@shared/exercise';
+import { ExerciseInput } from '@/components/ExerciseInput';
 import { PrimaryButton } from '@/components/PrimaryButton';
 import { ProgressRing } from '@/components/ProgressRing';
 import Colors from '@/constants/colors';
@@ -16,30 +35,85 @@ export default function QuizScreen() {
     subjectId?: string;
     lessonId?: string;
     difficulty?: string;
+    source?: 'due';
+    resume?: string;
   }>();
   const insets = useSafeAreaInsets();
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [answer, setAnswer] = useState<ExerciseAnswer | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [correctCount, setCorrectCount] = useState(0);
+  const [results, setResults] = useState<LessonResult[]>([]);
   const [isComplete, setIsComplete] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [startTime, setStartTime] = useState<number>(Date.now());
+  const [isDueSource, setIsDueSource] = useState(params.source === 'due');
+  const startedAt = useRef(new Date().toISOString());
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
   useFocusEffect(
     useCallback(() => {
       loadExercises();
-    }, [params.subjectId, params.lessonId, params.difficulty])
+    }, [params.subjectId, params.lessonId, params.difficulty, params.source, params.resume])
   );
 
+  const resumeQuiz = async () => {
+    const session = await getActiveSession('quiz');
+    if (!session) return;
+    const checkpoint: QuizCheckpoint = JSON.parse(session.payload_json);
+    const exercisesList = withValidPayloads(await getExercisesByIds(checkpoint.exercise_ids));
+    startedAt.current = session.started_at;
+    setIsDueSource(checkpoint.is_due_source);
+    setExercises(exercisesList);
+    setCorrectCount(checkpoint.correct_count);
+    setResults(checkpoint.results);
+    setShowResult(false);
+    setStartTime(Date.now());
+
+    if (checkpoint.current_index >= exercisesList.length) {
+      // Every question was answered before the app closed; only the summary was lost.
+      await finishQuiz(checkpoint.results, checkpoint.is_due_source);
+    } else {
+      setCurrentIndex(checkpoint.current_index);
+      setAnswer(initialAnswerFor(exercisesList[checkpoint.current_index]));
+    }
+  };
+
+  // A new quiz only replaces the saved one once it is answered, and only if
+  // the student chose not to continue the saved one.
+  const askToResume = () =>
+    new Promise<boolean>((resolve) => {
+      const message = 'لديك اختبار لم تكمله. هل تريد متابعته؟ إذا بدأت اختباراً جديداً فسيحل محله بعد أول إجابة.';
+      if (Platform.OS === 'web') {
+        resolve(confirm(message));
+        return;
+      }
+      Alert.alert(
+        'اختبار غير مكتمل',
+        message,
+        [
+          { text: 'اختبار جديد', style: 'destructive', onPress: () => resolve(false) },
+          { text: 'متابعة', onPress: () => resolve(true) },
+        ],
+        { cancelable: false }
+      );
+    });
+
   const loadExercises = async () => {
     try {
       setIsLoading(true);
+      if (params.resume || ((await getActiveSession('quiz')) && (await askToResume()))) {
+        await resumeQuiz();
+        return;
+      }
+
+      const dueSource = params.source === 'due';
       let exercisesList: Exercise[] = [];
 
-      if (params.lessonId) {
+      if (dueSource) {
+        exercisesList = await getDueExercises();
+      } else if (params.lessonId) {
         exercisesList = await getExercises(parseInt(params.lessonId, 10));
       } else {
         const subjectId = params.subjectId ? parseInt(params.subjectId, 10) : undefined;
@@ -51,9 +125,18 @@ export default function QuizScreen() {
         exercisesList = exercisesList.filter((e) => e.difficulty === diff);
       }
 
-      const shuffled = exercisesList.sort(() => Math.random() - 0.5).slice(0, 10);
-      setExercises(shuffled);
+      const valid = withValidPayloads(exercisesList);
+      // Due cards are already ordered by urgency, so serve all of them in order.
+      const selected = dueSource ? valid : valid.sort(() => Math.random() - 0.5).slice(0, 10);
+      setIsDueSource(dueSource);
+      setExercises(selected);
+      setCurrentIndex(0);
+      setCorrectCount(0);
+      setResults([]);
+      setShowResult(false);
+      setAnswer(selected.length > 0 ? initialAnswerFor(selected[0]) : null);
       setStartTime(Date.now());
+      startedAt.current = new Date().toISOString();
     } catch (error) {
       console.error('Error loading exercises:', error);
     } finally {
@@ -62,22 +145,27 @@ export default function QuizScreen() {
   };
 
   const currentExercise = exercises[currentIndex];
-  const options: string[] = currentExercise
-    ? JSON.parse(currentExercise.options_json)
-    : [];
+  const payload = currentExercise ? getExercisePayload(currentExercise) : null;
+  const isCorrectAnswer = payload ? gradeAnswer(payload, answer) : false;
 
-  const handleSelectOption = (index: number) => {
+  const initialAnswerFor = (exercise: Exercise) => {
+    const exercisePayload = getExercisePayload(exercise);
+    return exercisePayload ? createInitialAnswer(exercisePayload, exercise.id) : null;
+  };
+
+  const handleAnswerChange = (next: ExerciseAnswer) => {
     if (showResult) return;
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setSelectedIndex(index);
+    setAnswer(next);
   };
 
   const handleCheck = async () => {
-    if (selectedIndex === null || !currentExercise) return;
+    if (!answer || !payload || !currentExercise) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     setShowResult(true);
 
-    const isCorrect = selectedIndex === currentExercise.correct_index;
+    const isCorrect = gradeAnswer(payload, answer);
+    const nextResults = [...results, { lesson_id: currentExercise.lesson_id, is_correct: isCorrect }];
+    setResults(nextResults);
     if (isCorrect) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setCorrectCount((prev) => prev + 1);
@@ -86,18 +174,43 @@ export default function QuizScreen() {
     }
 
     const timeSpent = Math.round((Date.now() - startTime) / 1000);
-    await saveAttempt(currentExercise.id, selectedIndex, isCorrect, timeSpent);
+    await saveAttempt(currentExercise.id, answer, isCorrect, timeSpent);
+
+    const checkpoint: QuizCheckpoint = {
+      exercise_ids: exercises.map((e) => e.id),
+      current_index: currentIndex + 1,
+      correct_count: correctCount + (isCorrect ? 1 : 0),
+      results: nextResults,
+      is_due_source: isDueSource,
+    };
+    try {
+      await saveActiveSession('quiz', checkpoint, startedAt.current);
+    } catch (error) {
+      console.error('Error saving quiz checkpoint:', error);
+    }
   };
 
-  const handleNext = () => {
+  const finishQuiz = async (quizResults: LessonResult[], skipLessonResults: boolean) => {
+    setIsComplete(true);
+    try {
+      await clearActiveSession('quiz');
+      if (!skipLessonResults) {
+        await recordLessonResults(quizResults);
+      }
+    } catch (error) {
+      console.error('Error recording quiz results:', error);
+    }
+  };
+
+  const handleNext = async () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     if (currentIndex < exercises.length - 1) {
       setCurrentIndex((prev) => prev + 1);
-      setSelectedIndex(null);
+      setAnswer(initialAnswerFor(exercises[currentIndex + 1]));
       setShowResult(false);
       setStartTime(Date.now());
     } else {
-      setIsComplete(true);
+      await finishQuiz(results, isDueSource);
     }
   };
 
@@ -123,9 +236,13 @@ export default function QuizScreen() {
         </View>
         <View style={styles.emptyContainer}>
           <Ionicons name="help-circle-outline" size={64} color={Colors.textLight} />
-          <Text style={styles.emptyTitle}>لا توجد تمارين</Text>
+          <Text style={styles.emptyTitle}>
+            {isDueSource ? 'لا توجد أسئلة للمراجعة' : 'لا توجد تمارين'}
+          </Text>
           <Text style={styles.emptySubtitle}>
-            لم يتم العثور على تمارين تطابق اختيارك
+            {isDueSource
+              ? 'أحسنت! راجعت كل الأسئلة المستحقة اليوم'
+              : 'لم يتم العثور على تمارين تطابق اختيارك'}
           </Text>
           <PrimaryButton title="العودة" onPress={() => router.back()} />
         </View>
@@ -178,9 +295,10 @@ export default function QuizScreen() {
               title="تمارين جديدة"
               onPress={() => {
                 setCurrentIndex(0);
-                setSelectedIndex(null);
+                setAnswer(null);
                 setShowResult(false);
                 setCorrectCount(0);
+                setResults([]);
                 setIsComplete(false);
                 loadExercises();
               }}
@@ -230,42 +348,34 @@ export default function QuizScreen() {
         </View>
 
         <View style={styles.options}>
-          {options.map((option, index) => (
-            <ExerciseOption
-              key={index}
-              text={option}
-              index={index}
-              selected={selectedIndex === index}
-              correct={
-                showResult
-                  ? index === currentExercise.correct_index
-                    ? true
-                    : index === selectedIndex
-                    ? false
-                    : null
-                  : null
-              }
+          {payload && (
+            <ExerciseInput
+              key={currentExercise.id}
+              payload={payload}
+              seed={currentExercise.id}
+              answer={answer}
+              onChange={handleAnswerChange}
               showResult={showResult}
-              onSelect={() => handleSelectOption(index)}
               disabled={showResult}
             />
-          ))}
+          )}
         </View>
 
         {showResult && (
           <View
             style={[
               styles.explanationCard,
-              selectedIndex === currentExercise.correct_index
-                ? styles.explanationCorrect
-                : styles.explanationWrong,
+              isCorrectAnswer ? styles.explanationCorrect : styles.explanationWrong,
             ]}
           >
             <Text style={styles.explanationTitle}>
-              {selectedIndex === currentExercise.correct_index
-                ? 'إجابة صحيحة!'
-                : 'إجابة خاطئة'}
+              {isCorrectAnswer ? 'إجابة صحيحة!' : 'إجابة خاطئة'}
             </Text>
+            {!isCorrectAnswer && payload && payload.type !== 'mcq' && (
+              <Text style={styles.explanationText}>
+                الإجابة الصحيحة: {formatCorrectAnswer(payload)}
+              </Text>
+            )}
             <Text style={styles.explanationText}>
               {currentExercise.explanation}
             </Text>
@@ -278,7 +388,7 @@ export default function QuizScreen() {
           <PrimaryButton
             title="تحقق"
             onPress={handleCheck}
-            disabled={selectedIndex === null}
+            disabled={!payload || !isAnswerComplete(payload, answer)}
           />
         ) : (
           <PrimaryButton
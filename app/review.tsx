@@ -0,0 +1,575 @@
+import { useState, useCallback } from 'react';
+import { StyleSheet, Text, View, ScrollView, Pressable, Platform } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import {
+  getLessonsForReview,
+  getExercises,
+  saveAttempt,
+  updateReviewQueue,
+  getReviewForecast,
+} from '@/db/database';
+import { addDays, localDate } from '@/lib/dates';
+import type { Exercise, LessonWithSubject, ReviewForecast } from '@/db/types';
+import { useApp } from '@/lib/AppContext';
+import {
+  getExercisePayload,
+  withValidPayloads,
+  gradeAnswer,
+  isAnswerComplete,
+  createInitialAnswer,
+  type ExerciseAnswer,
+} from '@shared/exercise';
+import { ExerciseInput } from '@/components/ExerciseInput';
+import { PrimaryButton } from '@/components/PrimaryButton';
+import { EmptyState } from '@/components/EmptyState';
+import Colors from '@/constants/colors';
+
+const REVIEW_QUESTIONS_PER_LESSON = 3;
+
+type Phase = 'study' | 'questions' | 'grade';
+
+const GRADES = [
+  { quality: 1, label: 'نسيت', color: Colors.danger },
+  { quality: 3, label: 'صعب', color: Colors.warning },
+  { quality: 4, label: 'جيد', color: Colors.primary },
+  { quality: 5, label: 'سهل', color: Colors.success },
+];
+
+export default function ReviewSessionScreen() {
+  const insets = useSafeAreaInsets();
+  const { refreshData } = useApp();
+  const [lessons, setLessons] = useState<LessonWithSubject[]>([]);
+  const [lessonIndex, setLessonIndex] = useState(0);
+  const [phase, setPhase] = useState<Phase>('study');
+  const [questions, setQuestions] = useState<Exercise[]>([]);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [answer, setAnswer] = useState<ExerciseAnswer | null>(null);
+  const [showResult, setShowResult] = useState(false);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [questionStart, setQuestionStart] = useState(Date.now());
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [forecast, setForecast] = useState<ReviewForecast | null>(null);
+  const [isComplete, setIsComplete] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSession();
+    }, [])
+  );
+
+  const loadSession = async () => {
+    try {
+      setIsLoading(true);
+      const dueLessons = await getLessonsForReview();
+      setLessons(dueLessons);
+      setLessonIndex(0);
+      setPhase('study');
+      setReviewedCount(0);
+      setIsComplete(false);
+    } catch (error) {
+      console.error('Error loading review session:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const currentLesson = lessons[lessonIndex];
+  const currentQuestion = questions[questionIndex];
+  const payload = currentQuestion ? getExercisePayload(currentQuestion) : null;
+
+  const initialAnswerFor = (exercise: Exercise | undefined) => {
+    const exercisePayload = exercise ? getExercisePayload(exercise) : null;
+    return exercise && exercisePayload ? createInitialAnswer(exercisePayload, exercise.id) : null;
+  };
+
+  const startQuestions = async () => {
+    if (!currentLesson) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const exercises = withValidPayloads(await getExercises(currentLesson.id));
+    const picked = exercises
+      .sort(() => Math.random() - 0.5)
+      .slice(0, REVIEW_QUESTIONS_PER_LESSON);
+
+    setQuestions(picked);
+    setQuestionIndex(0);
+    setAnswer(initialAnswerFor(picked[0]));
+    setShowResult(false);
+    setCorrectCount(0);
+    setQuestionStart(Date.now());
+    setPhase(picked.length > 0 ? 'questions' : 'grade');
+  };
+
+  const handleCheck = async () => {
+    if (!answer || !payload || !currentQuestion) return;
+    setShowResult(true);
+
+    const isCorrect = gradeAnswer(payload, answer);
+    if (isCorrect) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setCorrectCount((prev) => prev + 1);
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+
+    const timeSpent = Math.round((Date.now() - questionStart) / 1000);
+    await saveAttempt(currentQuestion.id, answer, isCorrect, timeSpent);
+  };
+
+  const handleNextQuestion = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (questionIndex < questions.length - 1) {
+      setQuestionIndex((prev) => prev + 1);
+      setAnswer(initialAnswerFor(questions[questionIndex + 1]));
+      setShowResult(false);
+      setQuestionStart(Date.now());
+    } else {
+      setPhase('grade');
+    }
+  };
+
+  const handleGrade = async (quality: number) => {
+    if (!currentLesson) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    try {
+      await updateReviewQueue(currentLesson.id, quality);
+      setReviewedCount((prev) => prev + 1);
+    } catch (error) {
+      console.error('Error grading review:', error);
+    }
+
+    if (lessonIndex < lessons.length - 1) {
+      setLessonIndex((prev) => prev + 1);
+      setPhase('study');
+    } else {
+      await finishSession();
+    }
+  };
+
+  const finishSession = async () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    try {
+      const tomorrow = localDate(addDays(new Date(), 1));
+      setForecast(await getReviewForecast(tomorrow));
+      refreshData();
+    } catch (error) {
+      console.error('Error loading review forecast:', error);
+    }
+    setIsComplete(true);
+  };
+
+  const closeButton = (
+    <Pressable
+      style={styles.closeButton}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        router.back();
+      }}
+    >
+      <Ionicons name="close" size={24} color={Colors.text} />
+    </Pressable>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+        <View style={styles.centered}>
+          <Text style={styles.loadingText}>جاري تحضير المراجعة...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (lessons.length === 0) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+        <View style={styles.header}>{closeButton}</View>
+        <View style={styles.centered}>
+          <EmptyState
+            icon="checkmark-done-circle-outline"
+            title="لا توجد دروس للمراجعة اليوم"
+            description="عد غداً لمتابعة جدول المراجعة"
+          />
+          <View style={styles.fullWidth}>
+            <PrimaryButton title="العودة" onPress={() => router.back()} />
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  if (isComplete) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+        <View style={styles.centered}>
+          <View style={styles.resultIcon}>
+            <Ionicons name="checkmark-done" size={64} color={Colors.success} />
+          </View>
+          <Text style={styles.resultTitle}>انتهت المراجعة!</Text>
+          <Text style={styles.resultSubtitle}>راجعت {reviewedCount} درس اليوم</Text>
+          {forecast && (
+            <View style={styles.forecastCard}>
+              <Text style={styles.forecastTitle}>المتبقي للغد</Text>
+              <Text style={styles.forecastText}>{forecast.lessons} درس للمراجعة</Text>
+              <Text style={styles.forecastText}>{forecast.exercises} سؤال للمراجعة</Text>
+            </View>
+          )}
+          <View style={styles.fullWidth}>
+            <PrimaryButton title="العودة" onPress={() => router.back()} />
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+      <View style={styles.header}>
+        {closeButton}
+        <View style={styles.progressContainer}>
+          <View style={styles.progressBar}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${(lessonIndex / lessons.length) * 100}%` },
+              ]}
+            />
+          </View>
+          <Text style={styles.progressText}>
+            {lessonIndex + 1}/{lessons.length}
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.lessonHeader}>
+          <View style={styles.subjectBadge}>
+            <View style={[styles.subjectDot, { backgroundColor: currentLesson.subject_color }]} />
+            <Text style={styles.subjectName}>{currentLesson.subject_name}</Text>
+          </View>
+          <Text style={styles.lessonTitle}>{currentLesson.title}</Text>
+        </View>
+
+        {phase === 'study' && (
+          <>
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="document-text" size={20} color={Colors.primary} />
+                <Text style={styles.sectionTitle}>ملخص الدرس</Text>
+              </View>
+              <Text style={styles.sectionContent}>{currentLesson.summary}</Text>
+            </View>
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="star" size={20} color={Colors.warning} />
+                <Text style={styles.sectionTitle}>النقاط المهمة</Text>
+              </View>
+              <Text style={styles.sectionContent}>{currentLesson.importance_points}</Text>
+            </View>
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="alert-circle" size={20} color={Colors.danger} />
+                <Text style={styles.sectionTitle}>الأخطاء الشائعة</Text>
+              </View>
+              <Text style={styles.sectionContent}>{currentLesson.common_mistakes}</Text>
+            </View>
+          </>
+        )}
+
+        {phase === 'questions' && currentQuestion && (
+          <>
+            <Text style={styles.questionCounter}>
+              سؤال {questionIndex + 1} من {questions.length}
+            </Text>
+            <View style={styles.questionCard}>
+              <Text style={styles.questionText}>{currentQuestion.question}</Text>
+            </View>
+            {payload && (
+              <ExerciseInput
+                key={currentQuestion.id}
+                payload={payload}
+                seed={currentQuestion.id}
+                answer={answer}
+                onChange={setAnswer}
+                showResult={showResult}
+                disabled={showResult}
+              />
+            )}
+            {showResult && (
+              <Text style={styles.explanationText}>{currentQuestion.explanation}</Text>
+            )}
+          </>
+        )}
+
+        {phase === 'grade' && (
+          <View style={styles.gradeCard}>
+            <Text style={styles.gradeTitle}>كيف كانت مراجعتك لهذا الدرس؟</Text>
+            {questions.length > 0 && (
+              <Text style={styles.gradeHint}>
+                أجبت على {correctCount} من {questions.length} بشكل صحيح
+              </Text>
+            )}
+            <View style={styles.gradeButtons}>
+              {GRADES.map((grade) => (
+                <Pressable
+                  key={grade.quality}
+                  style={[styles.gradeButton, { borderColor: grade.color }]}
+                  onPress={() => handleGrade(grade.quality)}
+                >
+                  <Text style={[styles.gradeButtonText, { color: grade.color }]}>
+                    {grade.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+
+      {phase !== 'grade' && (
+        <View style={[styles.footer, { paddingBottom: insets.bottom + 16 }]}>
+          {phase === 'study' ? (
+            <PrimaryButton title="اختبر نفسك" onPress={startQuestions} />
+          ) : !showResult ? (
+            <PrimaryButton title="تحقق" onPress={handleCheck} disabled={!payload || !isAnswerComplete(payload, answer)} />
+          ) : (
+            <PrimaryButton
+              title={questionIndex < questions.length - 1 ? 'التالي' : 'قيّم مراجعتك'}
+              onPress={handleNextQuestion}
+            />
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  fullWidth: {
+    width: '100%',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  closeButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  progressContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    gap: 12,
+  },
+  progressBar: {
+    flex: 1,
+    height: 8,
+    backgroundColor: Colors.borderLight,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.warning,
+    borderRadius: 4,
+  },
+  progressText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    minWidth: 40,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  lessonHeader: {
+    alignItems: 'flex-end',
+    marginBottom: 16,
+  },
+  subjectBadge: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  subjectDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginLeft: 6,
+  },
+  subjectName: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  lessonTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    marginBottom: 12,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  sectionContent: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    lineHeight: 28,
+    textAlign: 'right',
+  },
+  questionCounter: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'right',
+    marginBottom: 8,
+  },
+  questionCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  questionText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    textAlign: 'right',
+    lineHeight: 30,
+  },
+  explanationText: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    textAlign: 'right',
+    lineHeight: 24,
+    marginTop: 8,
+  },
+  gradeCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    alignItems: 'center',
+  },
+  gradeTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  gradeHint: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
+  gradeButtons: {
+    flexDirection: 'row-reverse',
+    gap: 8,
+    marginTop: 8,
+  },
+  gradeButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  gradeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: Colors.borderLight,
+    backgroundColor: Colors.background,
+  },
+  resultIcon: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: Colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  resultTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  resultSubtitle: {
+    fontSize: 18,
+    color: Colors.textSecondary,
+    marginBottom: 24,
+  },
+  forecastCard: {
+    width: '100%',
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'flex-end',
+    marginBottom: 32,
+  },
+  forecastTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  forecastText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+});
@@ -1,19 +1,27 @@
-import { useState } from 'react';
-import { StyleSheet, Text, View, ScrollView, Pressable, Alert, Linking, Platform } from 'react-native';
+import { useState, useEffect } from 'react';
+import { StyleSheet, Text, View, ScrollView, Pressable, Alert, Linking, Platform, Switch } from 'react-native';
 import { router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useApp } from '@/lib/AppContext';
+import { localDate, parseLocalDate } from '@/lib/dates';
+import { parseReminderTimes, requestNotificationPermission } from '@/lib/notifications';
+import { shareBackup, pickBackup, BackupError, type BackupDocument, type BackupImportMode } from '@/lib/backup';
+import { importBackupData, getContentPacks } from '@/db/database';
+import { pickContentPack, importContentPack, ContentPackError } from '@/lib/contentPacks';
+import type { InstalledContentPack } from '@/db/types';
 import { PrimaryButton } from '@/components/PrimaryButton';
 import Colors from '@/constants/colors';
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
-  const { settings, updateAppSettings, resetAppData, daysUntilExam } = useApp();
+  const { settings, updateAppSettings, resetAppData, refreshData, daysUntilExam } = useApp();
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
+  const [timePickerTarget, setTimePickerTarget] = useState<'reminder' | 'nudge' | null>(null);
+  const [contentPacks, setContentPacks] = useState<InstalledContentPack[]>([]);
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
   const handleResetData = () => {
@@ -50,9 +58,138 @@ export default function SettingsScreen() {
     }
   };
 
+  const reminderTimes = parseReminderTimes(settings);
+  const notificationsOn = settings?.notifications_enabled === 1;
+
+  const toggleNotifications = async (enabled: boolean) => {
+    if (enabled && !(await requestNotificationPermission())) {
+      Alert.alert('الإشعارات غير مسموحة', 'اسمح للتطبيق بإرسال الإشعارات من إعدادات الجهاز.', [
+        { text: 'إلغاء', style: 'cancel' },
+        { text: 'فتح الإعدادات', onPress: () => Linking.openSettings() },
+      ]);
+      return;
+    }
+    updateAppSettings({ notifications_enabled: enabled ? 1 : 0 });
+  };
+
+  const removeReminderTime = (time: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    updateAppSettings({
+      reminder_times_json: JSON.stringify(reminderTimes.filter((t) => t !== time)),
+    });
+  };
+
+  const handleTimePicked = (date: Date | undefined) => {
+    const target = timePickerTarget;
+    // Closed after every pick: a spinner left open would add a reminder per scroll.
+    setTimePickerTarget(null);
+    if (!date || !target) return;
+    const time = `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+    if (target === 'nudge') {
+      updateAppSettings({ goal_nudge_time: time });
+    } else if (!reminderTimes.includes(time)) {
+      updateAppSettings({ reminder_times_json: JSON.stringify([...reminderTimes, time].sort()) });
+    }
+  };
+
+  const timeToDate = (time: string) => {
+    const [hour, minute] = time.split(':').map(Number);
+    const date = new Date();
+    date.setHours(hour, minute, 0, 0);
+    return date;
+  };
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      alert(`${title}\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await shareBackup();
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      showMessage('تعذر التصدير', error instanceof BackupError ? error.message : 'حدث خطأ أثناء إنشاء النسخة الاحتياطية.');
+    }
+  };
+
+  const handleImport = async () => {
+    let backup: BackupDocument | null;
+    try {
+      backup = await pickBackup();
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      showMessage('تعذر الاستيراد', error instanceof BackupError ? error.message : 'تعذرت قراءة الملف.');
+      return;
+    }
+    if (!backup) return;
+
+    const exportedOn = formatDate(backup.exported_at);
+    const chosen = backup;
+    if (Platform.OS === 'web') {
+      const replace = confirm(`نسخة بتاريخ ${exportedOn}. هل تريد استبدال بياناتك الحالية؟ اختر "إلغاء" لدمجها بدلاً من ذلك.`);
+      performImport(chosen, replace ? 'replace' : 'merge');
+      return;
+    }
+    Alert.alert(
+      'استيراد نسخة احتياطية',
+      `نسخة بتاريخ ${exportedOn} (${backup.study_sessions.length} جلسة). الدمج يضيف السجل إلى بياناتك الحالية، والاستبدال يحذفها أولاً.`,
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        { text: 'دمج', onPress: () => performImport(chosen, 'merge') },
+        { text: 'استبدال', style: 'destructive', onPress: () => performImport(chosen, 'replace') },
+      ]
+    );
+  };
+
+  const performImport = async (backup: BackupDocument, mode: BackupImportMode) => {
+    try {
+      await importBackupData(backup, mode);
+      await refreshData();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showMessage('تم الاستيراد', 'تمت استعادة بياناتك بنجاح.');
+    } catch (error) {
+      console.error('Error importing backup:', error);
+      showMessage('تعذر الاستيراد', 'حدث خطأ أثناء استعادة البيانات.');
+    }
+  };
+
+  useEffect(() => {
+    loadContentPacks();
+  }, []);
+
+  const loadContentPacks = async () => {
+    try {
+      setContentPacks(await getContentPacks());
+    } catch (error) {
+      console.error('Error loading content packs:', error);
+    }
+  };
+
+  const handleImportPack = async () => {
+    try {
+      const pack = await pickContentPack();
+      if (!pack) return;
+      const result = await importContentPack(pack);
+      await refreshData();
+      await loadContentPacks();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showMessage(
+        result === 'updated' ? 'تم تحديث الحزمة' : 'تم تثبيت الحزمة',
+        `${pack.title}: ${pack.lessons.length} درس و${pack.exercises.length} تمرين.`
+      );
+    } catch (error) {
+      console.error('Error importing content pack:', error);
+      showMessage('تعذر استيراد الحزمة', error instanceof ContentPackError ? error.message : 'حدث خطأ أثناء تثبيت الحزمة.');
+    }
+  };
+
   const formatDate = (dateStr: string | null) => {
     if (!dateStr) return 'غير محدد';
-    const date = new Date(dateStr);
+    const date = parseLocalDate(dateStr);
     return date.toLocaleDateString('ar-DZ', {
       year: 'numeric',
       month: 'long',
@@ -94,6 +231,37 @@ export default function SettingsScreen() {
     </Pressable>
   );
 
+  const SettingToggle = ({
+    icon,
+    title,
+    value,
+    onChange,
+    color = Colors.primary,
+  }: {
+    icon: keyof typeof Ionicons.glyphMap;
+    title: string;
+    value: boolean;
+    onChange: (value: boolean) => void;
+    color?: string;
+  }) => (
+    <View style={styles.settingItem}>
+      <View style={[styles.settingIcon, { backgroundColor: color + '15' }]}>
+        <Ionicons name={icon} size={22} color={color} />
+      </View>
+      <View style={styles.settingInfo}>
+        <Text style={styles.settingTitle}>{title}</Text>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={(next) => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          onChange(next);
+        }}
+        trackColor={{ true: Colors.primary, false: Colors.border }}
+      />
+    </View>
+  );
+
   return (
     <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
       <View style={styles.header}>
@@ -137,14 +305,14 @@ export default function SettingsScreen() {
 
         {showDatePicker && (
           <DateTimePicker
-            value={settings?.exam_date ? new Date(settings.exam_date) : new Date()}
+            value={settings?.exam_date ? parseLocalDate(settings.exam_date) : new Date()}
             mode="date"
             display={Platform.OS === 'ios' ? 'spinner' : 'default'}
             onChange={(event, date) => {
               setShowDatePicker(Platform.OS === 'ios');
               if (date) {
                 updateAppSettings({
-                  exam_date: date.toISOString().split('T')[0],
+                  exam_date: localDate(date),
                 });
               }
             }}
@@ -168,12 +336,163 @@ export default function SettingsScreen() {
               value={`${settings?.pomodoro_work || 25} دقيقة عمل / ${settings?.pomodoro_break || 5} دقيقة راحة`}
               color={Colors.accent}
             />
+            <View style={styles.separator} />
+            <SettingItem
+              icon="cafe"
+              title="الاستراحة الطويلة"
+              value={`${settings?.pomodoro_long_break || 15} دقيقة بعد كل ${settings?.pomodoro_cycles || 4} دورات`}
+              color={Colors.success}
+            />
+            <View style={styles.separator} />
+            <SettingItem
+              icon="play-forward"
+              title="البدء التلقائي"
+              value={`الراحة: ${settings?.auto_start_breaks === 0 ? 'لا' : 'نعم'} / الجلسة التالية: ${settings?.auto_start_work === 1 ? 'نعم' : 'لا'}`}
+              color={Colors.primary}
+            />
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>التنبيهات</Text>
+          <View style={styles.card}>
+            {Platform.OS === 'web' ? (
+              <SettingItem
+                icon="notifications-off"
+                title="التنبيهات"
+                value="غير متاحة على الويب"
+                color={Colors.textSecondary}
+              />
+            ) : (
+              <>
+                <SettingToggle
+                  icon="notifications"
+                  title="تفعيل التنبيهات"
+                  value={notificationsOn}
+                  onChange={toggleNotifications}
+                />
+                {notificationsOn && (
+                  <>
+                    <View style={styles.separator} />
+                    <View style={styles.reminderTimes}>
+                      <Text style={styles.settingTitle}>أوقات التذكير اليومي</Text>
+                      <View style={styles.timeChips}>
+                        {reminderTimes.map((time) => (
+                          <Pressable
+                            key={time}
+                            style={styles.timeChip}
+                            onPress={() => removeReminderTime(time)}
+                          >
+                            <Text style={styles.timeChipText}>{time}</Text>
+                            <Ionicons name="close" size={14} color={Colors.textSecondary} />
+                          </Pressable>
+                        ))}
+                        <Pressable
+                          style={[styles.timeChip, styles.addTimeChip]}
+                          onPress={() => {
+                            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                            setTimePickerTarget('reminder');
+                          }}
+                        >
+                          <Ionicons name="add" size={16} color={Colors.primary} />
+                        </Pressable>
+                      </View>
+                    </View>
+                    <View style={styles.separator} />
+                    <SettingToggle
+                      icon="trending-up"
+                      title="تنبيه مسائي إذا لم أحقق هدفي"
+                      value={settings?.goal_nudge_enabled === 1}
+                      onChange={(value) => updateAppSettings({ goal_nudge_enabled: value ? 1 : 0 })}
+                      color={Colors.warning}
+                    />
+                    {settings?.goal_nudge_enabled === 1 && (
+                      <SettingItem
+                        icon="moon"
+                        title="وقت التنبيه المسائي"
+                        value={settings.goal_nudge_time}
+                        onPress={() => setTimePickerTarget('nudge')}
+                        color={Colors.warning}
+                      />
+                    )}
+                    <View style={styles.separator} />
+                    <SettingToggle
+                      icon="repeat"
+                      title="تنبيه بالدروس المستحقة للمراجعة"
+                      value={settings?.review_alerts_enabled === 1}
+                      onChange={(value) => updateAppSettings({ review_alerts_enabled: value ? 1 : 0 })}
+                      color={Colors.accent}
+                    />
+                    <View style={styles.separator} />
+                    <SettingToggle
+                      icon="flag"
+                      title="العد التنازلي للامتحان (30، 7، 1 يوم)"
+                      value={settings?.exam_countdown_enabled === 1}
+                      onChange={(value) => updateAppSettings({ exam_countdown_enabled: value ? 1 : 0 })}
+                      color={Colors.danger}
+                    />
+                  </>
+                )}
+              </>
+            )}
+          </View>
+        </View>
+
+        {timePickerTarget && (
+          <DateTimePicker
+            value={timeToDate(
+              timePickerTarget === 'nudge' ? settings?.goal_nudge_time || '20:00' : '18:00'
+            )}
+            mode="time"
+            is24Hour
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={(event, date) => handleTimePicked(event.type === 'set' ? date : undefined)}
+          />
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>حزم المحتوى</Text>
+          <View style={styles.card}>
+            {contentPacks.map((pack) => (
+              <View key={pack.id}>
+                <SettingItem
+                  icon="library"
+                  title={`${pack.title} (الإصدار ${pack.version})`}
+                  value={`${pack.lesson_count} درس · ${pack.exercise_count} تمرين`}
+                  color={Colors.secondary}
+                />
+                <View style={styles.separator} />
+              </View>
+            ))}
+            <SettingItem
+              icon="add-circle"
+              title="استيراد حزمة محتوى"
+              value="إضافة دروس وتمارين من ملف يوزعه أستاذك"
+              onPress={handleImportPack}
+              color={Colors.primary}
+            />
           </View>
         </View>
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>البيانات</Text>
           <View style={styles.card}>
+            <SettingItem
+              icon="cloud-upload"
+              title="تصدير نسخة احتياطية"
+              value="حفظ تقدمك في ملف لنقله إلى جهاز آخر"
+              onPress={handleExport}
+              color={Colors.primary}
+            />
+            <View style={styles.separator} />
+            <SettingItem
+              icon="cloud-download"
+              title="استيراد نسخة احتياطية"
+              value="استعادة التقدم من ملف"
+              onPress={handleImport}
+              color={Colors.accent}
+            />
+            <View style={styles.separator} />
             <SettingItem
               icon="refresh"
               title="إعادة تعيين البيانات"
@@ -294,6 +613,35 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: Colors.textSecondary,
   },
+  reminderTimes: {
+    padding: 16,
+    alignItems: 'flex-end',
+  },
+  timeChips: {
+    flexDirection: 'row-reverse',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  timeChip: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: Colors.background,
+  },
+  addTimeChip: {
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.surface,
+  },
+  timeChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
   separator: {
     height: 1,
     backgroundColor: Colors.borderLight,
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { StyleSheet, Text, View, Pressable, Platform, Vibration } from 'react-native';
-import { router, useFocusEffect } from 'expo-router';
+import { StyleSheet, Text, View, Pressable, Platform, Vibration, AppState, ScrollView } from 'react-native';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
@@ -11,144 +11,243 @@ import Animated, {
   interpolate,
 } from 'react-native-reanimated';
 import { useApp } from '@/lib/AppContext';
-import { saveStudySession, getSubjects } from '@/db/database';
-import type { Subject } from '@/db/types';
+import {
+  getSubjects,
+  getLessons,
+  getLesson,
+  saveActiveTimer,
+  clearActiveTimer,
+  settleActiveTimer,
+  stopStopwatch,
+  getTodayCycles,
+  getUnratedStudySession,
+  rateStudySession,
+} from '@/db/database';
+import type { Subject, Lesson, ActiveTimer, TimerDraft, TimerPhase, UnratedStudySession } from '@/db/types';
+import {
+  createPhase,
+  createStopwatch,
+  getRemainingSeconds,
+  getElapsedSeconds,
+  getTimerConfig,
+  isBreak,
+  pauseTimer as pausePhase,
+  resumeTimer as resumePhase,
+  DEFAULT_FOCUS_RATING,
+} from '@/lib/pomodoro';
 import { PrimaryButton } from '@/components/PrimaryButton';
+import { FocusRatingSheet } from '@/components/FocusRatingSheet';
 import Colors from '@/constants/colors';
 
-type TimerState = 'idle' | 'work' | 'break';
+type TimerState = 'idle' | TimerPhase;
+type TimerMode = 'pomodoro' | 'stopwatch';
 
 export default function TimerScreen() {
   const insets = useSafeAreaInsets();
+  const { lessonId } = useLocalSearchParams<{ lessonId?: string }>();
   const { settings, refreshData } = useApp();
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
-  const [timerState, setTimerState] = useState<TimerState>('idle');
-  const [timeLeft, setTimeLeft] = useState(0);
-  const [totalTime, setTotalTime] = useState(0);
-  const [completedSessions, setCompletedSessions] = useState(0);
-  const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [selectedLessonId, setSelectedLessonId] = useState<number | null>(null);
+  const [ratingSession, setRatingSession] = useState<UnratedStudySession | null>(null);
+  const [mode, setMode] = useState<TimerMode>('pomodoro');
+  const [todayCycles, setTodayCycles] = useState(0);
+  const [timer, setTimer] = useState<ActiveTimer | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const timerRef = useRef<ActiveTimer | null>(null);
+  const isSettling = useRef(false);
   const progress = useSharedValue(0);
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
-  const workMinutes = settings?.pomodoro_work || 25;
-  const breakMinutes = settings?.pomodoro_break || 5;
+  const config = getTimerConfig(settings);
+  const workMinutes = config.workMinutes;
 
-  useFocusEffect(
-    useCallback(() => {
-      loadSubjects();
-    }, [])
-  );
+  // Everything shown is derived from the persisted phase timestamps, so the
+  // countdown is right after the app was locked, backgrounded or killed.
+  const timerState: TimerState = timer?.phase ?? 'idle';
+  const isStopwatch = timerState === 'stopwatch' || (timerState === 'idle' && mode === 'stopwatch');
+  const isPaused = timer?.paused_remaining_seconds != null;
+  const totalTime = (timer?.phase_minutes ?? workMinutes) * 60;
+  const timeLeft = timer ? getRemainingSeconds(timer, now) : workMinutes * 60;
+  const elapsed = timer?.phase === 'stopwatch' ? getElapsedSeconds(timer, now) : 0;
+  const cycleIndex = (timer?.completed_sessions ?? 0) % config.cyclesBeforeLongBreak;
+  timerRef.current = timer;
 
-  const loadSubjects = async () => {
-    const subjectsList = await getSubjects();
-    setSubjects(subjectsList);
-    if (subjectsList.length > 0) {
-      setSelectedSubject(subjectsList[0]);
+  const loadTimer = async () => {
+    try {
+      const subjectsList = await getSubjects();
+      setSubjects(subjectsList);
+      const current = await settleActiveTimer();
+      setTimer(current);
+      setNow(Date.now());
+      let subjectId = current?.subject_id ?? null;
+      let lesson: number | null = current?.lesson_id ?? null;
+      if (!current && lessonId) {
+        const requested = await getLesson(Number(lessonId));
+        if (requested) {
+          subjectId = requested.subject_id;
+          lesson = requested.id;
+        }
+      }
+      const subject = subjectsList.find((s) => s.id === subjectId);
+      setSelectedSubject(subject ?? subjectsList[0] ?? null);
+      setSelectedLessonId(lesson);
+      if (current) refreshData();
+      if (current?.phase === 'stopwatch') setMode('stopwatch');
+      setTodayCycles(await getTodayCycles());
+      await checkForUnratedSession();
+    } catch (error) {
+      console.error('Error loading timer:', error);
     }
   };
 
+  const checkForUnratedSession = async () => {
+    setRatingSession(await getUnratedStudySession());
+  };
+
+  const selectedSubjectId = selectedSubject?.id;
   useEffect(() => {
-    if (timerState === 'idle') {
-      setTimeLeft(workMinutes * 60);
-      setTotalTime(workMinutes * 60);
-    }
-  }, [workMinutes, timerState]);
+    if (selectedSubjectId === undefined) return;
+    getLessons(selectedSubjectId)
+      .then(setLessons)
+      .catch((error) => console.error('Error loading lessons:', error));
+  }, [selectedSubjectId]);
 
   useEffect(() => {
-    if (timerState !== 'idle' && timeLeft > 0) {
-      intervalRef.current = setInterval(() => {
-        setTimeLeft((prev) => {
-          const newTime = prev - 1;
-          progress.value = withTiming(1 - newTime / totalTime, { duration: 500 });
-          return newTime;
-        });
-      }, 1000);
-    } else if (timeLeft === 0 && timerState !== 'idle') {
-      handleTimerComplete();
+    if (!timer || isPaused) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer, isPaused]);
+
+  const catchUp = async (onScreen: boolean) => {
+    if (isSettling.current) return;
+    isSettling.current = true;
+    try {
+      const previous = timerRef.current;
+      const settled = await settleActiveTimer(onScreen);
+      if (settled?.phase_started_at !== previous?.phase_started_at) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        if (Platform.OS !== 'web') {
+          Vibration.vibrate([0, 500, 200, 500]);
+        }
+        refreshData();
+        setTodayCycles(await getTodayCycles());
+        await checkForUnratedSession();
+      }
+      setTimer(settled);
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error updating timer:', error);
+    } finally {
+      isSettling.current = false;
     }
+  };
+
+  // The focus callback and the AppState listener outlive the render that set
+  // them up, so they go through refs to reach the current settings and timer.
+  const loadTimerRef = useRef(loadTimer);
+  loadTimerRef.current = loadTimer;
+  const catchUpRef = useRef(catchUp);
+  catchUpRef.current = catchUp;
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+  useFocusEffect(
+    useCallback(() => {
+      loadTimerRef.current();
+    }, [])
+  );
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        catchUpRef.current(false);
       }
-    };
-  }, [timerState, timeLeft, totalTime]);
+    });
+    return () => subscription.remove();
+  }, []);
 
-  const handleTimerComplete = async () => {
-    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    if (Platform.OS !== 'web') {
-      Vibration.vibrate([0, 500, 200, 500]);
+  useEffect(() => {
+    if (timer?.phase === 'stopwatch') {
+      // The ring fills once per hour of open-ended study.
+      progress.value = withTiming((elapsed % 3600) / 3600, { duration: 500 });
+      return;
     }
+    progress.value = withTiming(totalTime > 0 ? 1 - timeLeft / totalTime : 0, { duration: 500 });
+    if (timer && !isPaused && timeLeft === 0) {
+      catchUpRef.current(true);
+    }
+  }, [timer, isPaused, timeLeft, totalTime, elapsed, progress]);
 
-    if (timerState === 'work') {
-      if (selectedSubject && sessionStartTime) {
-        await saveStudySession(
-          selectedSubject.id,
-          null,
-          sessionStartTime.toISOString(),
-          new Date().toISOString(),
-          workMinutes,
-          4,
-          ''
-        );
-        refreshData();
+  const persist = async (next: TimerDraft | null) => {
+    try {
+      if (next) {
+        await saveActiveTimer(next);
+      } else {
+        await clearActiveTimer();
       }
-      setCompletedSessions((prev) => prev + 1);
-      setTimerState('break');
-      setTimeLeft(breakMinutes * 60);
-      setTotalTime(breakMinutes * 60);
-      progress.value = 0;
-    } else if (timerState === 'break') {
-      setTimerState('work');
-      setTimeLeft(workMinutes * 60);
-      setTotalTime(workMinutes * 60);
-      progress.value = 0;
-      setSessionStartTime(new Date());
+      setTimer(await settleActiveTimer());
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error saving timer:', error);
     }
   };
 
   const startTimer = () => {
+    if (!selectedSubject) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    setTimerState('work');
-    setTimeLeft(workMinutes * 60);
-    setTotalTime(workMinutes * 60);
-    progress.value = 0;
-    setSessionStartTime(new Date());
+    const base = { subject_id: selectedSubject.id, lesson_id: selectedLessonId };
+    persist(
+      mode === 'stopwatch'
+        ? createStopwatch(base, new Date())
+        : createPhase({ ...base, completed_sessions: 0 }, 'work', workMinutes, new Date())
+    );
+  };
+
+  const finishStopwatch = async () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    try {
+      await stopStopwatch();
+      setTimer(null);
+      refreshData();
+      await checkForUnratedSession();
+    } catch (error) {
+      console.error('Error stopping stopwatch:', error);
+    }
   };
 
   const pauseTimer = () => {
+    if (!timer) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+    persist(pausePhase(timer));
   };
 
   const resumeTimer = () => {
+    if (!timer) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setTimerState(timerState);
+    persist(resumePhase(timer));
   };
 
   const resetTimer = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
-    setTimerState('idle');
-    setTimeLeft(workMinutes * 60);
-    setTotalTime(workMinutes * 60);
-    progress.value = 0;
+    persist(null);
   };
 
   const skipBreak = () => {
+    if (!timer) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setTimerState('work');
-    setTimeLeft(workMinutes * 60);
-    setTotalTime(workMinutes * 60);
-    progress.value = 0;
-    setSessionStartTime(new Date());
+    persist(createPhase(timer, 'work', workMinutes, new Date()));
+  };
+
+  const submitRating = async (rating: number, notes: string) => {
+    if (!ratingSession) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    try {
+      await rateStudySession(ratingSession.id, rating, notes);
+      await refreshData();
+      await checkForUnratedSession();
+    } catch (error) {
+      console.error('Error rating session:', error);
+    }
   };
 
   const formatTime = (seconds: number) => {
@@ -165,7 +264,23 @@ export default function TimerScreen() {
   });
 
   const getTimerColor = () => {
-    return timerState === 'break' ? Colors.success : Colors.primary;
+    if (isBreak(timerState)) return Colors.success;
+    return isStopwatch ? Colors.accent : Colors.primary;
+  };
+
+  const getStateLabel = () => {
+    switch (timerState) {
+      case 'idle':
+        return 'جاهز للبدء';
+      case 'work':
+        return 'وقت الدراسة';
+      case 'break':
+        return 'وقت الراحة';
+      case 'long_break':
+        return 'استراحة طويلة';
+      case 'stopwatch':
+        return 'دراسة حرة';
+    }
   };
 
   return (
@@ -189,11 +304,7 @@ export default function TimerScreen() {
           <Text
             style={[styles.stateLabelText, { color: getTimerColor() }]}
           >
-            {timerState === 'idle'
-              ? 'جاهز للبدء'
-              : timerState === 'work'
-              ? 'وقت الدراسة'
-              : 'وقت الراحة'}
+            {getStateLabel()}
           </Text>
         </View>
 
@@ -213,17 +324,45 @@ export default function TimerScreen() {
             />
             <View style={styles.timerInner}>
               <Text style={[styles.timerText, { color: getTimerColor() }]}>
-                {formatTime(timeLeft)}
+                {formatTime(isStopwatch ? elapsed : timeLeft)}
               </Text>
               <Text style={styles.timerSubtext}>
-                {completedSessions} جلسات مكتملة
+                {todayCycles} دورات مكتملة اليوم
               </Text>
             </View>
           </View>
         </View>
 
+        {!isStopwatch && (
+          <View style={styles.cycleDots}>
+            {Array.from({ length: config.cyclesBeforeLongBreak }, (_, i) => (
+              <View
+                key={i}
+                style={[styles.cycleDot, i < cycleIndex && { backgroundColor: getTimerColor() }]}
+              />
+            ))}
+          </View>
+        )}
+
         {timerState === 'idle' && (
           <View style={styles.subjectSelector}>
+            <View style={styles.modeToggle}>
+              {(['pomodoro', 'stopwatch'] as const).map((option) => (
+                <Pressable
+                  key={option}
+                  style={[styles.modeButton, mode === option && styles.modeButtonSelected]}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setMode(option);
+                  }}
+                >
+                  <Text style={[styles.modeButtonText, mode === option && styles.modeButtonTextSelected]}>
+                    {option === 'pomodoro' ? 'بومودورو' : 'ساعة إيقاف'}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
             <Text style={styles.selectorLabel}>اختر المادة</Text>
             <View style={styles.subjectChips}>
               {subjects.map((subject) => (
@@ -239,6 +378,7 @@ export default function TimerScreen() {
                   onPress={() => {
                     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                     setSelectedSubject(subject);
+                    setSelectedLessonId(null);
                   }}
                 >
                   <Text
@@ -252,30 +392,101 @@ export default function TimerScreen() {
                 </Pressable>
               ))}
             </View>
+
+            {lessons.length > 0 && (
+              <>
+                <Text style={[styles.selectorLabel, styles.lessonLabel]}>اختر الدرس</Text>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.lessonChips}
+                >
+                  {[null, ...lessons].map((lesson) => {
+                    const isSelected = (lesson?.id ?? null) === selectedLessonId;
+                    return (
+                      <Pressable
+                        key={lesson?.id ?? 'none'}
+                        style={[styles.lessonChip, isSelected && styles.lessonChipSelected]}
+                        onPress={() => {
+                          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                          setSelectedLessonId(lesson?.id ?? null);
+                        }}
+                      >
+                        <Text
+                          style={[styles.lessonChipText, isSelected && styles.lessonChipTextSelected]}
+                          numberOfLines={1}
+                        >
+                          {lesson?.title ?? 'بدون درس محدد'}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </ScrollView>
+              </>
+            )}
           </View>
         )}
+
+        {timerState !== 'idle' && selectedSubject && (
+          <Text style={styles.sessionLabel}>
+            {selectedSubject.name}
+            {timer?.lesson_id ? ` · ${lessons.find((l) => l.id === timer.lesson_id)?.title ?? ''}` : ''}
+          </Text>
+        )}
       </View>
 
       <View style={[styles.footer, { paddingBottom: insets.bottom + 16 }]}>
         {timerState === 'idle' ? (
           <PrimaryButton title="ابدأ الجلسة" onPress={startTimer} />
-        ) : timerState === 'break' ? (
+        ) : isBreak(timerState) ? (
+          <View style={styles.buttonRow}>
+            <View style={styles.buttonHalf}>
+              {isPaused ? (
+                <PrimaryButton title="ابدأ الراحة" onPress={resumeTimer} />
+              ) : (
+                <PrimaryButton title="تخطي الراحة" onPress={skipBreak} variant="secondary" />
+              )}
+            </View>
+            <View style={styles.buttonHalf}>
+              {isPaused ? (
+                <PrimaryButton title="تخطي الراحة" onPress={skipBreak} variant="secondary" />
+              ) : (
+                <PrimaryButton title="إنهاء" onPress={resetTimer} variant="danger" />
+              )}
+            </View>
+          </View>
+        ) : timerState === 'stopwatch' ? (
           <View style={styles.buttonRow}>
             <View style={styles.buttonHalf}>
-              <PrimaryButton title="تخطي الراحة" onPress={skipBreak} variant="secondary" />
+              <PrimaryButton
+                title={isPaused ? 'استئناف' : 'إيقاف مؤقت'}
+                onPress={isPaused ? resumeTimer : pauseTimer}
+              />
             </View>
             <View style={styles.buttonHalf}>
-              <PrimaryButton title="إنهاء" onPress={resetTimer} variant="danger" />
+              <PrimaryButton title="إنهاء وحفظ" onPress={finishStopwatch} variant="secondary" />
             </View>
           </View>
         ) : (
           <View style={styles.buttonRow}>
+            <View style={styles.buttonHalf}>
+              <PrimaryButton
+                title={isPaused ? 'استئناف' : 'إيقاف مؤقت'}
+                onPress={isPaused ? resumeTimer : pauseTimer}
+              />
+            </View>
             <View style={styles.buttonHalf}>
               <PrimaryButton title="إعادة تعيين" onPress={resetTimer} variant="secondary" />
             </View>
           </View>
         )}
       </View>
+
+      <FocusRatingSheet
+        session={ratingSession}
+        onSubmit={submitRating}
+        onSkip={() => submitRating(DEFAULT_FOCUS_RATING, '')}
+      />
     </View>
   );
 }
@@ -372,6 +583,75 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     gap: 8,
   },
+  cycleDots: {
+    flexDirection: 'row-reverse',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 24,
+  },
+  cycleDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.border,
+  },
+  modeToggle: {
+    flexDirection: 'row-reverse',
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    padding: 4,
+    marginBottom: 20,
+  },
+  modeButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  modeButtonSelected: {
+    backgroundColor: Colors.primary,
+  },
+  modeButtonText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  modeButtonTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  lessonLabel: {
+    marginTop: 20,
+  },
+  lessonChips: {
+    flexDirection: 'row-reverse',
+    gap: 8,
+    paddingHorizontal: 4,
+  },
+  lessonChip: {
+    maxWidth: 200,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  lessonChipSelected: {
+    backgroundColor: Colors.primary + '15',
+    borderColor: Colors.primary,
+  },
+  lessonChipText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  lessonChipTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  sessionLabel: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
   subjectChip: {
     paddingVertical: 10,
     paddingHorizontal: 16,
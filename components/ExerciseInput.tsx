@@ -0,0 +1,383 @@
+import { StyleSheet, Text, View, Pressable, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { ExerciseOption } from '@/components/ExerciseOption';
+import {
+  BLANK_MARKER,
+  gradeAnswer,
+  shuffledIndices,
+  type ExerciseAnswer,
+  type ExercisePayload,
+} from '@shared/exercise';
+
+interface ExerciseInputProps {
+  payload: ExercisePayload;
+  seed: number;
+  answer: ExerciseAnswer | null;
+  onChange: (answer: ExerciseAnswer) => void;
+  showResult: boolean;
+  disabled: boolean;
+}
+
+export function ExerciseInput({ payload, seed, answer, onChange, showResult, disabled }: ExerciseInputProps) {
+  const isCorrect = showResult ? gradeAnswer(payload, answer) : null;
+  const inputBorder = isCorrect === null ? Colors.border : isCorrect ? Colors.success : Colors.danger;
+
+  switch (payload.type) {
+    case 'mcq': {
+      const chosen = answer?.type === 'mcq' ? answer.index : null;
+      return (
+        <View>
+          {payload.options.map((option, index) => (
+            <ExerciseOption
+              key={index}
+              text={option}
+              index={index}
+              selected={chosen === index}
+              correct={
+                showResult
+                  ? index === payload.correct_index
+                    ? true
+                    : index === chosen
+                    ? false
+                    : null
+                  : null
+              }
+              showResult={showResult}
+              onSelect={() => onChange({ type: 'mcq', index })}
+              disabled={disabled}
+            />
+          ))}
+        </View>
+      );
+    }
+
+    case 'true_false': {
+      const chosen = answer?.type === 'true_false' ? answer.value : null;
+      return (
+        <View>
+          {[true, false].map((value, index) => (
+            <ExerciseOption
+              key={index}
+              text={value ? 'صحيح' : 'خطأ'}
+              index={index}
+              selected={chosen === value}
+              correct={
+                showResult
+                  ? value === payload.correct
+                    ? true
+                    : value === chosen
+                    ? false
+                    : null
+                  : null
+              }
+              showResult={showResult}
+              onSelect={() => onChange({ type: 'true_false', value })}
+              disabled={disabled}
+            />
+          ))}
+        </View>
+      );
+    }
+
+    case 'multi_select': {
+      const chosen = answer?.type === 'multi_select' ? answer.indices : [];
+      const toggle = (index: number) => {
+        const indices = chosen.includes(index)
+          ? chosen.filter((i) => i !== index)
+          : [...chosen, index].sort((a, b) => a - b);
+        onChange({ type: 'multi_select', indices });
+      };
+      return (
+        <View>
+          <Text style={styles.hint}>اختر كل الإجابات الصحيحة</Text>
+          {payload.options.map((option, index) => (
+            <ExerciseOption
+              key={index}
+              text={option}
+              index={index}
+              selected={chosen.includes(index)}
+              correct={showResult ? payload.correct_indices.includes(index) : null}
+              showResult={showResult}
+              onSelect={() => toggle(index)}
+              disabled={disabled}
+            />
+          ))}
+        </View>
+      );
+    }
+
+    case 'numeric': {
+      const value = answer?.type === 'numeric' ? answer.value : '';
+      return (
+        <View style={styles.numericRow}>
+          <TextInput
+            style={[styles.input, styles.numericInput, { borderColor: inputBorder }]}
+            value={value}
+            onChangeText={(text) => onChange({ type: 'numeric', value: text })}
+            keyboardType="decimal-pad"
+            placeholder="اكتب الجواب"
+            placeholderTextColor={Colors.textLight}
+            editable={!disabled}
+          />
+          {payload.unit && <Text style={styles.unit}>{payload.unit}</Text>}
+        </View>
+      );
+    }
+
+    case 'fill_blank': {
+      const values = answer?.type === 'fill_blank'
+        ? answer.values
+        : new Array<string>(payload.blanks.length).fill('');
+      const parts = payload.text.split(BLANK_MARKER);
+      const setValue = (blank: number, text: string) => {
+        const next = [...values];
+        next[blank] = text;
+        onChange({ type: 'fill_blank', values: next });
+      };
+      return (
+        <View>
+          <Text style={styles.blankText}>
+            {parts.map((part, i) => (i < parts.length - 1 ? `${part}(${i + 1})____` : part)).join('')}
+          </Text>
+          {payload.blanks.map((_, blank) => (
+            <View key={blank} style={styles.blankRow}>
+              <Text style={styles.blankLabel}>({blank + 1})</Text>
+              <TextInput
+                style={[styles.input, styles.blankInput, { borderColor: inputBorder }]}
+                value={values[blank] ?? ''}
+                onChangeText={(text) => setValue(blank, text)}
+                placeholderTextColor={Colors.textLight}
+                editable={!disabled}
+              />
+            </View>
+          ))}
+        </View>
+      );
+    }
+
+    case 'matching': {
+      const pairs = answer?.type === 'matching'
+        ? answer.pairs
+        : new Array<number | null>(payload.left.length).fill(null);
+      const rightOrder = shuffledIndices(payload.right.length, seed);
+      const choose = (left: number, right: number) => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        const next = [...pairs];
+        next[left] = right;
+        onChange({ type: 'matching', pairs: next });
+      };
+      return (
+        <View>
+          {payload.left.map((leftItem, left) => (
+            <View key={left} style={styles.matchRow}>
+              <Text style={styles.matchLeft}>{leftItem}</Text>
+              <View style={styles.chips}>
+                {rightOrder.map((right) => {
+                  const selected = pairs[left] === right;
+                  const resultColor = showResult && right === left
+                    ? Colors.success
+                    : showResult && selected
+                    ? Colors.danger
+                    : null;
+                  return (
+                    <Pressable
+                      key={right}
+                      style={[
+                        styles.chip,
+                        selected && styles.chipSelected,
+                        resultColor !== null && { borderColor: resultColor },
+                      ]}
+                      onPress={() => choose(left, right)}
+                      disabled={disabled}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {payload.right[right]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+        </View>
+      );
+    }
+
+    case 'ordering': {
+      const order = answer?.type === 'ordering'
+        ? answer.order
+        : shuffledIndices(payload.items.length, seed);
+      const move = (position: number, offset: number) => {
+        const target = position + offset;
+        if (target < 0 || target >= order.length) return;
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        const next = [...order];
+        [next[position], next[target]] = [next[target], next[position]];
+        onChange({ type: 'ordering', order: next });
+      };
+      return (
+        <View>
+          <Text style={styles.hint}>رتّب العناصر من الأول إلى الأخير</Text>
+          {order.map((item, position) => (
+            <View
+              key={item}
+              style={[
+                styles.orderRow,
+                showResult && { borderColor: item === position ? Colors.success : Colors.danger },
+              ]}
+            >
+              <Text style={styles.orderNumber}>{position + 1}</Text>
+              <Text style={styles.orderText}>{payload.items[item]}</Text>
+              <Pressable
+                style={styles.orderButton}
+                onPress={() => move(position, -1)}
+                disabled={disabled || position === 0}
+                hitSlop={6}
+              >
+                <Ionicons
+                  name="chevron-up"
+                  size={20}
+                  color={disabled || position === 0 ? Colors.textLight : Colors.primary}
+                />
+              </Pressable>
+              <Pressable
+                style={styles.orderButton}
+                onPress={() => move(position, 1)}
+                disabled={disabled || position === order.length - 1}
+                hitSlop={6}
+              >
+                <Ionicons
+                  name="chevron-down"
+                  size={20}
+                  color={disabled || position === order.length - 1 ? Colors.textLight : Colors.primary}
+                />
+              </Pressable>
+            </View>
+          ))}
+        </View>
+      );
+    }
+  }
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'right',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 18,
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  numericRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 12,
+  },
+  numericInput: {
+    flex: 1,
+  },
+  unit: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  blankText: {
+    fontSize: 18,
+    color: Colors.text,
+    textAlign: 'right',
+    lineHeight: 30,
+    marginBottom: 16,
+  },
+  blankRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    marginBottom: 10,
+    gap: 10,
+  },
+  blankLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  blankInput: {
+    flex: 1,
+  },
+  matchRow: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  matchLeft: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    textAlign: 'right',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row-reverse',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary + '15',
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  orderRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  orderNumber: {
+    width: 28,
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.primary,
+    textAlign: 'center',
+  },
+  orderText: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text,
+    textAlign: 'right',
+    marginHorizontal: 8,
+  },
+  orderButton: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { StyleSheet, Text, View, Pressable, Modal, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import type { UnratedStudySession } from '@/db/types';
+import { PrimaryButton } from '@/components/PrimaryButton';
+
+interface FocusRatingSheetProps {
+  session: UnratedStudySession | null;
+  onSubmit: (rating: number, notes: string) => void;
+  onSkip: () => void;
+}
+
+const RATING_LABELS = ['مشتت جداً', 'مشتت', 'متوسط', 'مركز', 'مركز جداً'];
+
+export function FocusRatingSheet({ session, onSubmit, onSkip }: FocusRatingSheetProps) {
+  const [rating, setRating] = useState(0);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    setRating(0);
+    setNotes('');
+  }, [session?.id]);
+
+  return (
+    <Modal visible={!!session} animationType="slide" transparent onRequestClose={onSkip}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>كيف كان تركيزك؟</Text>
+          {session && (
+            <Text style={styles.subtitle}>
+              {session.lesson_title ?? session.subject_name} · {session.duration_minutes} د
+            </Text>
+          )}
+
+          <View style={styles.stars}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Pressable
+                key={value}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  setRating(value);
+                }}
+                hitSlop={6}
+              >
+                <Ionicons
+                  name={value <= rating ? 'star' : 'star-outline'}
+                  size={36}
+                  color={value <= rating ? Colors.secondary : Colors.textLight}
+                />
+              </Pressable>
+            ))}
+          </View>
+          <Text style={styles.ratingLabel}>
+            {rating > 0 ? RATING_LABELS[rating - 1] : 'اختر تقييماً'}
+          </Text>
+
+          <TextInput
+            style={styles.notes}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="ملاحظات (اختياري): ما الذي درسته؟ ما الذي بقي صعباً؟"
+            placeholderTextColor={Colors.textLight}
+            multiline
+            textAlignVertical="top"
+          />
+
+          <PrimaryButton
+            title="حفظ"
+            onPress={() => onSubmit(rating, notes.trim())}
+            disabled={rating === 0}
+          />
+          <Pressable style={styles.skipButton} onPress={onSkip}>
+            <Text style={styles.skipText}>تخطي</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: Colors.background,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: Colors.text,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  stars: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+    marginTop: 24,
+  },
+  ratingLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  notes: {
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 12,
+    padding: 12,
+    minHeight: 90,
+    fontSize: 15,
+    color: Colors.text,
+    textAlign: 'right',
+    marginBottom: 20,
+  },
+  skipButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  skipText: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+  },
+});
@@ -0,0 +1,41 @@
+import { StyleSheet, Text, View } from 'react-native';
+import Pdf from 'react-native-pdf';
+import Colors from '@/constants/colors';
+
+interface PdfViewerProps {
+  uri: string;
+  page?: number;
+}
+
+export function PdfViewer({ uri, page }: PdfViewerProps) {
+  return (
+    <Pdf
+      source={{ uri }}
+      page={page}
+      style={styles.pdf}
+      trustAllCerts={false}
+      enableDoubleTapZoom
+      renderActivityIndicator={() => (
+        <View style={styles.loading}>
+          <Text style={styles.loadingText}>جاري فتح الملف...</Text>
+        </View>
+      )}
+      onError={(error) => console.error('Error opening PDF:', error)}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  pdf: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  loading: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+});
@@ -0,0 +1,27 @@
+import { StyleSheet, View } from 'react-native';
+import Colors from '@/constants/colors';
+
+interface PdfViewerProps {
+  uri: string;
+  page?: number;
+}
+
+// react-native-pdf is native-only; browsers render PDFs themselves.
+export function PdfViewer({ uri, page }: PdfViewerProps) {
+  return (
+    <View style={styles.container}>
+      <iframe
+        title="pdf"
+        src={page ? `${uri}#page=${page}` : uri}
+        style={{ flex: 1, width: '100%', height: '100%', border: 'none' }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+});
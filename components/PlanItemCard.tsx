@@ -0,0 +1,148 @@
+import { StyleSheet, Text, View, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import type { PlanItemWithLesson } from '@/db/types';
+
+interface PlanItemCardProps {
+  item: PlanItemWithLesson;
+  onPress: () => void;
+  onComplete: () => void;
+  onSkip?: () => void;
+}
+
+export function PlanItemCard({ item, onPress, onComplete, onSkip }: PlanItemCardProps) {
+  const isDone = item.status === 'done';
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.container, pressed && styles.pressed]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onPress();
+      }}
+    >
+      <View style={styles.content}>
+        <Pressable
+          style={[styles.checkButton, isDone ? styles.checkDone : styles.checkPending]}
+          onPress={() => {
+            if (isDone) return;
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            onComplete();
+          }}
+          hitSlop={8}
+        >
+          {isDone && <Ionicons name="checkmark" size={16} color="#fff" />}
+        </Pressable>
+        <View style={styles.info}>
+          <Text style={[styles.title, isDone && styles.titleDone]} numberOfLines={2}>
+            {item.lesson_title}
+          </Text>
+          <View style={styles.meta}>
+            <View style={[styles.subjectDot, { backgroundColor: item.subject_color }]} />
+            <Text style={styles.metaText}>
+              {item.subject_name} · {item.minutes} د
+            </Text>
+            {item.rolled_over > 0 && !isDone && (
+              <Text style={styles.rolledText}>مؤجل</Text>
+            )}
+          </View>
+        </View>
+        {onSkip && !isDone && (
+          <Pressable
+            style={styles.skipButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onSkip();
+            }}
+            hitSlop={8}
+          >
+            <Ionicons name="play-skip-back" size={18} color={Colors.textSecondary} />
+          </Pressable>
+        )}
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.03,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  pressed: {
+    opacity: 0.9,
+    transform: [{ scale: 0.99 }],
+  },
+  content: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+  },
+  checkButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  checkDone: {
+    backgroundColor: Colors.success,
+  },
+  checkPending: {
+    backgroundColor: Colors.borderLight,
+    borderWidth: 2,
+    borderColor: Colors.border,
+  },
+  info: {
+    flex: 1,
+    alignItems: 'flex-end',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  titleDone: {
+    color: Colors.textLight,
+    textDecorationLine: 'line-through',
+  },
+  meta: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  subjectDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: 6,
+  },
+  metaText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  rolledText: {
+    fontSize: 11,
+    color: Colors.warning,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  skipButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+});
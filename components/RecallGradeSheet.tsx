@@ -0,0 +1,111 @@
+import { StyleSheet, Text, View, Pressable, Modal } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+
+interface RecallGradeSheetProps {
+  // Title of the lesson being graded; the sheet is hidden while null.
+  lessonTitle: string | null;
+  onSubmit: (quality: number) => void;
+  onCancel: () => void;
+}
+
+// SM-2 recall grades (0-5); 3 and up count as remembered.
+const GRADES: { quality: number; label: string; color: string }[] = [
+  { quality: 1, label: 'لم أفهمه', color: Colors.danger },
+  { quality: 3, label: 'صعب', color: Colors.warning },
+  { quality: 4, label: 'جيد', color: Colors.primary },
+  { quality: 5, label: 'سهل', color: Colors.success },
+];
+
+export function RecallGradeSheet({ lessonTitle, onSubmit, onCancel }: RecallGradeSheetProps) {
+  return (
+    <Modal visible={lessonTitle !== null} animationType="slide" transparent onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>كيف كان استيعابك للدرس؟</Text>
+          {lessonTitle && <Text style={styles.subtitle}>{lessonTitle}</Text>}
+
+          <View style={styles.grades}>
+            {GRADES.map((grade) => (
+              <Pressable
+                key={grade.quality}
+                style={({ pressed }) => [
+                  styles.gradeButton,
+                  { borderColor: grade.color },
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  onSubmit(grade.quality);
+                }}
+              >
+                <Text style={[styles.gradeLabel, { color: grade.color }]}>{grade.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Pressable style={styles.cancelButton} onPress={onCancel}>
+            <Text style={styles.cancelText}>إلغاء</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: Colors.background,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: Colors.text,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  grades: {
+    flexDirection: 'row-reverse',
+    gap: 8,
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  gradeButton: {
+    flex: 1,
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+  gradeLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  cancelText: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+  },
+});
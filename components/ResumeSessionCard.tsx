@@ -0,0 +1,112 @@
+import { StyleSheet, Text, View, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import type { ActiveSession, QuizCheckpoint } from '@/db/types';
+
+interface ResumeSessionCardProps {
+  session: ActiveSession;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+function describeSession(session: ActiveSession): string {
+  if (session.kind === 'mock') {
+    const remaining = session.deadline_at
+      ? Math.ceil((new Date(session.deadline_at).getTime() - Date.now()) / 60000)
+      : 0;
+    return remaining > 0 ? `متبقي ${remaining} دقيقة` : 'انتهى الوقت، اعرض نتيجتك';
+  }
+
+  const checkpoint: QuizCheckpoint = JSON.parse(session.payload_json);
+  return `أجبت على ${checkpoint.current_index} من ${checkpoint.exercise_ids.length}`;
+}
+
+export function ResumeSessionCard({ session, onResume, onDiscard }: ResumeSessionCardProps) {
+  const isMock = session.kind === 'mock';
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.container, pressed && styles.pressed]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        onResume();
+      }}
+    >
+      <View style={styles.icon}>
+        <Ionicons
+          name={isMock ? 'document-text' : 'help-circle'}
+          size={26}
+          color={Colors.accent}
+        />
+      </View>
+      <View style={styles.info}>
+        <Text style={styles.title}>
+          {isMock ? 'امتحان تجريبي غير مكتمل' : 'تمرين غير مكتمل'}
+        </Text>
+        <Text style={styles.description}>{describeSession(session)}</Text>
+      </View>
+      <Pressable
+        style={styles.discardButton}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          onDiscard();
+        }}
+        hitSlop={8}
+      >
+        <Ionicons name="trash-outline" size={18} color={Colors.textSecondary} />
+      </Pressable>
+      <Ionicons name="chevron-back" size={20} color={Colors.textLight} />
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: Colors.accent,
+  },
+  pressed: {
+    opacity: 0.9,
+    transform: [{ scale: 0.99 }],
+  },
+  icon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  info: {
+    flex: 1,
+    alignItems: 'flex-end',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  description: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  discardButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+});
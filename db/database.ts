@@ -1,5 +1,21 @@
 import * as SQLite from 'expo-sqlite';
 import { getSeedData } from './seedData';
+import { runMigrations } from './migrations';
+import { generateStudyPlan } from '@/lib/studyPlan';
+import { addDays, localDate, parseLocalDate } from '@/lib/dates';
+import {
+  advanceTimer,
+  isPhaseOver,
+  getTimerConfig,
+  finishStopwatch,
+  DEFAULT_FOCUS_RATING,
+  type CompletedWorkPhase,
+} from '@/lib/pomodoro';
+import { allocateDifficulties, type ExamBlueprint, type Difficulty } from '@/lib/examBlueprints';
+import type { ExerciseAnswer } from '@shared/exercise';
+import type { BackupData, BackupImportMode } from '@/lib/backup';
+import { toExerciseColumns, type ContentPack } from '@shared/contentPack';
+import { scheduleReview, qualityFromAccuracy, qualityFromAttempt, qualityFromFocusRating } from './srs';
 import type {
   Subject,
   Lesson,
@@ -7,12 +23,35 @@ import type {
   Exercise,
   Attempt,
   ReviewQueue,
+  ExerciseCard,
+  ReviewLog,
   Settings,
   LessonWithSubject,
   SubjectProgress,
   DailyStudyStats,
   AccuracyStats,
   WeakLesson,
+  LessonResult,
+  ReviewForecast,
+  PlanItem,
+  PlanItemWithLesson,
+  ExerciseWithSubject,
+  MockExam,
+  MockExamAnswer,
+  MockExamAnswerWithExercise,
+  ActiveSession,
+  ActiveSessionKind,
+  ActiveTimer,
+  TimerDraft,
+  UnratedStudySession,
+  DueReviewDay,
+  InstalledContentPack,
+  ContentPackDiff,
+  AnswerLang,
+  StudyDocument,
+  DocumentSummary,
+  DocumentMessage,
+  DocumentMessageRole,
 } from './types';
 
 let db: SQLite.SQLiteDatabase | null = null;
@@ -26,77 +65,7 @@ export async function getDatabase(): Promise<SQLite.SQLiteDatabase> {
 export async function initDatabase(): Promise<void> {
   const database = await getDatabase();
 
-  await database.execAsync(`
-    CREATE TABLE IF NOT EXISTS subjects (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      color TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS lessons (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      subject_id INTEGER NOT NULL,
-      title TEXT NOT NULL,
-      summary TEXT NOT NULL,
-      importance_points TEXT NOT NULL,
-      common_mistakes TEXT NOT NULL,
-      is_completed INTEGER DEFAULT 0,
-      FOREIGN KEY (subject_id) REFERENCES subjects(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS study_sessions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      subject_id INTEGER NOT NULL,
-      lesson_id INTEGER,
-      start_time TEXT NOT NULL,
-      end_time TEXT NOT NULL,
-      duration_minutes INTEGER NOT NULL,
-      focus_rating INTEGER DEFAULT 3,
-      notes TEXT DEFAULT '',
-      FOREIGN KEY (subject_id) REFERENCES subjects(id),
-      FOREIGN KEY (lesson_id) REFERENCES lessons(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS exercises (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      lesson_id INTEGER NOT NULL,
-      difficulty INTEGER DEFAULT 1,
-      question TEXT NOT NULL,
-      options_json TEXT NOT NULL,
-      correct_index INTEGER NOT NULL,
-      explanation TEXT NOT NULL,
-      FOREIGN KEY (lesson_id) REFERENCES lessons(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS attempts (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      exercise_id INTEGER NOT NULL,
-      chosen_index INTEGER NOT NULL,
-      is_correct INTEGER NOT NULL,
-      time_spent_seconds INTEGER DEFAULT 0,
-      created_at TEXT NOT NULL,
-      FOREIGN KEY (exercise_id) REFERENCES exercises(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS review_queue (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      lesson_id INTEGER NOT NULL UNIQUE,
-      next_review_date TEXT NOT NULL,
-      interval_days INTEGER DEFAULT 1,
-      ease_factor REAL DEFAULT 2.5,
-      last_result INTEGER DEFAULT 0,
-      FOREIGN KEY (lesson_id) REFERENCES lessons(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS settings (
-      id INTEGER PRIMARY KEY CHECK (id = 1),
-      exam_date TEXT,
-      daily_minutes_goal INTEGER DEFAULT 60,
-      pomodoro_work INTEGER DEFAULT 25,
-      pomodoro_break INTEGER DEFAULT 5,
-      onboarding_complete INTEGER DEFAULT 0
-    );
-  `);
+  await runMigrations(database);
 
   const settingsResult = await database.getFirstAsync<{ count: number }>(
     'SELECT COUNT(*) as count FROM settings'
@@ -108,55 +77,35 @@ export async function initDatabase(): Promise<void> {
   }
 }
 
+/**
+ * Installs the bundled content, or brings an older install up to date. The
+ * bundled content is a content pack with stable IDs, so edited titles or
+ * reordered seed data update rows in place instead of orphaning progress.
+ */
 export async function seedDatabase(): Promise<void> {
-  const database = await getDatabase();
-  const { subjects, lessons, exercises } = getSeedData();
-
-  const subjectCount = await database.getFirstAsync<{ count: number }>(
-    'SELECT COUNT(*) as count FROM subjects'
-  );
-
-  if (subjectCount && subjectCount.count > 0) return;
-
-  for (const subject of subjects) {
-    await database.runAsync(
-      'INSERT INTO subjects (name, color) VALUES (?, ?)',
-      [subject.name, subject.color]
-    );
-  }
+  const bundled = getSeedData();
+  const installed = await getContentPack(bundled.id);
+  if (installed && installed.version >= bundled.version) return;
 
-  const insertedSubjects = await database.getAllAsync<Subject>('SELECT * FROM subjects');
-  const subjectMap = new Map(insertedSubjects.map((s) => [s.name, s.id]));
-
-  for (const lesson of lessons) {
-    const subjectId = subjectMap.get(lesson.subject_name);
-    if (subjectId) {
-      await database.runAsync(
-        'INSERT INTO lessons (subject_id, title, summary, importance_points, common_mistakes) VALUES (?, ?, ?, ?, ?)',
-        [subjectId, lesson.title, lesson.summary, lesson.importance_points, lesson.common_mistakes]
-      );
-    }
-  }
-
-  const insertedLessons = await database.getAllAsync<Lesson>('SELECT * FROM lessons');
-  const lessonMap = new Map(insertedLessons.map((l) => [l.title, l.id]));
-
-  for (const exercise of exercises) {
-    const lessonId = lessonMap.get(exercise.lesson_title);
-    if (lessonId) {
-      await database.runAsync(
-        'INSERT INTO exercises (lesson_id, difficulty, question, options_json, correct_index, explanation) VALUES (?, ?, ?, ?, ?, ?)',
-        [lessonId, exercise.difficulty, exercise.question, JSON.stringify(exercise.options), exercise.correct_index, exercise.explanation]
-      );
-    }
-  }
+  await installContentPack(bundled);
 }
 
 export async function resetDatabase(): Promise<void> {
   const database = await getDatabase();
   await database.execAsync(`
+    DELETE FROM document_messages;
+    DELETE FROM documents;
+    DELETE FROM content_packs;
+    DELETE FROM daily_cycles;
+    DELETE FROM timer_state;
+    DELETE FROM active_sessions;
     DELETE FROM attempts;
+    DELETE FROM exercise_cards;
+    DELETE FROM mock_exam_answers;
+    DELETE FROM mock_exams;
     DELETE FROM study_sessions;
+    DELETE FROM plan_items;
+    DELETE FROM review_log;
     DELETE FROM review_queue;
     DELETE FROM exercises;
     DELETE FROM lessons;
@@ -193,6 +142,46 @@ export async function updateSettings(settings: Partial<Settings>): Promise<void>
     fields.push('pomodoro_break = ?');
     values.push(settings.pomodoro_break);
   }
+  if (settings.pomodoro_long_break !== undefined) {
+    fields.push('pomodoro_long_break = ?');
+    values.push(settings.pomodoro_long_break);
+  }
+  if (settings.pomodoro_cycles !== undefined) {
+    fields.push('pomodoro_cycles = ?');
+    values.push(settings.pomodoro_cycles);
+  }
+  if (settings.auto_start_breaks !== undefined) {
+    fields.push('auto_start_breaks = ?');
+    values.push(settings.auto_start_breaks);
+  }
+  if (settings.auto_start_work !== undefined) {
+    fields.push('auto_start_work = ?');
+    values.push(settings.auto_start_work);
+  }
+  if (settings.notifications_enabled !== undefined) {
+    fields.push('notifications_enabled = ?');
+    values.push(settings.notifications_enabled);
+  }
+  if (settings.reminder_times_json !== undefined) {
+    fields.push('reminder_times_json = ?');
+    values.push(settings.reminder_times_json);
+  }
+  if (settings.goal_nudge_enabled !== undefined) {
+    fields.push('goal_nudge_enabled = ?');
+    values.push(settings.goal_nudge_enabled);
+  }
+  if (settings.goal_nudge_time !== undefined) {
+    fields.push('goal_nudge_time = ?');
+    values.push(settings.goal_nudge_time);
+  }
+  if (settings.review_alerts_enabled !== undefined) {
+    fields.push('review_alerts_enabled = ?');
+    values.push(settings.review_alerts_enabled);
+  }
+  if (settings.exam_countdown_enabled !== undefined) {
+    fields.push('exam_countdown_enabled = ?');
+    values.push(settings.exam_countdown_enabled);
+  }
   if (settings.onboarding_complete !== undefined) {
     fields.push('onboarding_complete = ?');
     values.push(settings.onboarding_complete);
@@ -227,24 +216,11 @@ export async function getLesson(lessonId: number): Promise<LessonWithSubject | n
   );
 }
 
-export async function markLessonComplete(lessonId: number): Promise<void> {
+/** `quality` is the student's 0–5 recall grade, which schedules the first review. */
+export async function markLessonComplete(lessonId: number, quality: number): Promise<void> {
   const database = await getDatabase();
   await database.runAsync('UPDATE lessons SET is_completed = 1 WHERE id = ?', [lessonId]);
-
-  const today = new Date().toISOString().split('T')[0];
-  const existing = await database.getFirstAsync<ReviewQueue>(
-    'SELECT * FROM review_queue WHERE lesson_id = ?',
-    [lessonId]
-  );
-
-  if (existing) {
-    await updateReviewQueue(lessonId, 1);
-  } else {
-    await database.runAsync(
-      'INSERT INTO review_queue (lesson_id, next_review_date, interval_days, ease_factor, last_result) VALUES (?, ?, 1, 2.5, 1)',
-      [lessonId, today]
-    );
-  }
+  await updateReviewQueue(lessonId, quality);
 }
 
 export async function getExercises(lessonId?: number, difficulty?: number): Promise<Exercise[]> {
@@ -288,17 +264,136 @@ export async function getRandomExercises(count: number, subjectId?: number): Pro
   return database.getAllAsync<Exercise>(query, params);
 }
 
+export async function getBlueprintExercises(blueprint: ExamBlueprint): Promise<ExerciseWithSubject[]> {
+  const database = await getDatabase();
+  const selected: ExerciseWithSubject[] = [];
+
+  for (const subject of blueprint.subjects) {
+    const row = await database.getFirstAsync<Subject>('SELECT * FROM subjects WHERE name = ?', [
+      subject.subject_name,
+    ]);
+    if (!row) continue;
+
+    const picked: ExerciseWithSubject[] = [];
+    const counts = allocateDifficulties(subject.questions, blueprint.difficulty_mix);
+    for (const difficulty of [1, 2, 3] as Difficulty[]) {
+      if (counts[difficulty] === 0) continue;
+      const rows = await database.getAllAsync<ExerciseWithSubject>(`
+        SELECT e.*, l.subject_id as subject_id, ? as subject_name
+        FROM exercises e
+        JOIN lessons l ON e.lesson_id = l.id
+        WHERE l.subject_id = ? AND e.difficulty = ?
+        ORDER BY RANDOM() LIMIT ?
+      `, [row.name, row.id, difficulty, counts[difficulty]]);
+      picked.push(...rows);
+    }
+
+    // Small question banks may not cover the mix; top up from any difficulty.
+    const shortfall = subject.questions - picked.length;
+    if (shortfall > 0) {
+      const excluded = picked.map((e) => e.id);
+      const placeholders = excluded.map(() => '?').join(', ');
+      const rows = await database.getAllAsync<ExerciseWithSubject>(`
+        SELECT e.*, l.subject_id as subject_id, ? as subject_name
+        FROM exercises e
+        JOIN lessons l ON e.lesson_id = l.id
+        WHERE l.subject_id = ?${excluded.length > 0 ? ` AND e.id NOT IN (${placeholders})` : ''}
+        ORDER BY RANDOM() LIMIT ?
+      `, [row.name, row.id, ...excluded, shortfall]);
+      picked.push(...rows);
+    }
+
+    selected.push(...picked.sort((a, b) => a.difficulty - b.difficulty));
+  }
+
+  return selected;
+}
+
+export async function getExercisesByIds(ids: number[]): Promise<ExerciseWithSubject[]> {
+  if (ids.length === 0) return [];
+  const database = await getDatabase();
+  const placeholders = ids.map(() => '?').join(', ');
+  const rows = await database.getAllAsync<ExerciseWithSubject>(`
+    SELECT e.*, l.subject_id as subject_id, s.name as subject_name
+    FROM exercises e
+    JOIN lessons l ON e.lesson_id = l.id
+    JOIN subjects s ON l.subject_id = s.id
+    WHERE e.id IN (${placeholders})
+  `, ids);
+
+  // Keep the caller's order; exercises deleted since are dropped.
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return ids.map((id) => byId.get(id)).filter((row): row is ExerciseWithSubject => !!row);
+}
+
 export async function saveAttempt(
   exerciseId: number,
-  chosenIndex: number,
+  answer: ExerciseAnswer,
   isCorrect: boolean,
   timeSpent: number
 ): Promise<void> {
   const database = await getDatabase();
+  const createdAt = new Date().toISOString();
+  // chosen_index is NOT NULL from the original schema; answers that are not a
+  // single option are stored as -1 and only live in answer_json.
+  const chosenIndex = answer.type === 'mcq' ? answer.index : -1;
   await database.runAsync(
-    'INSERT INTO attempts (exercise_id, chosen_index, is_correct, time_spent_seconds, created_at) VALUES (?, ?, ?, ?, ?)',
-    [exerciseId, chosenIndex, isCorrect ? 1 : 0, timeSpent, new Date().toISOString()]
+    'INSERT INTO attempts (exercise_id, chosen_index, is_correct, time_spent_seconds, created_at, answer_json) VALUES (?, ?, ?, ?, ?, ?)',
+    [exerciseId, chosenIndex, isCorrect ? 1 : 0, timeSpent, createdAt, JSON.stringify(answer)]
+  );
+
+  const card = await database.getFirstAsync<ExerciseCard>(
+    'SELECT * FROM exercise_cards WHERE exercise_id = ?',
+    [exerciseId]
   );
+
+  // Cards are only created from mistakes; questions answered right the first
+  // time never enter the review rotation.
+  if (!card && isCorrect) return;
+
+  const quality = qualityFromAttempt(isCorrect);
+  const next = scheduleReview(card, quality);
+
+  if (card) {
+    await database.runAsync(
+      'UPDATE exercise_cards SET next_review_date = ?, interval_days = ?, ease_factor = ?, repetitions = ?, last_quality = ? WHERE exercise_id = ?',
+      [next.next_review_date, next.interval_days, next.ease_factor, next.repetitions, quality, exerciseId]
+    );
+  } else {
+    await database.runAsync(
+      'INSERT INTO exercise_cards (exercise_id, next_review_date, interval_days, ease_factor, repetitions, last_quality, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [exerciseId, next.next_review_date, next.interval_days, next.ease_factor, next.repetitions, quality, createdAt]
+    );
+  }
+}
+
+export async function getDueExercises(limit?: number): Promise<Exercise[]> {
+  const database = await getDatabase();
+  const today = localDate();
+  let query = `
+    SELECT e.* FROM exercises e
+    JOIN exercise_cards c ON e.id = c.exercise_id
+    WHERE DATE(c.next_review_date) <= DATE(?)
+    ORDER BY c.next_review_date ASC, c.ease_factor ASC
+  `;
+  const params: (string | number)[] = [today];
+
+  if (limit) {
+    query += ' LIMIT ?';
+    params.push(limit);
+  }
+
+  return database.getAllAsync<Exercise>(query, params);
+}
+
+export async function getDueExerciseCount(): Promise<number> {
+  const database = await getDatabase();
+  const today = localDate();
+  const result = await database.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) as count FROM exercise_cards WHERE DATE(next_review_date) <= DATE(?)',
+    [today]
+  );
+  return result?.count || 0;
 }
 
 export async function saveStudySession(
@@ -317,47 +412,91 @@ export async function saveStudySession(
   );
 
   if (lessonId) {
-    await updateReviewQueue(lessonId, focusRating >= 3 ? 1 : 0);
+    await updateReviewQueue(lessonId, qualityFromFocusRating(focusRating));
   }
 }
 
-export async function updateReviewQueue(lessonId: number, success: number): Promise<void> {
+/**
+ * Timer sessions are saved the moment the work phase ends and rated
+ * afterwards; the review queue is only touched once the rating is in.
+ */
+export async function recordTimerWorkPhase(work: CompletedWorkPhase): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    'INSERT INTO study_sessions (subject_id, lesson_id, start_time, end_time, duration_minutes, focus_rating, notes, is_rated) VALUES (?, ?, ?, ?, ?, ?, ?, 0)',
+    [work.subject_id, work.lesson_id, work.started_at, work.ended_at, work.minutes, DEFAULT_FOCUS_RATING, '']
+  );
+}
+
+export async function getUnratedStudySession(): Promise<UnratedStudySession | null> {
+  const database = await getDatabase();
+  return database.getFirstAsync<UnratedStudySession>(`
+    SELECT ss.*, s.name as subject_name, l.title as lesson_title
+    FROM study_sessions ss
+    JOIN subjects s ON ss.subject_id = s.id
+    LEFT JOIN lessons l ON ss.lesson_id = l.id
+    WHERE ss.is_rated = 0
+    ORDER BY ss.end_time DESC
+    LIMIT 1
+  `);
+}
+
+export async function rateStudySession(sessionId: number, focusRating: number, notes: string): Promise<void> {
+  const database = await getDatabase();
+  const session = await database.getFirstAsync<StudySession>(
+    'SELECT * FROM study_sessions WHERE id = ?',
+    [sessionId]
+  );
+  if (!session || session.is_rated === 1) return;
+
+  await database.runAsync(
+    'UPDATE study_sessions SET focus_rating = ?, notes = ?, is_rated = 1 WHERE id = ?',
+    [focusRating, notes, sessionId]
+  );
+  if (session.lesson_id) {
+    await updateReviewQueue(session.lesson_id, qualityFromFocusRating(focusRating));
+  }
+}
+
+export async function updateReviewQueue(lessonId: number, quality: number): Promise<void> {
   const database = await getDatabase();
   const existing = await database.getFirstAsync<ReviewQueue>(
     'SELECT * FROM review_queue WHERE lesson_id = ?',
     [lessonId]
   );
 
-  const today = new Date();
+  const next = scheduleReview(existing, quality);
 
   if (existing) {
-    let newInterval = existing.interval_days;
-    let newEase = existing.ease_factor;
-
-    if (success) {
-      newInterval = Math.round(existing.interval_days * existing.ease_factor);
-      newEase = Math.min(2.5, existing.ease_factor + 0.1);
-    } else {
-      newInterval = 1;
-      newEase = Math.max(1.3, existing.ease_factor - 0.2);
-    }
-
-    const nextDate = new Date(today);
-    nextDate.setDate(nextDate.getDate() + newInterval);
-
     await database.runAsync(
-      'UPDATE review_queue SET next_review_date = ?, interval_days = ?, ease_factor = ?, last_result = ? WHERE lesson_id = ?',
-      [nextDate.toISOString().split('T')[0], newInterval, newEase, success, lessonId]
+      'UPDATE review_queue SET next_review_date = ?, interval_days = ?, ease_factor = ?, repetitions = ?, last_result = ? WHERE lesson_id = ?',
+      [next.next_review_date, next.interval_days, next.ease_factor, next.repetitions, quality, lessonId]
     );
   } else {
-    const nextDate = new Date(today);
-    nextDate.setDate(nextDate.getDate() + 1);
-
     await database.runAsync(
-      'INSERT INTO review_queue (lesson_id, next_review_date, interval_days, ease_factor, last_result) VALUES (?, ?, 1, 2.5, ?)',
-      [lessonId, nextDate.toISOString().split('T')[0], success]
+      'INSERT INTO review_queue (lesson_id, next_review_date, interval_days, ease_factor, repetitions, last_result) VALUES (?, ?, ?, ?, ?, ?)',
+      [lessonId, next.next_review_date, next.interval_days, next.ease_factor, next.repetitions, quality]
     );
   }
+
+  await database.runAsync(
+    'INSERT INTO review_log (lesson_id, quality, interval_days, ease_factor, reviewed_at) VALUES (?, ?, ?, ?, ?)',
+    [lessonId, quality, next.interval_days, next.ease_factor, new Date().toISOString()]
+  );
+}
+
+export async function recordLessonResults(results: LessonResult[]): Promise<void> {
+  const byLesson = new Map<number, { correct: number; total: number }>();
+  for (const result of results) {
+    const entry = byLesson.get(result.lesson_id) ?? { correct: 0, total: 0 };
+    entry.total += 1;
+    if (result.is_correct) entry.correct += 1;
+    byLesson.set(result.lesson_id, entry);
+  }
+
+  for (const [lessonId, { correct, total }] of byLesson) {
+    await updateReviewQueue(lessonId, qualityFromAccuracy((correct / total) * 100));
+  }
 }
 
 export async function getSubjectProgress(): Promise<SubjectProgress[]> {
@@ -381,28 +520,26 @@ export async function getSubjectProgress(): Promise<SubjectProgress[]> {
 
 export async function getDailyStudyStats(days: number = 7): Promise<DailyStudyStats[]> {
   const database = await getDatabase();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
+  const startDate = localDate(addDays(new Date(), -days));
 
   return database.getAllAsync<DailyStudyStats>(`
     SELECT 
-      DATE(start_time) as date,
+      DATE(start_time, 'localtime') as date,
       SUM(duration_minutes) as total_minutes
     FROM study_sessions
-    WHERE DATE(start_time) >= DATE(?)
-    GROUP BY DATE(start_time)
+    WHERE DATE(start_time, 'localtime') >= DATE(?)
+    GROUP BY DATE(start_time, 'localtime')
     ORDER BY date ASC
-  `, [startDate.toISOString()]);
+  `, [startDate]);
 }
 
 export async function getAccuracyStats(days: number = 7): Promise<AccuracyStats[]> {
   const database = await getDatabase();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
+  const startDate = localDate(addDays(new Date(), -days));
 
   return database.getAllAsync<AccuracyStats>(`
     SELECT 
-      DATE(created_at) as date,
+      DATE(created_at, 'localtime') as date,
       SUM(CASE WHEN is_correct = 1 THEN 1 ELSE 0 END) as correct,
       SUM(CASE WHEN is_correct = 0 THEN 1 ELSE 0 END) as wrong,
       CASE 
@@ -410,17 +547,17 @@ export async function getAccuracyStats(days: number = 7): Promise<AccuracyStats[
         ELSE ROUND(SUM(CASE WHEN is_correct = 1 THEN 1 ELSE 0 END) * 100.0 / COUNT(*))
       END as accuracy
     FROM attempts
-    WHERE DATE(created_at) >= DATE(?)
-    GROUP BY DATE(created_at)
+    WHERE DATE(created_at, 'localtime') >= DATE(?)
+    GROUP BY DATE(created_at, 'localtime')
     ORDER BY date ASC
-  `, [startDate.toISOString()]);
+  `, [startDate]);
 }
 
 export async function getTodayStudyMinutes(): Promise<number> {
   const database = await getDatabase();
-  const today = new Date().toISOString().split('T')[0];
+  const today = localDate();
   const result = await database.getFirstAsync<{ total: number }>(
-    'SELECT COALESCE(SUM(duration_minutes), 0) as total FROM study_sessions WHERE DATE(start_time) = DATE(?)',
+    `SELECT COALESCE(SUM(duration_minutes), 0) as total FROM study_sessions WHERE DATE(start_time, 'localtime') = DATE(?)`,
     [today]
   );
   return result?.total || 0;
@@ -428,7 +565,7 @@ export async function getTodayStudyMinutes(): Promise<number> {
 
 export async function getRecommendedLessons(count: number = 3): Promise<WeakLesson[]> {
   const database = await getDatabase();
-  const today = new Date().toISOString().split('T')[0];
+  const today = localDate();
 
   return database.getAllAsync<WeakLesson>(`
     SELECT 
@@ -468,9 +605,23 @@ export async function getRecommendedLessons(count: number = 3): Promise<WeakLess
   `, [today, today, count]);
 }
 
+/** Lessons coming due for review on each of the next `days` days; overdue ones count toward today. */
+export async function getDueReviewDays(days: number): Promise<DueReviewDay[]> {
+  const database = await getDatabase();
+  const today = localDate();
+  return database.getAllAsync<DueReviewDay>(
+    `SELECT MAX(DATE(next_review_date), DATE(?)) as date, COUNT(*) as count
+     FROM review_queue
+     WHERE DATE(next_review_date) < DATE(?, '+' || ? || ' days')
+     GROUP BY 1
+     ORDER BY 1`,
+    [today, today, days]
+  );
+}
+
 export async function getLessonsForReview(): Promise<LessonWithSubject[]> {
   const database = await getDatabase();
-  const today = new Date().toISOString().split('T')[0];
+  const today = localDate();
 
   return database.getAllAsync<LessonWithSubject>(`
     SELECT l.*, s.name as subject_name, s.color as subject_color
@@ -488,3 +639,785 @@ export async function getAllStudySessions(): Promise<StudySession[]> {
     'SELECT * FROM study_sessions ORDER BY start_time DESC'
   );
 }
+
+export async function getReviewForecast(date: string): Promise<ReviewForecast> {
+  const database = await getDatabase();
+  const lessons = await database.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) as count FROM review_queue WHERE DATE(next_review_date) <= DATE(?)',
+    [date]
+  );
+  const exercises = await database.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) as count FROM exercise_cards WHERE DATE(next_review_date) <= DATE(?)',
+    [date]
+  );
+  return {
+    lessons: lessons?.count || 0,
+    exercises: exercises?.count || 0,
+  };
+}
+
+export async function regenerateStudyPlan(): Promise<number> {
+  const database = await getDatabase();
+  const settings = await getSettings();
+  const lessons = await getLessons();
+  const priorities = await getRecommendedLessons(lessons.length);
+  const priorityMap = new Map(priorities.map((p) => [p.lesson_id, p.priority_score]));
+  const reviews = await database.getAllAsync<{ lesson_id: number; next_review_date: string }>(
+    'SELECT lesson_id, next_review_date FROM review_queue'
+  );
+
+  const plan = generateStudyPlan({
+    today: new Date(),
+    examDate: settings?.exam_date || null,
+    dailyMinutes: settings?.daily_minutes_goal || 60,
+    lessons: lessons.map((l) => ({
+      lesson_id: l.id,
+      is_completed: l.is_completed === 1,
+      priority_score: priorityMap.get(l.id) ?? 0,
+    })),
+    reviews,
+  });
+
+  const createdAt = new Date().toISOString();
+  await database.withTransactionAsync(async () => {
+    await database.runAsync("DELETE FROM plan_items WHERE status = 'pending'");
+    for (const item of plan.items) {
+      await database.runAsync(
+        'INSERT INTO plan_items (plan_date, lesson_id, kind, minutes, position, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+        [item.plan_date, item.lesson_id, item.kind, item.minutes, item.position, createdAt]
+      );
+    }
+  });
+
+  return plan.unscheduled;
+}
+
+export async function rollForwardPlanItems(): Promise<void> {
+  const database = await getDatabase();
+  const today = localDate();
+  await database.runAsync(
+    "UPDATE plan_items SET plan_date = ?, rolled_over = rolled_over + 1 WHERE status = 'pending' AND DATE(plan_date) < DATE(?)",
+    [today, today]
+  );
+}
+
+export async function getPendingPlanItemCount(): Promise<number> {
+  const database = await getDatabase();
+  const result = await database.getFirstAsync<{ count: number }>(
+    "SELECT COUNT(*) as count FROM plan_items WHERE status = 'pending'"
+  );
+  return result?.count || 0;
+}
+
+export async function getPlanItems(fromDate: string): Promise<PlanItemWithLesson[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<PlanItemWithLesson>(`
+    SELECT p.*, l.title as lesson_title, s.name as subject_name, s.color as subject_color
+    FROM plan_items p
+    JOIN lessons l ON p.lesson_id = l.id
+    JOIN subjects s ON l.subject_id = s.id
+    WHERE DATE(p.plan_date) >= DATE(?)
+    ORDER BY p.plan_date ASC, p.position ASC
+  `, [fromDate]);
+}
+
+/**
+ * Marks a plan item done. `quality` is the student's recall grade for its
+ * lesson: it completes a new lesson, and counts as a review otherwise.
+ */
+export async function completePlanItem(itemId: number, quality: number): Promise<void> {
+  const database = await getDatabase();
+  const item = await database.getFirstAsync<PlanItem>('SELECT * FROM plan_items WHERE id = ?', [itemId]);
+  if (!item || item.status === 'done') return;
+
+  await database.runAsync("UPDATE plan_items SET status = 'done' WHERE id = ?", [itemId]);
+  if (item.kind === 'lesson') {
+    await markLessonComplete(item.lesson_id, quality);
+  } else {
+    await updateReviewQueue(item.lesson_id, quality);
+  }
+}
+
+export async function skipPlanItem(itemId: number): Promise<void> {
+  const database = await getDatabase();
+  const item = await database.getFirstAsync<PlanItem>('SELECT * FROM plan_items WHERE id = ?', [itemId]);
+  if (!item || item.status === 'done') return;
+
+  const nextDay = localDate(addDays(parseLocalDate(item.plan_date), 1));
+  const last = await database.getFirstAsync<{ position: number | null }>(
+    'SELECT MAX(position) as position FROM plan_items WHERE plan_date = ?',
+    [nextDay]
+  );
+
+  await database.runAsync(
+    'UPDATE plan_items SET plan_date = ?, position = ?, rolled_over = rolled_over + 1 WHERE id = ?',
+    [nextDay, (last?.position ?? -1) + 1, itemId]
+  );
+}
+
+export async function saveMockExam(
+  exam: Omit<MockExam, 'id'>,
+  answers: Omit<MockExamAnswer, 'id' | 'mock_exam_id'>[]
+): Promise<number> {
+  const database = await getDatabase();
+  let examId = 0;
+
+  await database.withTransactionAsync(async () => {
+    const result = await database.runAsync(
+      'INSERT INTO mock_exams (blueprint_id, started_at, finished_at, duration_seconds, overall_grade, correct, total, subject_scores_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        exam.blueprint_id,
+        exam.started_at,
+        exam.finished_at,
+        exam.duration_seconds,
+        exam.overall_grade,
+        exam.correct,
+        exam.total,
+        exam.subject_scores_json,
+      ]
+    );
+    examId = result.lastInsertRowId;
+
+    for (const answer of answers) {
+      await database.runAsync(
+        'INSERT INTO mock_exam_answers (mock_exam_id, exercise_id, position, chosen_index, is_correct, time_spent_seconds, answer_json) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [
+          examId,
+          answer.exercise_id,
+          answer.position,
+          answer.chosen_index,
+          answer.is_correct,
+          answer.time_spent_seconds,
+          answer.answer_json,
+        ]
+      );
+    }
+  });
+
+  return examId;
+}
+
+export async function getMockExams(): Promise<MockExam[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<MockExam>('SELECT * FROM mock_exams ORDER BY finished_at DESC');
+}
+
+export async function getMockExam(examId: number): Promise<MockExam | null> {
+  const database = await getDatabase();
+  return database.getFirstAsync<MockExam>('SELECT * FROM mock_exams WHERE id = ?', [examId]);
+}
+
+export async function getMockExamAnswers(examId: number): Promise<MockExamAnswerWithExercise[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<MockExamAnswerWithExercise>(`
+    SELECT e.*, l.subject_id as subject_id, s.name as subject_name,
+           a.position, a.chosen_index, a.answer_json, a.time_spent_seconds
+    FROM mock_exam_answers a
+    JOIN exercises e ON a.exercise_id = e.id
+    JOIN lessons l ON e.lesson_id = l.id
+    JOIN subjects s ON l.subject_id = s.id
+    WHERE a.mock_exam_id = ?
+    ORDER BY a.position ASC
+  `, [examId]);
+}
+
+export async function saveActiveSession(
+  kind: ActiveSessionKind,
+  payload: object,
+  startedAt: string,
+  deadlineAt: string | null = null
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    `INSERT INTO active_sessions (kind, payload_json, started_at, deadline_at, updated_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(kind) DO UPDATE SET
+       payload_json = excluded.payload_json,
+       started_at = excluded.started_at,
+       deadline_at = excluded.deadline_at,
+       updated_at = excluded.updated_at`,
+    [kind, JSON.stringify(payload), startedAt, deadlineAt, new Date().toISOString()]
+  );
+}
+
+export async function getActiveSession(kind: ActiveSessionKind): Promise<ActiveSession | null> {
+  const database = await getDatabase();
+  return database.getFirstAsync<ActiveSession>('SELECT * FROM active_sessions WHERE kind = ?', [kind]);
+}
+
+export async function getActiveSessions(): Promise<ActiveSession[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<ActiveSession>('SELECT * FROM active_sessions ORDER BY updated_at DESC');
+}
+
+export async function clearActiveSession(kind: ActiveSessionKind): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync('DELETE FROM active_sessions WHERE kind = ?', [kind]);
+}
+
+export async function getActiveTimer(): Promise<ActiveTimer | null> {
+  const database = await getDatabase();
+  return database.getFirstAsync<ActiveTimer>('SELECT * FROM timer_state WHERE id = 1');
+}
+
+export async function saveActiveTimer(timer: TimerDraft): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    `INSERT OR REPLACE INTO timer_state (id, phase, subject_id, lesson_id, phase_minutes, phase_started_at, phase_ends_at, paused_remaining_seconds, completed_sessions, updated_at)
+     VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      timer.phase,
+      timer.subject_id,
+      timer.lesson_id,
+      timer.phase_minutes,
+      timer.phase_started_at,
+      timer.phase_ends_at,
+      timer.paused_remaining_seconds,
+      timer.completed_sessions,
+      new Date().toISOString(),
+    ]
+  );
+}
+
+export async function clearActiveTimer(): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync('DELETE FROM timer_state WHERE id = 1');
+}
+
+let pendingSettle: Promise<ActiveTimer | null> | null = null;
+
+/**
+ * Catches the persisted timer up with the wall clock, saving every work phase
+ * that ended since it was last looked at. Concurrent callers share one run so
+ * a finished phase is never saved twice. `onScreen` lets a finished break
+ * start the next work phase when auto-start is enabled.
+ */
+export function settleActiveTimer(onScreen: boolean = false): Promise<ActiveTimer | null> {
+  if (!pendingSettle) {
+    pendingSettle = runTimerSettle(onScreen).finally(() => {
+      pendingSettle = null;
+    });
+  }
+  return pendingSettle;
+}
+
+async function runTimerSettle(onScreen: boolean): Promise<ActiveTimer | null> {
+  let timer: TimerDraft | null = await getActiveTimer();
+  if (!timer || !isPhaseOver(timer)) return getActiveTimer();
+
+  const config = getTimerConfig(await getSettings());
+
+  while (timer && isPhaseOver(timer)) {
+    const transition = advanceTimer(timer, config, onScreen);
+    if (transition.completedWork) {
+      await recordTimerWorkPhase(transition.completedWork);
+      await incrementDailyCycles(transition.completedWork.ended_at);
+    }
+    timer = transition.timer;
+  }
+
+  if (timer) {
+    await saveActiveTimer(timer);
+  } else {
+    await clearActiveTimer();
+  }
+  return getActiveTimer();
+}
+
+/** Saves the time counted by a running stopwatch and clears it. */
+export async function stopStopwatch(): Promise<void> {
+  const timer = await getActiveTimer();
+  if (!timer) return;
+  const work = finishStopwatch(timer);
+  if (work) {
+    await recordTimerWorkPhase(work);
+  }
+  await clearActiveTimer();
+}
+
+async function incrementDailyCycles(endedAt: string): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    `INSERT INTO daily_cycles (date, cycles) VALUES (?, 1)
+     ON CONFLICT(date) DO UPDATE SET cycles = cycles + 1`,
+    [localDate(new Date(endedAt))]
+  );
+}
+
+export async function getTodayCycles(): Promise<number> {
+  const database = await getDatabase();
+  const today = localDate();
+  const result = await database.getFirstAsync<{ cycles: number }>(
+    'SELECT cycles FROM daily_cycles WHERE date = ?',
+    [today]
+  );
+  return result?.cycles ?? 0;
+}
+
+export async function exportBackupData(): Promise<BackupData> {
+  const database = await getDatabase();
+  const settings = await getSettings();
+  if (!settings) throw new Error('Settings row is missing');
+  const { id: _id, onboarding_complete: _onboarding, ...exportedSettings } = settings;
+
+  const completed = await database.getAllAsync<{ id: number; content_id: string | null }>(
+    'SELECT id, content_id FROM lessons WHERE is_completed = 1 ORDER BY id'
+  );
+  const sessions = await database.getAllAsync<StudySession & { subject_content_id: string | null; lesson_content_id: string | null }>(`
+    SELECT ss.*, s.content_id as subject_content_id, l.content_id as lesson_content_id
+    FROM study_sessions ss
+    LEFT JOIN subjects s ON ss.subject_id = s.id
+    LEFT JOIN lessons l ON ss.lesson_id = l.id
+    ORDER BY ss.start_time
+  `);
+  const attempts = await database.getAllAsync<Attempt & { exercise_content_id: string | null }>(`
+    SELECT a.*, e.content_id as exercise_content_id
+    FROM attempts a
+    LEFT JOIN exercises e ON a.exercise_id = e.id
+    ORDER BY a.created_at
+  `);
+  const reviews = await database.getAllAsync<ReviewQueue & { lesson_content_id: string | null }>(`
+    SELECT rq.*, l.content_id as lesson_content_id
+    FROM review_queue rq
+    LEFT JOIN lessons l ON rq.lesson_id = l.id
+    ORDER BY rq.lesson_id
+  `);
+  const cards = await database.getAllAsync<ExerciseCard & { exercise_content_id: string | null }>(`
+    SELECT ec.*, e.content_id as exercise_content_id
+    FROM exercise_cards ec
+    LEFT JOIN exercises e ON ec.exercise_id = e.id
+    ORDER BY ec.exercise_id
+  `);
+  const reviewLog = await database.getAllAsync<ReviewLog & { lesson_content_id: string | null }>(`
+    SELECT rl.*, l.content_id as lesson_content_id
+    FROM review_log rl
+    LEFT JOIN lessons l ON rl.lesson_id = l.id
+    ORDER BY rl.reviewed_at
+  `);
+  const mockExams = await database.getAllAsync<MockExam>('SELECT * FROM mock_exams ORDER BY started_at');
+  const mockAnswers = await database.getAllAsync<MockExamAnswer & { exercise_content_id: string | null }>(`
+    SELECT ma.*, e.content_id as exercise_content_id
+    FROM mock_exam_answers ma
+    LEFT JOIN exercises e ON ma.exercise_id = e.id
+    ORDER BY ma.mock_exam_id, ma.position
+  `);
+  const planItems = await database.getAllAsync<PlanItem & { lesson_content_id: string | null }>(`
+    SELECT pi.*, l.content_id as lesson_content_id
+    FROM plan_items pi
+    LEFT JOIN lessons l ON pi.lesson_id = l.id
+    WHERE pi.status = 'done'
+    ORDER BY pi.plan_date, pi.position
+  `);
+
+  return {
+    settings: exportedSettings,
+    completed_lessons: completed,
+    study_sessions: sessions.map(({ id: _sessionId, ...session }) => session),
+    attempts: attempts.map(({ id: _attemptId, ...attempt }) => attempt),
+    review_queue: reviews.map(({ id: _reviewId, ...review }) => review),
+    exercise_cards: cards.map(({ id: _cardId, ...card }) => card),
+    review_log: reviewLog.map(({ id: _logId, ...entry }) => entry),
+    mock_exams: mockExams.map(({ id: examId, ...exam }) => ({
+      ...exam,
+      answers: mockAnswers
+        .filter((answer) => answer.mock_exam_id === examId)
+        .map(({ id: _answerId, mock_exam_id: _examId, ...answer }) => answer),
+    })),
+    plan_items: planItems.map(({ id: _itemId, status: _status, ...item }) => item),
+  };
+}
+
+/** Maps a backup row's reference to a local ID, preferring the stable content ID. */
+async function buildIdResolver(table: 'subjects' | 'lessons' | 'exercises') {
+  const database = await getDatabase();
+  const rows = await database.getAllAsync<{ id: number; content_id: string | null }>(
+    `SELECT id, content_id FROM ${table}`
+  );
+  const byContentId = new Map(rows.filter((r) => r.content_id).map((r) => [r.content_id, r.id]));
+  const ids = new Set(rows.map((r) => r.id));
+  return (id: number | null, contentId: string | null): number | null => {
+    if (contentId) return byContentId.get(contentId) ?? null;
+    return id !== null && ids.has(id) ? id : null;
+  };
+}
+
+/**
+ * Restores a backup. `replace` wipes local progress first and takes the
+ * backup's settings; `merge` keeps local settings, adds history the device
+ * does not have yet and keeps whichever review schedule is further along.
+ * Rows pointing at content this device does not have are dropped, and the
+ * pending part of the study plan is regenerated from the result.
+ */
+export async function importBackupData(backup: BackupData, mode: BackupImportMode): Promise<void> {
+  const database = await getDatabase();
+  const resolveSubject = await buildIdResolver('subjects');
+  const resolveLesson = await buildIdResolver('lessons');
+  const resolveExercise = await buildIdResolver('exercises');
+
+  await database.withTransactionAsync(async () => {
+    if (mode === 'replace') {
+      await database.execAsync(`
+        DELETE FROM study_sessions;
+        DELETE FROM attempts;
+        DELETE FROM review_queue;
+        DELETE FROM exercise_cards;
+        DELETE FROM review_log;
+        DELETE FROM mock_exam_answers;
+        DELETE FROM mock_exams;
+        DELETE FROM plan_items;
+        UPDATE lessons SET is_completed = 0;
+      `);
+      await updateSettings(backup.settings);
+    }
+
+    for (const lesson of backup.completed_lessons) {
+      const lessonId = resolveLesson(lesson.id, lesson.content_id);
+      if (lessonId === null) continue;
+      await database.runAsync('UPDATE lessons SET is_completed = 1 WHERE id = ?', [lessonId]);
+    }
+
+    for (const session of backup.study_sessions) {
+      const subjectId = resolveSubject(session.subject_id, session.subject_content_id);
+      if (subjectId === null) continue;
+      const lessonId = resolveLesson(session.lesson_id, session.lesson_content_id);
+      if (mode === 'merge') {
+        const existing = await database.getFirstAsync<{ id: number }>(
+          'SELECT id FROM study_sessions WHERE subject_id = ? AND start_time = ?',
+          [subjectId, session.start_time]
+        );
+        if (existing) continue;
+      }
+      await database.runAsync(
+        'INSERT INTO study_sessions (subject_id, lesson_id, start_time, end_time, duration_minutes, focus_rating, notes, is_rated) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [subjectId, lessonId, session.start_time, session.end_time, session.duration_minutes, session.focus_rating, session.notes, session.is_rated]
+      );
+    }
+
+    for (const attempt of backup.attempts) {
+      const exerciseId = resolveExercise(attempt.exercise_id, attempt.exercise_content_id);
+      if (exerciseId === null) continue;
+      if (mode === 'merge') {
+        const existing = await database.getFirstAsync<{ id: number }>(
+          'SELECT id FROM attempts WHERE exercise_id = ? AND created_at = ?',
+          [exerciseId, attempt.created_at]
+        );
+        if (existing) continue;
+      }
+      await database.runAsync(
+        'INSERT INTO attempts (exercise_id, chosen_index, is_correct, time_spent_seconds, created_at, answer_json) VALUES (?, ?, ?, ?, ?, ?)',
+        [exerciseId, attempt.chosen_index, attempt.is_correct, attempt.time_spent_seconds, attempt.created_at, attempt.answer_json]
+      );
+    }
+
+    for (const review of backup.review_queue) {
+      const lessonId = resolveLesson(review.lesson_id, review.lesson_content_id);
+      if (lessonId === null) continue;
+      const existing = await database.getFirstAsync<ReviewQueue>(
+        'SELECT * FROM review_queue WHERE lesson_id = ?',
+        [lessonId]
+      );
+      if (existing && existing.repetitions >= review.repetitions) continue;
+      await database.runAsync(
+        `INSERT OR REPLACE INTO review_queue (lesson_id, next_review_date, interval_days, ease_factor, last_result, repetitions)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [lessonId, review.next_review_date, review.interval_days, review.ease_factor, review.last_result, review.repetitions]
+      );
+    }
+
+    for (const card of backup.exercise_cards) {
+      const exerciseId = resolveExercise(card.exercise_id, card.exercise_content_id);
+      if (exerciseId === null) continue;
+      const existing = await database.getFirstAsync<ExerciseCard>(
+        'SELECT * FROM exercise_cards WHERE exercise_id = ?',
+        [exerciseId]
+      );
+      if (existing && existing.repetitions >= card.repetitions) continue;
+      await database.runAsync(
+        `INSERT OR REPLACE INTO exercise_cards (exercise_id, next_review_date, interval_days, ease_factor, repetitions, last_quality, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [exerciseId, card.next_review_date, card.interval_days, card.ease_factor, card.repetitions, card.last_quality, card.created_at]
+      );
+    }
+
+    for (const entry of backup.review_log) {
+      const lessonId = resolveLesson(entry.lesson_id, entry.lesson_content_id);
+      if (lessonId === null) continue;
+      if (mode === 'merge') {
+        const existing = await database.getFirstAsync<{ id: number }>(
+          'SELECT id FROM review_log WHERE lesson_id = ? AND reviewed_at = ?',
+          [lessonId, entry.reviewed_at]
+        );
+        if (existing) continue;
+      }
+      await database.runAsync(
+        'INSERT INTO review_log (lesson_id, quality, interval_days, ease_factor, reviewed_at) VALUES (?, ?, ?, ?, ?)',
+        [lessonId, entry.quality, entry.interval_days, entry.ease_factor, entry.reviewed_at]
+      );
+    }
+
+    // An exam keeps its score even when some of its questions are missing here.
+    for (const { answers, ...exam } of backup.mock_exams) {
+      if (mode === 'merge') {
+        const existing = await database.getFirstAsync<{ id: number }>(
+          'SELECT id FROM mock_exams WHERE blueprint_id = ? AND started_at = ?',
+          [exam.blueprint_id, exam.started_at]
+        );
+        if (existing) continue;
+      }
+      const result = await database.runAsync(
+        'INSERT INTO mock_exams (blueprint_id, started_at, finished_at, duration_seconds, overall_grade, correct, total, subject_scores_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [exam.blueprint_id, exam.started_at, exam.finished_at, exam.duration_seconds, exam.overall_grade, exam.correct, exam.total, exam.subject_scores_json]
+      );
+      for (const answer of answers) {
+        const exerciseId = resolveExercise(answer.exercise_id, answer.exercise_content_id);
+        if (exerciseId === null) continue;
+        await database.runAsync(
+          'INSERT INTO mock_exam_answers (mock_exam_id, exercise_id, position, chosen_index, is_correct, time_spent_seconds, answer_json) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [result.lastInsertRowId, exerciseId, answer.position, answer.chosen_index, answer.is_correct, answer.time_spent_seconds, answer.answer_json]
+        );
+      }
+    }
+
+    for (const item of backup.plan_items) {
+      const lessonId = resolveLesson(item.lesson_id, item.lesson_content_id);
+      if (lessonId === null) continue;
+      if (mode === 'merge') {
+        const existing = await database.getFirstAsync<{ id: number }>(
+          "SELECT id FROM plan_items WHERE status = 'done' AND lesson_id = ? AND plan_date = ? AND kind = ?",
+          [lessonId, item.plan_date, item.kind]
+        );
+        if (existing) continue;
+      }
+      await database.runAsync(
+        "INSERT INTO plan_items (plan_date, lesson_id, kind, minutes, position, status, rolled_over, created_at) VALUES (?, ?, ?, ?, ?, 'done', ?, ?)",
+        [item.plan_date, lessonId, item.kind, item.minutes, item.position, item.rolled_over, item.created_at]
+      );
+    }
+  });
+
+  await regenerateStudyPlan();
+}
+
+export async function getContentPacks(): Promise<InstalledContentPack[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<InstalledContentPack>('SELECT * FROM content_packs ORDER BY installed_at');
+}
+
+export async function getContentPack(packId: string): Promise<InstalledContentPack | null> {
+  const database = await getDatabase();
+  return database.getFirstAsync<InstalledContentPack>('SELECT * FROM content_packs WHERE id = ?', [packId]);
+}
+
+export async function getInstalledContentIds(table: 'subjects' | 'lessons'): Promise<string[]> {
+  const database = await getDatabase();
+  const rows = await database.getAllAsync<{ content_id: string }>(
+    `SELECT content_id FROM ${table} WHERE content_id IS NOT NULL`
+  );
+  return rows.map((r) => r.content_id);
+}
+
+/**
+ * Upserts every item of a pack by its content ID, so rows keep their numeric
+ * IDs (and with them attempts, review history and plan items) across pack
+ * updates; only rows whose content changed are rewritten. Rows from before
+ * content IDs existed are adopted by their old natural key (subject name,
+ * lesson title, exercise question), which is how installs that predate
+ * stable IDs and packs extending the built-in subjects link up. Items dropped
+ * from a newer pack version are left in place.
+ */
+export async function installContentPack(pack: ContentPack): Promise<ContentPackDiff> {
+  const database = await getDatabase();
+  const now = new Date().toISOString();
+  const diff: ContentPackDiff = { added: 0, updated: 0, unchanged: 0 };
+
+  await database.withTransactionAsync(async () => {
+    const subjectIds = new Map<string, number>();
+    for (const subject of pack.subjects) {
+      const existing =
+        (await database.getFirstAsync<Subject>('SELECT * FROM subjects WHERE content_id = ?', [subject.id])) ??
+        (await database.getFirstAsync<Subject>(
+          'SELECT * FROM subjects WHERE content_id IS NULL AND name = ?',
+          [subject.name]
+        ));
+      if (!existing) {
+        const result = await database.runAsync(
+          'INSERT INTO subjects (name, color, content_id, pack_id) VALUES (?, ?, ?, ?)',
+          [subject.name, subject.color, subject.id, pack.id]
+        );
+        subjectIds.set(subject.id, result.lastInsertRowId);
+        diff.added++;
+        continue;
+      }
+      subjectIds.set(subject.id, existing.id);
+      if (existing.content_id === subject.id && existing.name === subject.name && existing.color === subject.color) {
+        diff.unchanged++;
+        continue;
+      }
+      await database.runAsync(
+        'UPDATE subjects SET name = ?, color = ?, content_id = ?, pack_id = COALESCE(pack_id, ?) WHERE id = ?',
+        [subject.name, subject.color, subject.id, pack.id, existing.id]
+      );
+      diff.updated++;
+    }
+
+    const resolveId = async (table: 'subjects' | 'lessons', contentId: string, local: Map<string, number>) => {
+      const id = local.get(contentId) ??
+        (await database.getFirstAsync<{ id: number }>(`SELECT id FROM ${table} WHERE content_id = ?`, [contentId]))?.id;
+      if (id === undefined) throw new Error(`Unknown ${table} content ID "${contentId}"`);
+      return id;
+    };
+
+    const lessonIds = new Map<string, number>();
+    for (const lesson of pack.lessons) {
+      const subjectId = await resolveId('subjects', lesson.subject_id, subjectIds);
+      const existing =
+        (await database.getFirstAsync<Lesson>('SELECT * FROM lessons WHERE content_id = ?', [lesson.id])) ??
+        (await database.getFirstAsync<Lesson>(
+          'SELECT * FROM lessons WHERE content_id IS NULL AND subject_id = ? AND title = ?',
+          [subjectId, lesson.title]
+        ));
+      if (!existing) {
+        const result = await database.runAsync(
+          'INSERT INTO lessons (subject_id, title, summary, importance_points, common_mistakes, content_id, pack_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [subjectId, lesson.title, lesson.summary, lesson.importance_points, lesson.common_mistakes, lesson.id, pack.id]
+        );
+        lessonIds.set(lesson.id, result.lastInsertRowId);
+        diff.added++;
+        continue;
+      }
+      lessonIds.set(lesson.id, existing.id);
+      if (
+        existing.content_id === lesson.id &&
+        existing.subject_id === subjectId &&
+        existing.title === lesson.title &&
+        existing.summary === lesson.summary &&
+        existing.importance_points === lesson.importance_points &&
+        existing.common_mistakes === lesson.common_mistakes
+      ) {
+        diff.unchanged++;
+        continue;
+      }
+      await database.runAsync(
+        'UPDATE lessons SET subject_id = ?, title = ?, summary = ?, importance_points = ?, common_mistakes = ?, content_id = ?, pack_id = ? WHERE id = ?',
+        [subjectId, lesson.title, lesson.summary, lesson.importance_points, lesson.common_mistakes, lesson.id, pack.id, existing.id]
+      );
+      diff.updated++;
+    }
+
+    for (const exercise of pack.exercises) {
+      const lessonId = await resolveId('lessons', exercise.lesson_id, lessonIds);
+      const columns = toExerciseColumns(exercise);
+      const row = {
+        lesson_id: lessonId,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        options_json: columns.options_json,
+        correct_index: columns.correct_index,
+        explanation: exercise.explanation,
+        type: columns.type,
+        payload_json: columns.payload_json,
+      };
+      const values = Object.values(row);
+      const existing =
+        (await database.getFirstAsync<Exercise>('SELECT * FROM exercises WHERE content_id = ?', [exercise.id])) ??
+        (await database.getFirstAsync<Exercise>(
+          'SELECT * FROM exercises WHERE content_id IS NULL AND lesson_id = ? AND question = ?',
+          [lessonId, exercise.question]
+        ));
+      if (!existing) {
+        await database.runAsync(
+          'INSERT INTO exercises (lesson_id, difficulty, question, options_json, correct_index, explanation, type, payload_json, content_id, pack_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [...values, exercise.id, pack.id]
+        );
+        diff.added++;
+        continue;
+      }
+      const isSame = existing.content_id === exercise.id &&
+        (Object.keys(row) as (keyof typeof row)[]).every((key) => existing[key] === row[key]);
+      if (isSame) {
+        diff.unchanged++;
+        continue;
+      }
+      await database.runAsync(
+        'UPDATE exercises SET lesson_id = ?, difficulty = ?, question = ?, options_json = ?, correct_index = ?, explanation = ?, type = ?, payload_json = ?, content_id = ?, pack_id = ? WHERE id = ?',
+        [...values, exercise.id, pack.id, existing.id]
+      );
+      diff.updated++;
+    }
+
+    await database.runAsync(
+      `INSERT INTO content_packs (id, version, title, description, subject_count, lesson_count, exercise_count, installed_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         version = excluded.version,
+         title = excluded.title,
+         description = excluded.description,
+         subject_count = excluded.subject_count,
+         lesson_count = excluded.lesson_count,
+         exercise_count = excluded.exercise_count,
+         updated_at = excluded.updated_at`,
+      [pack.id, pack.version, pack.title, pack.description, pack.subjects.length, pack.lessons.length, pack.exercises.length, now, now]
+    );
+  });
+
+  return diff;
+}
+
+export async function getDocuments(): Promise<DocumentSummary[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<DocumentSummary>(`
+    SELECT d.id, d.filename, d.local_uri, d.pages, d.remote_id, d.created_at,
+           (SELECT COUNT(*) FROM document_messages m WHERE m.document_id = d.id) as message_count
+    FROM documents d
+    ORDER BY d.created_at DESC
+  `);
+}
+
+export async function getDocument(id: number): Promise<StudyDocument | null> {
+  const database = await getDatabase();
+  return database.getFirstAsync<StudyDocument>('SELECT * FROM documents WHERE id = ?', [id]);
+}
+
+export async function createDocument(document: Omit<StudyDocument, 'id' | 'created_at'>): Promise<number> {
+  const database = await getDatabase();
+  const result = await database.runAsync(
+    'INSERT INTO documents (filename, local_uri, text, pages, remote_id, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+    [document.filename, document.local_uri, document.text, document.pages, document.remote_id, new Date().toISOString()]
+  );
+  return result.lastInsertRowId;
+}
+
+export async function deleteDocument(id: number): Promise<void> {
+  const database = await getDatabase();
+  await database.withTransactionAsync(async () => {
+    await database.runAsync('DELETE FROM document_messages WHERE document_id = ?', [id]);
+    await database.runAsync('DELETE FROM documents WHERE id = ?', [id]);
+  });
+}
+
+export async function getDocumentMessages(documentId: number): Promise<DocumentMessage[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<DocumentMessage>(
+    'SELECT * FROM document_messages WHERE document_id = ? ORDER BY id',
+    [documentId]
+  );
+}
+
+export async function addDocumentMessage(
+  documentId: number,
+  role: DocumentMessageRole,
+  content: string,
+  lang: AnswerLang,
+  pages: number[] = []
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    'INSERT INTO document_messages (document_id, role, content, lang, pages_json, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+    [documentId, role, content, lang, JSON.stringify(pages), new Date().toISOString()]
+  );
+}
+
+export async function clearDocumentMessages(documentId: number): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync('DELETE FROM document_messages WHERE document_id = ?', [documentId]);
+}
@@ -0,0 +1,437 @@
+import type * as SQLite from 'expo-sqlite';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (database: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+export class MigrationError extends Error {
+  readonly version: number;
+  readonly migrationName: string;
+
+  constructor(migration: Migration, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Migration ${migration.version} (${migration.name}) failed: ${reason}`);
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.migrationName = migration.name;
+    this.cause = cause;
+  }
+}
+
+// Steps must stay idempotent: a step can be re-run on a database that was
+// created before version tracking existed, so guard every change.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS subjects (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          color TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS lessons (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          subject_id INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          importance_points TEXT NOT NULL,
+          common_mistakes TEXT NOT NULL,
+          is_completed INTEGER DEFAULT 0,
+          FOREIGN KEY (subject_id) REFERENCES subjects(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS study_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          subject_id INTEGER NOT NULL,
+          lesson_id INTEGER,
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          duration_minutes INTEGER NOT NULL,
+          focus_rating INTEGER DEFAULT 3,
+          notes TEXT DEFAULT '',
+          FOREIGN KEY (subject_id) REFERENCES subjects(id),
+          FOREIGN KEY (lesson_id) REFERENCES lessons(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS exercises (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          lesson_id INTEGER NOT NULL,
+          difficulty INTEGER DEFAULT 1,
+          question TEXT NOT NULL,
+          options_json TEXT NOT NULL,
+          correct_index INTEGER NOT NULL,
+          explanation TEXT NOT NULL,
+          FOREIGN KEY (lesson_id) REFERENCES lessons(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS attempts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          exercise_id INTEGER NOT NULL,
+          chosen_index INTEGER NOT NULL,
+          is_correct INTEGER NOT NULL,
+          time_spent_seconds INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (exercise_id) REFERENCES exercises(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS review_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          lesson_id INTEGER NOT NULL UNIQUE,
+          next_review_date TEXT NOT NULL,
+          interval_days INTEGER DEFAULT 1,
+          ease_factor REAL DEFAULT 2.5,
+          last_result INTEGER DEFAULT 0,
+          FOREIGN KEY (lesson_id) REFERENCES lessons(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          exam_date TEXT,
+          daily_minutes_goal INTEGER DEFAULT 60,
+          pomodoro_work INTEGER DEFAULT 25,
+          pomodoro_break INTEGER DEFAULT 5,
+          onboarding_complete INTEGER DEFAULT 0
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'sm2_review_log',
+    up: async (database) => {
+      if (!(await columnExists(database, 'review_queue', 'repetitions'))) {
+        await database.execAsync(`
+          ALTER TABLE review_queue ADD COLUMN repetitions INTEGER DEFAULT 0;
+          UPDATE review_queue
+          SET repetitions = CASE
+            WHEN interval_days >= 6 THEN 2
+            WHEN last_result = 1 THEN 1
+            ELSE 0
+          END;
+        `);
+      }
+
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS review_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          lesson_id INTEGER NOT NULL,
+          quality INTEGER NOT NULL,
+          interval_days INTEGER NOT NULL,
+          ease_factor REAL NOT NULL,
+          reviewed_at TEXT NOT NULL,
+          FOREIGN KEY (lesson_id) REFERENCES lessons(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'exercise_cards',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS exercise_cards (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          exercise_id INTEGER NOT NULL UNIQUE,
+          next_review_date TEXT NOT NULL,
+          interval_days INTEGER DEFAULT 1,
+          ease_factor REAL DEFAULT 2.5,
+          repetitions INTEGER DEFAULT 0,
+          last_quality INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (exercise_id) REFERENCES exercises(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_exercise_cards_due ON exercise_cards(next_review_date);
+
+        INSERT OR IGNORE INTO exercise_cards (exercise_id, next_review_date, created_at)
+        SELECT exercise_id, DATE('now'), MIN(created_at)
+        FROM attempts
+        WHERE is_correct = 0
+        GROUP BY exercise_id;
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'plan_items',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS plan_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          plan_date TEXT NOT NULL,
+          lesson_id INTEGER NOT NULL,
+          kind TEXT NOT NULL,
+          minutes INTEGER NOT NULL,
+          position INTEGER DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'pending',
+          rolled_over INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (lesson_id) REFERENCES lessons(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_plan_items_date ON plan_items(plan_date);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'mock_exams',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS mock_exams (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          blueprint_id TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          finished_at TEXT NOT NULL,
+          duration_seconds INTEGER NOT NULL,
+          overall_grade REAL NOT NULL,
+          correct INTEGER NOT NULL,
+          total INTEGER NOT NULL,
+          subject_scores_json TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS mock_exam_answers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          mock_exam_id INTEGER NOT NULL,
+          exercise_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          chosen_index INTEGER,
+          is_correct INTEGER NOT NULL,
+          time_spent_seconds INTEGER DEFAULT 0,
+          FOREIGN KEY (mock_exam_id) REFERENCES mock_exams(id),
+          FOREIGN KEY (exercise_id) REFERENCES exercises(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_mock_exam_answers_exam ON mock_exam_answers(mock_exam_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'active_sessions',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS active_sessions (
+          kind TEXT PRIMARY KEY,
+          payload_json TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          deadline_at TEXT,
+          updated_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'exercise_types',
+    up: async (database) => {
+      await addColumnIfMissing(database, 'exercises', 'type', "TEXT NOT NULL DEFAULT 'mcq'");
+      await addColumnIfMissing(database, 'exercises', 'payload_json', 'TEXT');
+      await addColumnIfMissing(database, 'attempts', 'answer_json', 'TEXT');
+      await addColumnIfMissing(database, 'mock_exam_answers', 'answer_json', 'TEXT');
+
+      await database.execAsync(`
+        UPDATE attempts
+        SET answer_json = '{"type":"mcq","index":' || chosen_index || '}'
+        WHERE answer_json IS NULL;
+
+        UPDATE mock_exam_answers
+        SET answer_json = '{"type":"mcq","index":' || chosen_index || '}'
+        WHERE answer_json IS NULL AND chosen_index IS NOT NULL;
+      `);
+
+      // In-progress mock exams stored bare option indices as answers.
+      const sessions = await database.getAllAsync<{ kind: string; payload_json: string }>(
+        "SELECT kind, payload_json FROM active_sessions WHERE kind = 'mock'"
+      );
+      for (const session of sessions) {
+        const payload = JSON.parse(session.payload_json);
+        payload.answers = (payload.answers ?? []).map((answer: number | null) =>
+          typeof answer === 'number' ? { type: 'mcq', index: answer } : answer
+        );
+        await database.runAsync('UPDATE active_sessions SET payload_json = ? WHERE kind = ?', [
+          JSON.stringify(payload),
+          session.kind,
+        ]);
+      }
+    },
+  },
+  {
+    version: 8,
+    name: 'timer_state',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS timer_state (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          phase TEXT NOT NULL,
+          subject_id INTEGER NOT NULL,
+          lesson_id INTEGER,
+          phase_minutes INTEGER NOT NULL,
+          phase_started_at TEXT NOT NULL,
+          phase_ends_at TEXT NOT NULL,
+          paused_remaining_seconds INTEGER,
+          completed_sessions INTEGER DEFAULT 0,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (subject_id) REFERENCES subjects(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'study_session_rating',
+    up: async (database) => {
+      await addColumnIfMissing(database, 'study_sessions', 'is_rated', 'INTEGER DEFAULT 1');
+    },
+  },
+  {
+    version: 10,
+    name: 'timer_cycles',
+    up: async (database) => {
+      await addColumnIfMissing(database, 'settings', 'pomodoro_long_break', 'INTEGER DEFAULT 15');
+      await addColumnIfMissing(database, 'settings', 'pomodoro_cycles', 'INTEGER DEFAULT 4');
+      await addColumnIfMissing(database, 'settings', 'auto_start_breaks', 'INTEGER DEFAULT 1');
+      await addColumnIfMissing(database, 'settings', 'auto_start_work', 'INTEGER DEFAULT 0');
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS daily_cycles (
+          date TEXT PRIMARY KEY,
+          cycles INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'notification_settings',
+    up: async (database) => {
+      await addColumnIfMissing(database, 'settings', 'notifications_enabled', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(database, 'settings', 'reminder_times_json', `TEXT DEFAULT '["18:00"]'`);
+      await addColumnIfMissing(database, 'settings', 'goal_nudge_enabled', 'INTEGER DEFAULT 1');
+      await addColumnIfMissing(database, 'settings', 'goal_nudge_time', `TEXT DEFAULT '20:00'`);
+      await addColumnIfMissing(database, 'settings', 'review_alerts_enabled', 'INTEGER DEFAULT 1');
+      await addColumnIfMissing(database, 'settings', 'exam_countdown_enabled', 'INTEGER DEFAULT 1');
+    },
+  },
+  {
+    version: 12,
+    name: 'content_packs',
+    up: async (database) => {
+      for (const table of ['subjects', 'lessons', 'exercises']) {
+        await addColumnIfMissing(database, table, 'content_id', 'TEXT');
+        await addColumnIfMissing(database, table, 'pack_id', 'TEXT');
+        await database.execAsync(
+          `CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_content_id ON ${table}(content_id) WHERE content_id IS NOT NULL`
+        );
+      }
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS content_packs (
+          id TEXT PRIMARY KEY,
+          version INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT DEFAULT '',
+          subject_count INTEGER DEFAULT 0,
+          lesson_count INTEGER DEFAULT 0,
+          exercise_count INTEGER DEFAULT 0,
+          installed_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'documents',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS documents (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          filename TEXT NOT NULL,
+          local_uri TEXT NOT NULL,
+          text TEXT NOT NULL,
+          pages INTEGER,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS document_messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          document_id INTEGER NOT NULL,
+          role TEXT NOT NULL,
+          content TEXT NOT NULL,
+          lang TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (document_id) REFERENCES documents(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_document_messages_document ON document_messages(document_id);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'document_message_pages',
+    up: async (database) => {
+      await addColumnIfMissing(database, 'document_messages', 'pages_json', "TEXT NOT NULL DEFAULT '[]'");
+    },
+  },
+  {
+    version: 15,
+    name: 'document_remote_id',
+    up: async (database) => {
+      await addColumnIfMissing(database, 'documents', 'remote_id', 'TEXT');
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function getSchemaVersion(database: SQLite.SQLiteDatabase): Promise<number> {
+  const result = await database.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return result?.user_version ?? 0;
+}
+
+export async function columnExists(
+  database: SQLite.SQLiteDatabase,
+  table: string,
+  column: string
+): Promise<boolean> {
+  const columns = await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.some((c) => c.name === column);
+}
+
+export async function addColumnIfMissing(
+  database: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  if (await columnExists(database, table, column)) return;
+  await database.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+export async function runMigrations(database: SQLite.SQLiteDatabase): Promise<number> {
+  let currentVersion = await getSchemaVersion(database);
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) continue;
+
+    try {
+      // user_version is written inside the transaction so a failed step rolls
+      // back both its schema changes and the version bump.
+      await database.withTransactionAsync(async () => {
+        await migration.up(database);
+        await database.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      throw new MigrationError(migration, error);
+    }
+
+    currentVersion = migration.version;
+  }
+
+  return currentVersion;
+}
@@ -1,66 +1,62 @@
-export interface SeedSubject {
-  name: string;
-  color: string;
-}
+import { CONTENT_PACK_FORMAT, type ContentPack, type PackSubject, type PackLesson, type PackExercise } from '@shared/contentPack';
 
-export interface SeedLesson {
-  subject_name: string;
-  title: string;
-  summary: string;
-  importance_points: string;
-  common_mistakes: string;
-}
+// The bundled content is installed like any other content pack. Bump the
+// version whenever anything below changes so existing installs pick it up.
+// IDs must never change once shipped: progress is linked through them.
+export const CORE_PACK_ID = 'core';
+export const CORE_PACK_VERSION = 1;
 
-export interface SeedExercise {
-  lesson_title: string;
-  difficulty: number;
-  question: string;
-  options: string[];
-  correct_index: number;
-  explanation: string;
-}
+export type SeedSubject = PackSubject;
+export type SeedLesson = PackLesson;
+// Single-choice exercises use `options`/`correct_index`; other types carry a `payload`.
+export type SeedExercise = PackExercise;
 
-export function getSeedData() {
+export function getSeedData(): ContentPack {
   const subjects: SeedSubject[] = [
-    { name: 'الرياضيات', color: '#3498DB' },
-    { name: 'اللغة العربية', color: '#27AE60' },
-    { name: 'اللغة الفرنسية', color: '#9B59B6' },
-    { name: 'العلوم الطبيعية', color: '#E67E22' },
-    { name: 'التاريخ والجغرافيا', color: '#E74C3C' },
+    { id: 'math', name: 'الرياضيات', color: '#3498DB' },
+    { id: 'arabic', name: 'اللغة العربية', color: '#27AE60' },
+    { id: 'french', name: 'اللغة الفرنسية', color: '#9B59B6' },
+    { id: 'science', name: 'العلوم الطبيعية', color: '#E67E22' },
+    { id: 'history-geography', name: 'التاريخ والجغرافيا', color: '#E74C3C' },
   ];
 
   const lessons: SeedLesson[] = [
     // Math lessons
     {
-      subject_name: 'الرياضيات',
+      id: 'math.linear-equations',
+      subject_id: 'math',
       title: 'المعادلات من الدرجة الأولى',
       summary: 'تعلم كيفية حل المعادلات البسيطة من الدرجة الأولى بمجهول واحد. يشمل نقل الحدود وتبسيط المعادلات.',
       importance_points: 'أساس حل المسائل الجبرية. يظهر في معظم تمارين الرياضيات. مهم لفهم الدوال.',
       common_mistakes: 'نسيان تغيير الإشارة عند النقل. عدم التحقق من الحل. الخلط بين الضرب والقسمة.',
     },
     {
-      subject_name: 'الرياضيات',
+      id: 'math.pythagoras',
+      subject_id: 'math',
       title: 'نظرية فيثاغورس',
       summary: 'في المثلث القائم، مربع الوتر يساوي مجموع مربعي الضلعين القائمين. a² + b² = c²',
       importance_points: 'أساسية لحساب المسافات. تستخدم في الهندسة والفيزياء. تظهر في كل امتحان تقريباً.',
       common_mistakes: 'الخلط بين الوتر والأضلاع الأخرى. نسيان أخذ الجذر التربيعي. عدم التحقق من قائمية المثلث.',
     },
     {
-      subject_name: 'الرياضيات',
+      id: 'math.fractions',
+      subject_id: 'math',
       title: 'الكسور والعمليات عليها',
       summary: 'الجمع والطرح والضرب والقسمة على الكسور. توحيد المقامات وتبسيط الكسور.',
       importance_points: 'أساس الحساب. يظهر في النسب المئوية. مهم للمسائل التطبيقية.',
       common_mistakes: 'عدم توحيد المقامات قبل الجمع. الخلط في قلب الكسر عند القسمة. نسيان التبسيط.',
     },
     {
-      subject_name: 'الرياضيات',
+      id: 'math.areas-perimeters',
+      subject_id: 'math',
       title: 'حساب المساحات والمحيطات',
       summary: 'حساب مساحات ومحيطات الأشكال الهندسية الأساسية: المربع، المستطيل، المثلث، الدائرة.',
       importance_points: 'تطبيقات عملية كثيرة. أساس الهندسة الفراغية. يظهر في مسائل الحياة اليومية.',
       common_mistakes: 'الخلط بين المساحة والمحيط. نسيان وحدة القياس. أخطاء في حساب π.',
     },
     {
-      subject_name: 'الرياضيات',
+      id: 'math.ratios',
+      subject_id: 'math',
       title: 'النسب والتناسب',
       summary: 'فهم العلاقة بين كميتين متناسبتين. حل مسائل التناسب الطردي والعكسي.',
       importance_points: 'أساس حل مسائل الحياة العملية. مهم للخرائط والمقاييس. يرتبط بالنسب المئوية.',
@@ -68,35 +64,40 @@ export function getSeedData() {
     },
     // Arabic lessons
     {
-      subject_name: 'اللغة العربية',
+      id: 'arabic.sentence-types',
+      subject_id: 'arabic',
       title: 'أنواع الجمل',
       summary: 'الجملة الاسمية والفعلية. المبتدأ والخبر. الفعل والفاعل والمفعول به.',
       importance_points: 'أساس فهم التراكيب النحوية. ضروري للإعراب الصحيح. يظهر في كل نص.',
       common_mistakes: 'الخلط بين الجملة الاسمية والفعلية. أخطاء في تحديد المبتدأ. نسيان المفعول به.',
     },
     {
-      subject_name: 'اللغة العربية',
+      id: 'arabic.case-endings',
+      subject_id: 'arabic',
       title: 'علامات الإعراب',
       summary: 'الضمة للرفع، الفتحة للنصب، الكسرة للجر. الإعراب بالحركات والحروف.',
       importance_points: 'ضروري للكتابة الصحيحة. يؤثر على المعنى. أساس النحو العربي.',
       common_mistakes: 'الخلط بين الحركات. عدم معرفة الأسماء الخمسة. أخطاء في المثنى والجمع.',
     },
     {
-      subject_name: 'اللغة العربية',
+      id: 'arabic.verb-tenses',
+      subject_id: 'arabic',
       title: 'الفعل الماضي والمضارع والأمر',
       summary: 'تصريف الأفعال في الأزمنة المختلفة. علامات كل زمن وكيفية تحويل الفعل.',
       importance_points: 'أساس فهم النصوص. مهم للتعبير الكتابي. يظهر في الإملاء.',
       common_mistakes: 'أخطاء في التصريف. نسيان همزة الوصل والقطع. الخلط بين المضارع والأمر.',
     },
     {
-      subject_name: 'اللغة العربية',
+      id: 'arabic.absolute-object',
+      subject_id: 'arabic',
       title: 'المفعول المطلق',
       summary: 'اسم منصوب يأتي بعد فعل من لفظه لتأكيده أو بيان نوعه أو عدده.',
       importance_points: 'يحسن الأسلوب. مهم في التعبير. يظهر في الإعراب.',
       common_mistakes: 'الخلط مع المفعول به. عدم معرفة أنواعه. أخطاء في النصب.',
     },
     {
-      subject_name: 'اللغة العربية',
+      id: 'arabic.rhetoric',
+      subject_id: 'arabic',
       title: 'البلاغة - التشبيه والاستعارة',
       summary: 'أركان التشبيه الأربعة. أنواع الاستعارة: تصريحية ومكنية. جمالية الصور البلاغية.',
       importance_points: 'مهم لفهم النصوص الأدبية. يظهر في أسئلة البلاغة. يحسن التعبير الكتابي.',
@@ -104,35 +105,40 @@ export function getSeedData() {
     },
     // French lessons
     {
-      subject_name: 'اللغة الفرنسية',
+      id: 'french.verb-tenses',
+      subject_id: 'french',
       title: 'Les temps verbaux',
       summary: 'تصريف الأفعال في الأزمنة المختلفة: الماضي والحاضر والمستقبل. أهم الأفعال المساعدة.',
       importance_points: 'أساس الكتابة والقراءة. يظهر في كل تمرين. ضروري للفهم.',
       common_mistakes: 'أخطاء في تصريف être و avoir. الخلط بين الأزمنة. نسيان التطابق.',
     },
     {
-      subject_name: 'اللغة الفرنسية',
+      id: 'french.personal-pronouns',
+      subject_id: 'french',
       title: 'Les pronoms personnels',
       summary: 'ضمائر الفاعل والمفعول به المباشر وغير المباشر. موقعها في الجملة.',
       importance_points: 'تجنب التكرار في النص. مهم للفهم. يظهر في التعبير.',
       common_mistakes: 'الخلط بين le/la/les و lui/leur. موقع الضمير الخاطئ. نسيان التطابق.',
     },
     {
-      subject_name: 'اللغة الفرنسية',
+      id: 'french.questions',
+      subject_id: 'french',
       title: 'La phrase interrogative',
       summary: 'طرق طرح السؤال بالفرنسية. استخدام أدوات الاستفهام المختلفة.',
       importance_points: 'مهم للحوار. يظهر في فهم المقروء. أساس التواصل.',
       common_mistakes: 'الخلط بين qui/que/quoi. نسيان قلب الفعل. أخطاء في التنغيم.',
     },
     {
-      subject_name: 'اللغة الفرنسية',
+      id: 'french.adjectives',
+      subject_id: 'french',
       title: 'Les adjectifs',
       summary: 'تطابق الصفة مع الموصوف في الجنس والعدد. موقع الصفة في الجملة.',
       importance_points: 'يحسن الوصف. مهم للتعبير. يظهر في القواعد.',
       common_mistakes: 'نسيان التطابق. موقع الصفة الخاطئ. أخطاء في المؤنث.',
     },
     {
-      subject_name: 'اللغة الفرنسية',
+      id: 'french.writing',
+      subject_id: 'french',
       title: 'La production écrite',
       summary: 'كيفية كتابة نص متماسك. استخدام الروابط المنطقية. تنظيم الأفكار.',
       importance_points: 'جزء كبير من العلامة. يظهر قدرة التعبير. يتطلب تدريباً مستمراً.',
@@ -140,35 +146,40 @@ export function getSeedData() {
     },
     // Science lessons
     {
-      subject_name: 'العلوم الطبيعية',
+      id: 'science.cell',
+      subject_id: 'science',
       title: 'الخلية - وحدة بناء الكائن الحي',
       summary: 'مكونات الخلية: النواة، السيتوبلازم، الغشاء. الفرق بين الخلية النباتية والحيوانية.',
       importance_points: 'أساس علم الأحياء. يرتبط بكل الوظائف الحيوية. يظهر في كل امتحان.',
       common_mistakes: 'الخلط بين مكونات الخلية. نسيان الفروق. عدم فهم الوظائف.',
     },
     {
-      subject_name: 'العلوم الطبيعية',
+      id: 'science.digestive-system',
+      subject_id: 'science',
       title: 'الجهاز الهضمي',
       summary: 'مراحل الهضم من الفم إلى الأمعاء. دور كل عضو في عملية الهضم. الإنزيمات الهاضمة.',
       importance_points: 'فهم التغذية. يرتبط بالصحة. أسئلة تطبيقية كثيرة.',
       common_mistakes: 'الخلط بين الهضم الآلي والكيميائي. نسيان ترتيب الأعضاء. عدم معرفة الإنزيمات.',
     },
     {
-      subject_name: 'العلوم الطبيعية',
+      id: 'science.respiratory-system',
+      subject_id: 'science',
       title: 'الجهاز التنفسي',
       summary: 'آلية التنفس: الشهيق والزفير. تبادل الغازات في الرئتين. أهمية الأكسجين للخلايا.',
       importance_points: 'فهم الحياة. يرتبط بالصحة والرياضة. تطبيقات عملية.',
       common_mistakes: 'الخلط بين الشهيق والزفير. عدم فهم تبادل الغازات. نسيان دور الحجاب الحاجز.',
     },
     {
-      subject_name: 'العلوم الطبيعية',
+      id: 'science.circulation',
+      subject_id: 'science',
       title: 'الدورة الدموية',
       summary: 'القلب والأوعية الدموية. الدورة الدموية الكبرى والصغرى. وظيفة الدم.',
       importance_points: 'فهم نقل المواد في الجسم. مهم للصحة. أسئلة رسم البيانات.',
       common_mistakes: 'الخلط بين الشريان والوريد. عدم فهم اتجاه الدم. أخطاء في رسم القلب.',
     },
     {
-      subject_name: 'العلوم الطبيعية',
+      id: 'science.environment',
+      subject_id: 'science',
       title: 'البيئة والتلوث',
       summary: 'أنواع التلوث وأسبابه. تأثير التلوث على الكائنات الحية. حماية البيئة.',
       importance_points: 'موضوع حالي ومهم. يرتبط بالتربية المدنية. أسئلة التحليل والوثائق.',
@@ -176,35 +187,40 @@ export function getSeedData() {
     },
     // History/Geography lessons
     {
-      subject_name: 'التاريخ والجغرافيا',
+      id: 'history.revolution-1954',
+      subject_id: 'history-geography',
       title: 'الثورة الجزائرية 1954-1962',
       summary: 'أسباب اندلاع الثورة. مراحلها الكبرى. أهم الأحداث والشخصيات.',
       importance_points: 'تاريخ وطني أساسي. يظهر دائماً في الامتحان. يرتبط بالهوية.',
       common_mistakes: 'الخلط في التواريخ. عدم معرفة الأحداث بالتسلسل. نسيان الشخصيات.',
     },
     {
-      subject_name: 'التاريخ والجغرافيا',
+      id: 'history.world-war-2',
+      subject_id: 'history-geography',
       title: 'الحرب العالمية الثانية',
       summary: 'أسباب الحرب ومراحلها. الدول المشاركة. نتائجها على العالم.',
       importance_points: 'تاريخ عالمي مهم. يرتبط بالاستعمار. أسئلة التحليل.',
       common_mistakes: 'الخلط بين الحربين. عدم فهم التحالفات. نسيان النتائج.',
     },
     {
-      subject_name: 'التاريخ والجغرافيا',
+      id: 'geography.algeria-location',
+      subject_id: 'history-geography',
       title: 'الجزائر - الموقع والخصائص الطبيعية',
       summary: 'موقع الجزائر الجغرافي. التضاريس والمناخ. الموارد الطبيعية.',
       importance_points: 'أساس الجغرافيا. يرتبط بالاقتصاد. أسئلة الخرائط.',
       common_mistakes: 'أخطاء في الموقع. عدم معرفة التضاريس. الخلط في المناخ.',
     },
     {
-      subject_name: 'التاريخ والجغرافيا',
+      id: 'geography.population',
+      subject_id: 'history-geography',
       title: 'السكان في الجزائر',
       summary: 'توزيع السكان. النمو الديموغرافي. المشاكل السكانية والحلول.',
       importance_points: 'موضوع تحليلي. يرتبط بالتنمية. أسئلة البيانات والإحصائيات.',
       common_mistakes: 'عدم فهم المصطلحات. أخطاء في قراءة البيانات. إجابات سطحية.',
     },
     {
-      subject_name: 'التاريخ والجغرافيا',
+      id: 'geography.economy',
+      subject_id: 'history-geography',
       title: 'الاقتصاد الجزائري',
       summary: 'قطاعات الاقتصاد: الزراعة، الصناعة، الخدمات. دور المحروقات. التحديات الاقتصادية.',
       importance_points: 'فهم الواقع. يرتبط بالتنمية. أسئلة التحليل.',
@@ -215,7 +231,8 @@ export function getSeedData() {
   const exercises: SeedExercise[] = [
     // Math exercises
     {
-      lesson_title: 'المعادلات من الدرجة الأولى',
+      id: 'math.linear-equations.1',
+      lesson_id: 'math.linear-equations',
       difficulty: 1,
       question: 'حل المعادلة: 2x + 5 = 11',
       options: ['x = 2', 'x = 3', 'x = 4', 'x = 5'],
@@ -223,7 +240,8 @@ export function getSeedData() {
       explanation: '2x + 5 = 11 ⟹ 2x = 11 - 5 ⟹ 2x = 6 ⟹ x = 3',
     },
     {
-      lesson_title: 'المعادلات من الدرجة الأولى',
+      id: 'math.linear-equations.2',
+      lesson_id: 'math.linear-equations',
       difficulty: 2,
       question: 'حل المعادلة: 3x - 7 = 2x + 5',
       options: ['x = 12', 'x = 2', 'x = -12', 'x = 7'],
@@ -231,7 +249,8 @@ export function getSeedData() {
       explanation: '3x - 7 = 2x + 5 ⟹ 3x - 2x = 5 + 7 ⟹ x = 12',
     },
     {
-      lesson_title: 'المعادلات من الدرجة الأولى',
+      id: 'math.linear-equations.3',
+      lesson_id: 'math.linear-equations',
       difficulty: 3,
       question: 'حل المعادلة: 4(x - 2) = 2(x + 3)',
       options: ['x = 5', 'x = 7', 'x = 3', 'x = 4'],
@@ -239,7 +258,8 @@ export function getSeedData() {
       explanation: '4x - 8 = 2x + 6 ⟹ 2x = 14 ⟹ x = 7',
     },
     {
-      lesson_title: 'نظرية فيثاغورس',
+      id: 'math.pythagoras.1',
+      lesson_id: 'math.pythagoras',
       difficulty: 1,
       question: 'في مثلث قائم الضلعان القائمان 3 و 4، ما طول الوتر؟',
       options: ['5', '6', '7', '12'],
@@ -247,7 +267,8 @@ export function getSeedData() {
       explanation: 'c² = 3² + 4² = 9 + 16 = 25 ⟹ c = 5',
     },
     {
-      lesson_title: 'نظرية فيثاغورس',
+      id: 'math.pythagoras.2',
+      lesson_id: 'math.pythagoras',
       difficulty: 2,
       question: 'مثلث قائم وتره 13 وأحد ضلعيه 5، ما الضلع الآخر؟',
       options: ['8', '10', '12', '18'],
@@ -255,7 +276,8 @@ export function getSeedData() {
       explanation: '13² = 5² + b² ⟹ 169 = 25 + b² ⟹ b² = 144 ⟹ b = 12',
     },
     {
-      lesson_title: 'نظرية فيثاغورس',
+      id: 'math.pythagoras.3',
+      lesson_id: 'math.pythagoras',
       difficulty: 2,
       question: 'هل المثلث ذو الأضلاع 6، 8، 10 مثلث قائم؟',
       options: ['نعم لأن 10² = 6² + 8²', 'لا لأن 10² ≠ 6² + 8²', 'لا يمكن التحديد', 'نعم لأن الأضلاع زوجية'],
@@ -263,7 +285,8 @@ export function getSeedData() {
       explanation: '10² = 100، 6² + 8² = 36 + 64 = 100 ⟹ المثلث قائم',
     },
     {
-      lesson_title: 'الكسور والعمليات عليها',
+      id: 'math.fractions.1',
+      lesson_id: 'math.fractions',
       difficulty: 1,
       question: 'احسب: 1/4 + 1/4',
       options: ['2/8', '1/2', '2/4', '1/8'],
@@ -271,7 +294,8 @@ export function getSeedData() {
       explanation: '1/4 + 1/4 = 2/4 = 1/2',
     },
     {
-      lesson_title: 'الكسور والعمليات عليها',
+      id: 'math.fractions.2',
+      lesson_id: 'math.fractions',
       difficulty: 2,
       question: 'احسب: 2/3 × 3/4',
       options: ['6/7', '5/7', '1/2', '6/12'],
@@ -279,7 +303,8 @@ export function getSeedData() {
       explanation: '2/3 × 3/4 = 6/12 = 1/2',
     },
     {
-      lesson_title: 'الكسور والعمليات عليها',
+      id: 'math.fractions.3',
+      lesson_id: 'math.fractions',
       difficulty: 2,
       question: 'احسب: 1/2 ÷ 1/4',
       options: ['1/8', '2', '1/2', '4'],
@@ -288,7 +313,8 @@ export function getSeedData() {
     },
     // Arabic exercises
     {
-      lesson_title: 'أنواع الجمل',
+      id: 'arabic.sentence-types.1',
+      lesson_id: 'arabic.sentence-types',
       difficulty: 1,
       question: 'ما نوع الجملة: "الطالب مجتهد"؟',
       options: ['جملة فعلية', 'جملة اسمية', 'جملة استفهامية', 'جملة شرطية'],
@@ -296,7 +322,8 @@ export function getSeedData() {
       explanation: 'جملة اسمية لأنها تبدأ باسم (الطالب)',
     },
     {
-      lesson_title: 'أنواع الجمل',
+      id: 'arabic.sentence-types.2',
+      lesson_id: 'arabic.sentence-types',
       difficulty: 1,
       question: 'ما نوع الجملة: "يدرس التلميذ بجد"؟',
       options: ['جملة اسمية', 'جملة فعلية', 'جملة استفهامية', 'جملة تعجبية'],
@@ -304,7 +331,8 @@ export function getSeedData() {
       explanation: 'جملة فعلية لأنها تبدأ بفعل (يدرس)',
     },
     {
-      lesson_title: 'أنواع الجمل',
+      id: 'arabic.sentence-types.3',
+      lesson_id: 'arabic.sentence-types',
       difficulty: 2,
       question: 'في الجملة "العلم نور"، ما إعراب "نور"؟',
       options: ['مبتدأ مرفوع', 'خبر مرفوع', 'فاعل مرفوع', 'مفعول به منصوب'],
@@ -312,7 +340,8 @@ export function getSeedData() {
       explanation: 'نور: خبر مرفوع بالضمة، لأنه يخبر عن المبتدأ "العلم"',
     },
     {
-      lesson_title: 'علامات الإعراب',
+      id: 'arabic.case-endings.1',
+      lesson_id: 'arabic.case-endings',
       difficulty: 1,
       question: 'ما علامة رفع الاسم المفرد؟',
       options: ['الفتحة', 'الكسرة', 'الضمة', 'السكون'],
@@ -320,7 +349,8 @@ export function getSeedData() {
       explanation: 'الاسم المفرد يُرفع بالضمة',
     },
     {
-      lesson_title: 'علامات الإعراب',
+      id: 'arabic.case-endings.2',
+      lesson_id: 'arabic.case-endings',
       difficulty: 2,
       question: 'في "رأيت الطالبَ"، ما إعراب "الطالب"؟',
       options: ['فاعل مرفوع', 'مفعول به منصوب', 'اسم مجرور', 'خبر مرفوع'],
@@ -328,7 +358,8 @@ export function getSeedData() {
       explanation: 'الطالب: مفعول به منصوب بالفتحة',
     },
     {
-      lesson_title: 'علامات الإعراب',
+      id: 'arabic.case-endings.3',
+      lesson_id: 'arabic.case-endings',
       difficulty: 2,
       question: 'ما علامة جر الاسم المفرد؟',
       options: ['الفتحة', 'الكسرة', 'الضمة', 'الألف'],
@@ -337,7 +368,8 @@ export function getSeedData() {
     },
     // French exercises
     {
-      lesson_title: 'Les temps verbaux',
+      id: 'french.verb-tenses.1',
+      lesson_id: 'french.verb-tenses',
       difficulty: 1,
       question: 'Conjuguez "être" au présent avec "nous":',
       options: ['nous sommes', 'nous avons', 'nous êtes', 'nous sont'],
@@ -345,7 +377,8 @@ export function getSeedData() {
       explanation: 'Être au présent: je suis, tu es, il/elle est, nous sommes, vous êtes, ils/elles sont',
     },
     {
-      lesson_title: 'Les temps verbaux',
+      id: 'french.verb-tenses.2',
+      lesson_id: 'french.verb-tenses',
       difficulty: 2,
       question: 'Quel est le passé composé de "je mange"?',
       options: ["j'ai mangé", "j'ai manger", 'je suis mangé', 'je mange'],
@@ -353,7 +386,8 @@ export function getSeedData() {
       explanation: 'Le passé composé se forme avec avoir/être + participe passé: j\'ai mangé',
     },
     {
-      lesson_title: 'Les temps verbaux',
+      id: 'french.verb-tenses.3',
+      lesson_id: 'french.verb-tenses',
       difficulty: 2,
       question: 'Conjuguez "aller" au futur simple avec "tu":',
       options: ['tu vas', 'tu iras', 'tu alleras', 'tu es allé'],
@@ -361,7 +395,8 @@ export function getSeedData() {
       explanation: 'Aller au futur: j\'irai, tu iras, il ira, nous irons, vous irez, ils iront',
     },
     {
-      lesson_title: 'Les pronoms personnels',
+      id: 'french.personal-pronouns.1',
+      lesson_id: 'french.personal-pronouns',
       difficulty: 1,
       question: 'Remplacez "le livre" par un pronom: "Je lis le livre"',
       options: ['Je lui lis', 'Je la lis', 'Je le lis', 'Je les lis'],
@@ -369,7 +404,8 @@ export function getSeedData() {
       explanation: '"Le livre" est masculin singulier, on utilise "le": Je le lis',
     },
     {
-      lesson_title: 'Les pronoms personnels',
+      id: 'french.personal-pronouns.2',
+      lesson_id: 'french.personal-pronouns',
       difficulty: 2,
       question: 'Quel pronom remplace "à Marie"?',
       options: ['la', 'le', 'lui', 'leur'],
@@ -377,7 +413,8 @@ export function getSeedData() {
       explanation: 'Pour les COI (à + personne), on utilise "lui" au singulier',
     },
     {
-      lesson_title: 'Les pronoms personnels',
+      id: 'french.personal-pronouns.3',
+      lesson_id: 'french.personal-pronouns',
       difficulty: 2,
       question: 'Comment dit-on "Je donne le livre à Pierre"?',
       options: ['Je le lui donne', 'Je lui le donne', 'Je le donne lui', 'Je lui donne le'],
@@ -386,7 +423,8 @@ export function getSeedData() {
     },
     // Science exercises
     {
-      lesson_title: 'الخلية - وحدة بناء الكائن الحي',
+      id: 'science.cell.1',
+      lesson_id: 'science.cell',
       difficulty: 1,
       question: 'ما العضية المسؤولة عن التحكم في الخلية؟',
       options: ['السيتوبلازم', 'النواة', 'الغشاء البلازمي', 'الميتوكوندري'],
@@ -394,7 +432,8 @@ export function getSeedData() {
       explanation: 'النواة هي مركز التحكم في الخلية وتحتوي على المادة الوراثية',
     },
     {
-      lesson_title: 'الخلية - وحدة بناء الكائن الحي',
+      id: 'science.cell.2',
+      lesson_id: 'science.cell',
       difficulty: 2,
       question: 'ما الذي يميز الخلية النباتية عن الحيوانية؟',
       options: ['وجود النواة', 'وجود الجدار الخلوي', 'وجود السيتوبلازم', 'وجود الغشاء'],
@@ -402,7 +441,8 @@ export function getSeedData() {
       explanation: 'الخلية النباتية تتميز بوجود جدار خلوي وبلاستيدات خضراء',
     },
     {
-      lesson_title: 'الخلية - وحدة بناء الكائن الحي',
+      id: 'science.cell.3',
+      lesson_id: 'science.cell',
       difficulty: 2,
       question: 'أين يتم التنفس الخلوي؟',
       options: ['في النواة', 'في الميتوكوندري', 'في الغشاء', 'في الجدار الخلوي'],
@@ -410,7 +450,8 @@ export function getSeedData() {
       explanation: 'الميتوكوندري هي مصانع الطاقة في الخلية حيث يتم التنفس الخلوي',
     },
     {
-      lesson_title: 'الجهاز الهضمي',
+      id: 'science.digestive-system.1',
+      lesson_id: 'science.digestive-system',
       difficulty: 1,
       question: 'أين يبدأ الهضم الآلي للطعام؟',
       options: ['المعدة', 'الفم', 'الأمعاء الدقيقة', 'المريء'],
@@ -418,7 +459,8 @@ export function getSeedData() {
       explanation: 'يبدأ الهضم في الفم حيث تقوم الأسنان بتقطيع الطعام (هضم آلي)',
     },
     {
-      lesson_title: 'الجهاز الهضمي',
+      id: 'science.digestive-system.2',
+      lesson_id: 'science.digestive-system',
       difficulty: 2,
       question: 'ما الإنزيم الذي يهضم النشويات في الفم؟',
       options: ['الببسين', 'الأميلاز اللعابي', 'الليباز', 'التربسين'],
@@ -426,7 +468,8 @@ export function getSeedData() {
       explanation: 'الأميلاز اللعابي يحول النشويات إلى سكريات بسيطة',
     },
     {
-      lesson_title: 'الجهاز الهضمي',
+      id: 'science.digestive-system.3',
+      lesson_id: 'science.digestive-system',
       difficulty: 2,
       question: 'أين يتم امتصاص معظم الغذاء؟',
       options: ['المعدة', 'الأمعاء الغليظة', 'الأمعاء الدقيقة', 'المريء'],
@@ -435,7 +478,8 @@ export function getSeedData() {
     },
     // History exercises
     {
-      lesson_title: 'الثورة الجزائرية 1954-1962',
+      id: 'history.revolution-1954.1',
+      lesson_id: 'history.revolution-1954',
       difficulty: 1,
       question: 'متى اندلعت الثورة الجزائرية؟',
       options: ['1 نوفمبر 1945', '1 نوفمبر 1954', '5 يوليو 1962', '8 مايو 1945'],
@@ -443,7 +487,8 @@ export function getSeedData() {
       explanation: 'اندلعت الثورة التحريرية في الفاتح من نوفمبر 1954',
     },
     {
-      lesson_title: 'الثورة الجزائرية 1954-1962',
+      id: 'history.revolution-1954.2',
+      lesson_id: 'history.revolution-1954',
       difficulty: 2,
       question: 'ما اسم الحزب الذي فجّر الثورة؟',
       options: ['حزب الشعب الجزائري', 'جبهة التحرير الوطني', 'الاتحاد الديمقراطي', 'حركة انتصار الحريات'],
@@ -451,7 +496,8 @@ export function getSeedData() {
       explanation: 'جبهة التحرير الوطني (FLN) هي التي أطلقت الثورة وقادتها',
     },
     {
-      lesson_title: 'الثورة الجزائرية 1954-1962',
+      id: 'history.revolution-1954.3',
+      lesson_id: 'history.revolution-1954',
       difficulty: 2,
       question: 'متى استقلت الجزائر؟',
       options: ['1 نوفمبر 1954', '19 مارس 1962', '5 يوليو 1962', '3 يوليو 1962'],
@@ -459,7 +505,8 @@ export function getSeedData() {
       explanation: 'أعلن الاستقلال رسمياً في 5 يوليو 1962 بعد استفتاء تقرير المصير',
     },
     {
-      lesson_title: 'الحرب العالمية الثانية',
+      id: 'history.world-war-2.1',
+      lesson_id: 'history.world-war-2',
       difficulty: 1,
       question: 'متى بدأت الحرب العالمية الثانية؟',
       options: ['1914', '1939', '1945', '1918'],
@@ -467,7 +514,8 @@ export function getSeedData() {
       explanation: 'بدأت الحرب العالمية الثانية في سبتمبر 1939 بغزو ألمانيا لبولندا',
     },
     {
-      lesson_title: 'الحرب العالمية الثانية',
+      id: 'history.world-war-2.2',
+      lesson_id: 'history.world-war-2',
       difficulty: 2,
       question: 'ما هي دول المحور؟',
       options: ['فرنسا، بريطانيا، أمريكا', 'ألمانيا، إيطاليا، اليابان', 'روسيا، الصين، الهند', 'كندا، أستراليا، مصر'],
@@ -475,14 +523,97 @@ export function getSeedData() {
       explanation: 'دول المحور الرئيسية: ألمانيا النازية، إيطاليا الفاشية، اليابان الإمبراطورية',
     },
     {
-      lesson_title: 'الحرب العالمية الثانية',
+      id: 'history.world-war-2.3',
+      lesson_id: 'history.world-war-2',
       difficulty: 2,
       question: 'متى انتهت الحرب العالمية الثانية؟',
       options: ['1943', '1944', '1945', '1946'],
       correct_index: 2,
       explanation: 'انتهت الحرب في 1945: في مايو في أوروبا وسبتمبر في آسيا',
     },
+    // Other exercise types
+    {
+      id: 'math.areas-perimeters.1',
+      lesson_id: 'math.areas-perimeters',
+      difficulty: 1,
+      question: 'مستطيل طوله 8 cm وعرضه 5 cm. احسب مساحته.',
+      payload: { type: 'numeric', value: 40, tolerance: 0, unit: 'cm²' },
+      explanation: 'مساحة المستطيل = الطول × العرض = 8 × 5 = 40 cm²',
+    },
+    {
+      id: 'math.ratios.1',
+      lesson_id: 'math.ratios',
+      difficulty: 2,
+      question: 'ثمن 3 كتب هو 450 دينار. ما ثمن 5 كتب؟',
+      payload: { type: 'numeric', value: 750, tolerance: 0, unit: 'دج' },
+      explanation: 'ثمن الكتاب الواحد = 450 ÷ 3 = 150 دج، إذن 5 × 150 = 750 دج',
+    },
+    {
+      id: 'arabic.verb-tenses.1',
+      lesson_id: 'arabic.verb-tenses',
+      difficulty: 1,
+      question: 'صل كل فعل بزمنه',
+      payload: {
+        type: 'matching',
+        left: ['كَتَبَ', 'يَكْتُبُ', 'اُكْتُبْ'],
+        right: ['ماضٍ', 'مضارع', 'أمر'],
+      },
+      explanation: 'كتب: ماضٍ، يكتب: مضارع، اكتب: أمر',
+    },
+    {
+      id: 'french.verb-tenses.4',
+      lesson_id: 'french.verb-tenses',
+      difficulty: 2,
+      question: 'Complétez avec le verbe "finir" au passé composé',
+      payload: {
+        type: 'fill_blank',
+        text: 'Hier, nous ___ nos devoirs avant le dîner.',
+        blanks: [['avons fini']],
+        case_sensitive: false,
+      },
+      explanation: 'Finir au passé composé avec "nous": nous avons fini',
+    },
+    {
+      id: 'science.respiratory-system.1',
+      lesson_id: 'science.respiratory-system',
+      difficulty: 1,
+      question: 'يتم تبادل الغازات في الحويصلات الرئوية.',
+      payload: { type: 'true_false', correct: true },
+      explanation: 'الحويصلات الرئوية محاطة بشعيرات دموية يتم عبرها تبادل O₂ و CO₂',
+    },
+    {
+      id: 'science.environment.1',
+      lesson_id: 'science.environment',
+      difficulty: 2,
+      question: 'أي مما يلي من مصادر تلوث الهواء؟',
+      payload: {
+        type: 'multi_select',
+        options: ['دخان المصانع', 'عوادم السيارات', 'الطاقة الشمسية', 'حرق النفايات'],
+        correct_indices: [0, 1, 3],
+      },
+      explanation: 'الطاقة الشمسية طاقة نظيفة، أما البقية فتطلق غازات وجسيمات ملوثة',
+    },
+    {
+      id: 'history.revolution-1954.4',
+      lesson_id: 'history.revolution-1954',
+      difficulty: 2,
+      question: 'رتب الأحداث التالية حسب تسلسلها الزمني',
+      payload: {
+        type: 'ordering',
+        items: ['اندلاع الثورة (1954)', 'مؤتمر الصومام (1956)', 'اتفاقيات إيفيان (1962)', 'إعلان الاستقلال (1962)'],
+      },
+      explanation: 'أول نوفمبر 1954، ثم مؤتمر الصومام 20 أوت 1956، ثم اتفاقيات إيفيان مارس 1962، ثم الاستقلال 5 جويلية 1962',
+    },
   ];
 
-  return { subjects, lessons, exercises };
+  return {
+    format: CONTENT_PACK_FORMAT,
+    id: CORE_PACK_ID,
+    version: CORE_PACK_VERSION,
+    title: 'المحتوى الأساسي',
+    description: 'دروس وتمارين شهادة التعليم المتوسط المرفقة مع التطبيق',
+    subjects,
+    lessons,
+    exercises,
+  };
 }
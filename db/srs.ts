@@ -0,0 +1,78 @@
+import { addDays, localDate } from '@/lib/dates';
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+export const PASSING_QUALITY = 3;
+
+export interface SrsState {
+  interval_days: number;
+  ease_factor: number;
+  repetitions: number;
+}
+
+export interface ScheduledReview extends SrsState {
+  next_review_date: string;
+}
+
+export function clampQuality(quality: number): number {
+  return Math.max(0, Math.min(5, Math.round(quality)));
+}
+
+/**
+ * SM-2 step: `quality` is the 0–5 recall grade. A grade below 3 restarts the
+ * repetition count; the ease factor is updated on every review either way.
+ */
+export function scheduleReview(
+  state: SrsState | null,
+  quality: number,
+  today: Date = new Date()
+): ScheduledReview {
+  const q = clampQuality(quality);
+  const previous = state ?? { interval_days: 0, ease_factor: DEFAULT_EASE_FACTOR, repetitions: 0 };
+
+  let repetitions: number;
+  let interval: number;
+
+  if (q >= PASSING_QUALITY) {
+    if (previous.repetitions === 0) {
+      interval = 1;
+    } else if (previous.repetitions === 1) {
+      interval = 6;
+    } else {
+      interval = Math.round(previous.interval_days * previous.ease_factor);
+    }
+    repetitions = previous.repetitions + 1;
+  } else {
+    repetitions = 0;
+    interval = 1;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previous.ease_factor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  );
+
+  return {
+    interval_days: interval,
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    repetitions,
+    next_review_date: localDate(addDays(today, interval)),
+  };
+}
+
+export function qualityFromFocusRating(focusRating: number): number {
+  return clampQuality(focusRating);
+}
+
+export function qualityFromAttempt(isCorrect: boolean): number {
+  return isCorrect ? 4 : 1;
+}
+
+export function qualityFromAccuracy(accuracy: number): number {
+  if (accuracy >= 90) return 5;
+  if (accuracy >= 75) return 4;
+  if (accuracy >= 60) return 3;
+  if (accuracy >= 40) return 2;
+  if (accuracy >= 20) return 1;
+  return 0;
+}
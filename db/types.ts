@@ -1,7 +1,11 @@
+import type { ExerciseAnswer, ExerciseType } from '@shared/exercise';
+
 export interface Subject {
   id: number;
   name: string;
   color: string;
+  content_id: string | null;
+  pack_id: string | null;
 }
 
 export interface Lesson {
@@ -12,6 +16,8 @@ export interface Lesson {
   importance_points: string;
   common_mistakes: string;
   is_completed: number;
+  content_id: string | null;
+  pack_id: string | null;
 }
 
 export interface StudySession {
@@ -23,6 +29,12 @@ export interface StudySession {
   duration_minutes: number;
   focus_rating: number;
   notes: string;
+  is_rated: number;
+}
+
+export interface UnratedStudySession extends StudySession {
+  subject_name: string;
+  lesson_title: string | null;
 }
 
 export interface Exercise {
@@ -33,6 +45,10 @@ export interface Exercise {
   options_json: string;
   correct_index: number;
   explanation: string;
+  type: ExerciseType;
+  payload_json: string | null;
+  content_id: string | null;
+  pack_id: string | null;
 }
 
 export interface Attempt {
@@ -42,6 +58,7 @@ export interface Attempt {
   is_correct: number;
   time_spent_seconds: number;
   created_at: string;
+  answer_json: string | null;
 }
 
 export interface ReviewQueue {
@@ -51,6 +68,16 @@ export interface ReviewQueue {
   interval_days: number;
   ease_factor: number;
   last_result: number;
+  repetitions: number;
+}
+
+export interface ReviewLog {
+  id: number;
+  lesson_id: number;
+  quality: number;
+  interval_days: number;
+  ease_factor: number;
+  reviewed_at: string;
 }
 
 export interface Settings {
@@ -59,14 +86,51 @@ export interface Settings {
   daily_minutes_goal: number;
   pomodoro_work: number;
   pomodoro_break: number;
+  pomodoro_long_break: number;
+  pomodoro_cycles: number;
+  auto_start_breaks: number;
+  auto_start_work: number;
+  notifications_enabled: number;
+  // JSON array of "HH:MM" daily reminder times.
+  reminder_times_json: string;
+  goal_nudge_enabled: number;
+  goal_nudge_time: string;
+  review_alerts_enabled: number;
+  exam_countdown_enabled: number;
   onboarding_complete: number;
 }
 
+export interface DueReviewDay {
+  date: string;
+  count: number;
+}
+
+export interface ExerciseCard {
+  id: number;
+  exercise_id: number;
+  next_review_date: string;
+  interval_days: number;
+  ease_factor: number;
+  repetitions: number;
+  last_quality: number;
+  created_at: string;
+}
+
+export interface LessonResult {
+  lesson_id: number;
+  is_correct: boolean;
+}
+
 export interface LessonWithSubject extends Lesson {
   subject_name: string;
   subject_color: string;
 }
 
+export interface ExerciseWithSubject extends Exercise {
+  subject_id: number;
+  subject_name: string;
+}
+
 export interface ExerciseWithOptions extends Exercise {
   options: string[];
 }
@@ -101,3 +165,151 @@ export interface WeakLesson {
   days_since_review: number;
   priority_score: number;
 }
+
+export interface ReviewForecast {
+  lessons: number;
+  exercises: number;
+}
+
+export type PlanItemKind = 'lesson' | 'review' | 'revision';
+
+export type PlanItemStatus = 'pending' | 'done';
+
+export interface PlanItem {
+  id: number;
+  plan_date: string;
+  lesson_id: number;
+  kind: PlanItemKind;
+  minutes: number;
+  position: number;
+  status: PlanItemStatus;
+  rolled_over: number;
+  created_at: string;
+}
+
+export interface PlanItemWithLesson extends PlanItem {
+  lesson_title: string;
+  subject_name: string;
+  subject_color: string;
+}
+
+export interface MockExam {
+  id: number;
+  blueprint_id: string;
+  started_at: string;
+  finished_at: string;
+  duration_seconds: number;
+  overall_grade: number;
+  correct: number;
+  total: number;
+  subject_scores_json: string;
+}
+
+export interface MockExamAnswer {
+  id: number;
+  mock_exam_id: number;
+  exercise_id: number;
+  position: number;
+  chosen_index: number | null;
+  is_correct: number;
+  time_spent_seconds: number;
+  answer_json: string | null;
+}
+
+export interface MockExamAnswerWithExercise extends ExerciseWithSubject {
+  position: number;
+  chosen_index: number | null;
+  answer_json: string | null;
+  time_spent_seconds: number;
+}
+
+export type ActiveSessionKind = 'mock' | 'quiz';
+
+export interface ActiveSession {
+  kind: ActiveSessionKind;
+  payload_json: string;
+  started_at: string;
+  deadline_at: string | null;
+  updated_at: string;
+}
+
+export interface MockCheckpoint {
+  blueprint_id: string;
+  exercise_ids: number[];
+  answers: (ExerciseAnswer | null)[];
+  current_index: number;
+  question_times_ms: number[];
+}
+
+export interface QuizCheckpoint {
+  exercise_ids: number[];
+  current_index: number;
+  correct_count: number;
+  results: LessonResult[];
+  is_due_source: boolean;
+}
+
+// A stopwatch counts up from phase_started_at and has no end.
+export type TimerPhase = 'work' | 'break' | 'long_break' | 'stopwatch';
+
+export interface ActiveTimer {
+  id: number;
+  phase: TimerPhase;
+  subject_id: number;
+  lesson_id: number | null;
+  phase_minutes: number;
+  phase_started_at: string;
+  phase_ends_at: string;
+  paused_remaining_seconds: number | null;
+  completed_sessions: number;
+  updated_at: string;
+}
+
+export type TimerDraft = Omit<ActiveTimer, 'id' | 'updated_at'>;
+
+export interface InstalledContentPack {
+  id: string;
+  version: number;
+  title: string;
+  description: string;
+  subject_count: number;
+  lesson_count: number;
+  exercise_count: number;
+  installed_at: string;
+  updated_at: string;
+}
+
+export interface ContentPackDiff {
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+export type AnswerLang = 'ar' | 'fr';
+
+export interface StudyDocument {
+  id: number;
+  filename: string;
+  // Copy of the PDF inside the app's document directory.
+  local_uri: string;
+  text: string;
+  pages: number | null;
+  // The server's ID for the same file, so questions don't resend the text.
+  remote_id: string | null;
+  created_at: string;
+}
+
+export type DocumentSummary = Omit<StudyDocument, 'text'> & { message_count: number };
+
+export type DocumentMessageRole = 'user' | 'assistant';
+
+export interface DocumentMessage {
+  id: number;
+  document_id: number;
+  role: DocumentMessageRole;
+  content: string;
+  lang: AnswerLang;
+  // Pages the answer was drawn from (assistant messages only).
+  pages_json: string;
+  created_at: string;
+}
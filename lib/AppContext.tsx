@@ -10,12 +10,18 @@ import {
   getRecommendedLessons,
   getTodayStudyMinutes,
   resetDatabase,
+  regenerateStudyPlan,
+  settleActiveTimer,
 } from '@/db/database';
+import { MigrationError } from '@/db/migrations';
+import { configureNotifications, rescheduleNotifications } from '@/lib/notifications';
+import { localDate, parseLocalDate } from '@/lib/dates';
 import type { Settings, Subject, Lesson, SubjectProgress, WeakLesson } from '@/db/types';
 
 interface AppContextValue {
   isLoading: boolean;
   isInitialized: boolean;
+  databaseError: string | null;
   settings: Settings | null;
   subjects: Subject[];
   subjectProgress: SubjectProgress[];
@@ -32,6 +38,7 @@ const AppContext = createContext<AppContextValue | null>(null);
 export function AppProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [databaseError, setDatabaseError] = useState<string | null>(null);
   const [settings, setSettings] = useState<Settings | null>(null);
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [subjectProgress, setSubjectProgress] = useState<SubjectProgress[]>([]);
@@ -40,20 +47,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   const daysUntilExam = useMemo(() => {
     if (!settings?.exam_date) return 0;
-    const examDate = new Date(settings.exam_date);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    examDate.setHours(0, 0, 0, 0);
+    const examDate = parseLocalDate(settings.exam_date);
+    const today = parseLocalDate(localDate());
     const diffTime = examDate.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
     return Math.max(0, diffDays);
   }, [settings?.exam_date]);
 
   const initializeApp = async () => {
     try {
       setIsLoading(true);
+      setDatabaseError(null);
       await initDatabase();
       await seedDatabase();
+      await settleActiveTimer();
       
       const appSettings = await getSettings();
       setSettings(appSettings);
@@ -70,8 +77,14 @@ export function AppProvider({ children }: { children: ReactNode }) {
       
       const minutes = await getTodayStudyMinutes();
       setTodayMinutes(minutes);
+
+      await configureNotifications();
+      rescheduleNotifications().catch((error) => console.error('Error scheduling notifications:', error));
     } catch (error) {
       console.error('Error initializing app:', error);
+      if (error instanceof MigrationError) {
+        setDatabaseError(error.message);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -79,6 +92,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   const refreshData = async () => {
     try {
+      // A Pomodoro that finished while the timer screen was closed is saved here.
+      await settleActiveTimer();
+
       const appSettings = await getSettings();
       setSettings(appSettings);
       setIsInitialized(appSettings?.onboarding_complete === 1);
@@ -94,6 +110,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
       
       const minutes = await getTodayStudyMinutes();
       setTodayMinutes(minutes);
+
+      // Study time and review dates change what today's nudges should say.
+      rescheduleNotifications().catch((error) => console.error('Error scheduling notifications:', error));
     } catch (error) {
       console.error('Error refreshing data:', error);
     }
@@ -104,9 +123,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
       await updateSettings(newSettings);
       const updated = await getSettings();
       setSettings(updated);
+      if (newSettings.exam_date !== undefined || newSettings.daily_minutes_goal !== undefined) {
+        await regenerateStudyPlan();
+      }
       if (newSettings.onboarding_complete !== undefined) {
         setIsInitialized(updated?.onboarding_complete === 1);
       }
+      rescheduleNotifications().catch((error) => console.error('Error scheduling notifications:', error));
     } catch (error) {
       console.error('Error updating settings:', error);
     }
@@ -132,6 +155,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     () => ({
       isLoading,
       isInitialized,
+      databaseError,
       settings,
       subjects,
       subjectProgress,
@@ -145,6 +169,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     [
       isLoading,
       isInitialized,
+      databaseError,
       settings,
       subjects,
       subjectProgress,
@@ -0,0 +1,65 @@
+import { apiRequest } from '@/lib/query-client';
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+// The session lives in an HttpOnly cookie that apiRequest sends with
+// `credentials: 'include'`, so nothing is kept on the device here.
+
+function statusOf(error: unknown): string | null {
+  const match = error instanceof Error ? error.message.match(/^(\d{3}):/) : null;
+  return match ? match[1] : null;
+}
+
+/** The signed-in user, or `null` when there is no valid session. */
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  try {
+    const res = await apiRequest('GET', '/api/auth/me');
+    return ((await res.json()) as { user: AuthUser }).user;
+  } catch (error) {
+    if (statusOf(error) === '401') return null;
+    throw error;
+  }
+}
+
+async function authenticate(route: string, username: string, password: string): Promise<AuthUser> {
+  try {
+    const res = await apiRequest('POST', route, { username: username.trim(), password });
+    return ((await res.json()) as { user: AuthUser }).user;
+  } catch (error) {
+    console.error('Error authenticating:', error);
+    switch (statusOf(error)) {
+      case '400':
+        throw new AuthError('اسم المستخدم من 3 إلى 32 حرفاً لاتينياً أو رقماً، وكلمة المرور 8 أحرف على الأقل.');
+      case '401':
+        throw new AuthError('اسم المستخدم أو كلمة المرور غير صحيحة.');
+      case '409':
+        throw new AuthError('اسم المستخدم محجوز، اختر اسماً آخر.');
+      case null:
+        throw new AuthError('تعذر الاتصال بالخادم. تحقق من اتصالك بالإنترنت.');
+      default:
+        throw new AuthError('حدث خطأ، أعد المحاولة.');
+    }
+  }
+}
+
+export function signIn(username: string, password: string): Promise<AuthUser> {
+  return authenticate('/api/auth/login', username, password);
+}
+
+export function signUp(username: string, password: string): Promise<AuthUser> {
+  return authenticate('/api/auth/register', username, password);
+}
+
+export async function signOut(): Promise<void> {
+  await apiRequest('POST', '/api/auth/logout');
+}
@@ -0,0 +1,246 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { z } from 'zod';
+import { exportBackupData } from '@/db/database';
+
+export const BACKUP_FORMAT = 'brevti-backup';
+export const BACKUP_VERSION = 2;
+
+export type BackupImportMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const settingsSchema = z.object({
+  exam_date: z.string().nullable(),
+  daily_minutes_goal: z.number(),
+  pomodoro_work: z.number(),
+  pomodoro_break: z.number(),
+  pomodoro_long_break: z.number(),
+  pomodoro_cycles: z.number(),
+  auto_start_breaks: z.number(),
+  auto_start_work: z.number(),
+  notifications_enabled: z.number(),
+  reminder_times_json: z.string(),
+  goal_nudge_enabled: z.number(),
+  goal_nudge_time: z.string(),
+  review_alerts_enabled: z.number(),
+  exam_countdown_enabled: z.number(),
+});
+
+// Rows carry both the local numeric ID and the stable content ID; the content
+// ID wins on import because numeric IDs differ between installs.
+const contentIdSchema = z.string().nullable();
+
+const lessonRefSchema = z.object({
+  id: z.number().int(),
+  content_id: contentIdSchema,
+});
+
+const studySessionSchema = z.object({
+  subject_id: z.number().int(),
+  subject_content_id: contentIdSchema,
+  lesson_id: z.number().int().nullable(),
+  lesson_content_id: contentIdSchema,
+  start_time: z.string(),
+  end_time: z.string(),
+  duration_minutes: z.number(),
+  focus_rating: z.number(),
+  notes: z.string(),
+  is_rated: z.number(),
+});
+
+const attemptSchema = z.object({
+  exercise_id: z.number().int(),
+  exercise_content_id: contentIdSchema,
+  chosen_index: z.number().int(),
+  is_correct: z.number(),
+  time_spent_seconds: z.number(),
+  created_at: z.string(),
+  answer_json: z.string().nullable(),
+});
+
+const reviewQueueSchema = z.object({
+  lesson_id: z.number().int(),
+  lesson_content_id: contentIdSchema,
+  next_review_date: z.string(),
+  interval_days: z.number(),
+  ease_factor: z.number(),
+  last_result: z.number(),
+  repetitions: z.number(),
+});
+
+const exerciseCardSchema = z.object({
+  exercise_id: z.number().int(),
+  exercise_content_id: contentIdSchema,
+  next_review_date: z.string(),
+  interval_days: z.number(),
+  ease_factor: z.number(),
+  repetitions: z.number(),
+  last_quality: z.number(),
+  created_at: z.string(),
+});
+
+const reviewLogSchema = z.object({
+  lesson_id: z.number().int(),
+  lesson_content_id: contentIdSchema,
+  quality: z.number(),
+  interval_days: z.number(),
+  ease_factor: z.number(),
+  reviewed_at: z.string(),
+});
+
+const mockExamAnswerSchema = z.object({
+  exercise_id: z.number().int(),
+  exercise_content_id: contentIdSchema,
+  position: z.number().int(),
+  chosen_index: z.number().int().nullable(),
+  is_correct: z.number(),
+  time_spent_seconds: z.number(),
+  answer_json: z.string().nullable(),
+});
+
+const mockExamSchema = z.object({
+  blueprint_id: z.string(),
+  started_at: z.string(),
+  finished_at: z.string(),
+  duration_seconds: z.number(),
+  overall_grade: z.number(),
+  correct: z.number(),
+  total: z.number(),
+  subject_scores_json: z.string(),
+  answers: z.array(mockExamAnswerSchema),
+});
+
+// Only finished plan items; pending ones are regenerated after an import.
+const planItemSchema = z.object({
+  lesson_id: z.number().int(),
+  lesson_content_id: contentIdSchema,
+  plan_date: z.string(),
+  kind: z.enum(['lesson', 'review', 'revision']),
+  minutes: z.number(),
+  position: z.number(),
+  rolled_over: z.number(),
+  created_at: z.string(),
+});
+
+export const backupDocumentSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exported_at: z.string(),
+  settings: settingsSchema,
+  completed_lessons: z.array(lessonRefSchema),
+  study_sessions: z.array(studySessionSchema),
+  attempts: z.array(attemptSchema),
+  review_queue: z.array(reviewQueueSchema),
+  exercise_cards: z.array(exerciseCardSchema),
+  review_log: z.array(reviewLogSchema),
+  mock_exams: z.array(mockExamSchema),
+  plan_items: z.array(planItemSchema),
+});
+
+export type BackupDocument = z.infer<typeof backupDocumentSchema>;
+export type BackupData = Omit<BackupDocument, 'format' | 'version' | 'exported_at'>;
+
+type RawDocument = Record<string, unknown>;
+type RawRow = Record<string, unknown>;
+
+const withNullFields = (rows: unknown, fields: string[]) =>
+  Array.isArray(rows)
+    ? rows.map((row: RawRow) => ({ ...Object.fromEntries(fields.map((f) => [f, null])), ...row }))
+    : rows;
+
+// Each entry upgrades a document from `version` to `version + 1`.
+const BACKUP_UPGRADES: Record<number, (document: RawDocument) => RawDocument> = {
+  // v1 predates content IDs, so it only knows local numeric IDs, and it left
+  // out card schedules, the review log, mock exams and the plan.
+  1: ({ completed_lesson_ids, ...document }) => ({
+    ...document,
+    completed_lessons: Array.isArray(completed_lesson_ids)
+      ? completed_lesson_ids.map((id) => ({ id, content_id: null }))
+      : completed_lesson_ids,
+    study_sessions: withNullFields(document.study_sessions, ['subject_content_id', 'lesson_content_id']),
+    attempts: withNullFields(document.attempts, ['exercise_content_id']),
+    review_queue: withNullFields(document.review_queue, ['lesson_content_id']),
+    exercise_cards: [],
+    review_log: [],
+    mock_exams: [],
+    plan_items: [],
+  }),
+};
+
+/** Parses a backup file, upgrading documents written by older app versions. */
+export function parseBackup(json: string): BackupDocument {
+  let document: RawDocument;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new BackupError('الملف ليس نسخة احتياطية صالحة.');
+  }
+
+  if (document?.format !== BACKUP_FORMAT || typeof document.version !== 'number') {
+    throw new BackupError('الملف ليس نسخة احتياطية من هذا التطبيق.');
+  }
+  if (document.version > BACKUP_VERSION) {
+    throw new BackupError('هذه النسخة الاحتياطية من إصدار أحدث من التطبيق. حدّث التطبيق أولاً.');
+  }
+
+  while ((document.version as number) < BACKUP_VERSION) {
+    const upgrade = BACKUP_UPGRADES[document.version as number];
+    if (!upgrade) {
+      throw new BackupError(`لا يمكن قراءة النسخة الاحتياطية (الإصدار ${document.version}).`);
+    }
+    document = { ...upgrade(document), version: (document.version as number) + 1 };
+  }
+
+  const result = backupDocumentSchema.safeParse(document);
+  if (!result.success) {
+    throw new BackupError('النسخة الاحتياطية تالفة أو ناقصة.');
+  }
+  return result.data;
+}
+
+export async function createBackup(): Promise<BackupDocument> {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    ...(await exportBackupData()),
+  };
+}
+
+/** Writes a backup to the cache directory and opens the share sheet for it. */
+export async function shareBackup(): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new BackupError('المشاركة غير متاحة على هذا الجهاز.');
+  }
+
+  const backup = await createBackup();
+  const file = new File(Paths.cache, `brevti-backup-${backup.exported_at.split('T')[0]}.json`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(JSON.stringify(backup));
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    dialogTitle: 'حفظ النسخة الاحتياطية',
+    UTI: 'public.json',
+  });
+}
+
+/** Lets the student pick a backup file; `null` when the picker was cancelled. */
+export async function pickBackup(): Promise<BackupDocument | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const text = await new File(result.assets[0].uri).text();
+  return parseBackup(text);
+}
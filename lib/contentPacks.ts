@@ -0,0 +1,82 @@
+import { File } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { contentPackSchema, CONTENT_PACK_FORMAT, type ContentPack } from '@shared/contentPack';
+import {
+  getContentPack,
+  getInstalledContentIds,
+  installContentPack,
+  regenerateStudyPlan,
+} from '@/db/database';
+
+export type ContentPackInstallResult = 'installed' | 'updated';
+
+export class ContentPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentPackError';
+  }
+}
+
+export function parseContentPack(json: string): ContentPack {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new ContentPackError('الملف ليس حزمة محتوى صالحة.');
+  }
+
+  if ((document as { format?: unknown } | null)?.format !== CONTENT_PACK_FORMAT) {
+    throw new ContentPackError('الملف ليس حزمة محتوى من هذا التطبيق.');
+  }
+
+  const result = contentPackSchema.safeParse(document);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ContentPackError(`الحزمة غير صالحة: ${issue.path.join('.')} ${issue.message}`);
+  }
+  return result.data;
+}
+
+/** Lets the student pick a pack file; `null` when the picker was cancelled. */
+export async function pickContentPack(): Promise<ContentPack | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const text = await new File(result.assets[0].uri).text();
+  return parseContentPack(text);
+}
+
+/**
+ * Installs or updates a pack. Lessons and exercises may point at subjects and
+ * lessons from other installed packs, so references are checked against the
+ * database before anything is written.
+ */
+export async function importContentPack(pack: ContentPack): Promise<ContentPackInstallResult> {
+  const installed = await getContentPack(pack.id);
+  if (installed && installed.version > pack.version) {
+    throw new ContentPackError(
+      `الإصدار ${installed.version} من هذه الحزمة مثبت بالفعل، وهو أحدث من الإصدار ${pack.version}.`
+    );
+  }
+
+  const subjectIds = new Set([...pack.subjects.map((s) => s.id), ...(await getInstalledContentIds('subjects'))]);
+  const missingSubject = pack.lessons.find((l) => !subjectIds.has(l.subject_id));
+  if (missingSubject) {
+    throw new ContentPackError(`الدرس "${missingSubject.title}" يشير إلى مادة غير موجودة (${missingSubject.subject_id}).`);
+  }
+
+  const lessonIds = new Set([...pack.lessons.map((l) => l.id), ...(await getInstalledContentIds('lessons'))]);
+  const missingLesson = pack.exercises.find((e) => !lessonIds.has(e.lesson_id));
+  if (missingLesson) {
+    throw new ContentPackError(`التمرين "${missingLesson.id}" يشير إلى درس غير موجود (${missingLesson.lesson_id}).`);
+  }
+
+  await installContentPack(pack);
+  if (pack.lessons.length > 0) {
+    await regenerateStudyPlan();
+  }
+  return installed ? 'updated' : 'installed';
+}
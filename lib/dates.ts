@@ -0,0 +1,21 @@
+// Study days are the student's local calendar days, stored as "YYYY-MM-DD".
+// `toISOString()` would give the UTC day, which is off by one for part of the
+// day anywhere east or west of UTC.
+
+export function localDate(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Local midnight of a "YYYY-MM-DD" day (`new Date(day)` would be UTC). */
+export function parseLocalDate(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
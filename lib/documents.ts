@@ -0,0 +1,215 @@
+import { Platform } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { apiRequest } from '@/lib/query-client';
+import { readServerSentEvents } from '@/lib/sse';
+import { addDocumentMessage, createDocument, deleteDocument } from '@/db/database';
+import type { AnswerLang, DocumentMessage, StudyDocument } from '@/db/types';
+
+export class DocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+interface ExtractResponse {
+  // sha256 of the file; the server keeps the text under this ID.
+  id: string;
+  filename: string;
+  pages: number | null;
+  text: string;
+  // Scanned PDFs are read by OCR, with a 0-100 confidence per page.
+  ocr: boolean;
+  confidence?: { page: number; confidence: number | null }[];
+  // Long scans are only read up to a page limit.
+  ocrPages?: number;
+}
+
+export interface ImportedDocument {
+  id: number;
+  // Lowest OCR page confidence, or null when the PDF had a text layer.
+  ocrConfidence: number | null;
+  // Set when OCR stopped before the last page: pages read out of the total.
+  ocrTruncated: { read: number; total: number } | null;
+}
+
+export interface DocumentAnswer {
+  answer: string;
+  pages: number[];
+}
+
+const DOCUMENTS_DIRECTORY = 'documents';
+
+/**
+ * apiRequest throws `<status>: <body>`; the server's JSON `message` is more
+ * useful to show than the raw body, and a missing status means no response.
+ */
+function describeRequestError(error: unknown, fallback: string): string {
+  const match = error instanceof Error ? error.message.match(/^(\d{3}): ([\s\S]*)$/) : null;
+  if (!match) return 'تعذر الاتصال بالخادم. تحقق من اتصالك بالإنترنت.';
+  if (match[1] === '401') return 'انتهت جلستك. سجّل الدخول من قائمة المستندات ثم أعد المحاولة.';
+  if (match[1] === '429') return 'الخادم مشغول حالياً. أعد المحاولة بعد قليل.';
+  if (match[1] === '504') return 'استغرق الخادم وقتاً طويلاً في الرد. أعد المحاولة.';
+
+  if (match[1] === '422') {
+    try {
+      const body = JSON.parse(match[2]) as { message?: string };
+      if (body.message) return `${fallback}: ${body.message}`;
+    } catch {
+      // Fall through to the generic message.
+    }
+  }
+  return fallback;
+}
+
+// The picker's cache copy can be evicted, so native keeps its own copy.
+// Web has no persistent file system and keeps the picker's URI.
+function storePdf(asset: DocumentPicker.DocumentPickerAsset): string {
+  if (Platform.OS === 'web') return asset.uri;
+
+  const directory = new Directory(Paths.document, DOCUMENTS_DIRECTORY);
+  if (!directory.exists) directory.create({ intermediates: true });
+
+  const stored = new File(directory, `${Date.now()}-${asset.name}`);
+  new File(asset.uri).copy(stored);
+  return stored.uri;
+}
+
+async function extractText(asset: DocumentPicker.DocumentPickerAsset): Promise<ExtractResponse> {
+  const form = new FormData();
+  if (asset.file) {
+    form.append('file', asset.file, asset.name);
+  } else {
+    // expo/fetch streams expo-file-system files like Blobs.
+    form.append('file', new File(asset.uri) as unknown as Blob, asset.name);
+  }
+
+  try {
+    const res = await apiRequest('POST', '/api/pdf/extract', form);
+    return (await res.json()) as ExtractResponse;
+  } catch (error) {
+    console.error('Error extracting PDF text:', error);
+    throw new DocumentError(describeRequestError(error, 'تعذر استخراج النص من الملف'));
+  }
+}
+
+/**
+ * Lets the student pick a PDF, uploads it for text extraction and stores the
+ * file and its text locally. Resolves to `null` when the picker was
+ * cancelled.
+ */
+export async function importDocument(): Promise<ImportedDocument | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: 'application/pdf',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const extracted = await extractText(asset);
+
+  const id = await createDocument({
+    filename: asset.name,
+    local_uri: storePdf(asset),
+    text: extracted.text,
+    pages: extracted.pages,
+    remote_id: extracted.id,
+  });
+
+  const confidences = (extracted.confidence ?? [])
+    .map((c) => c.confidence)
+    .filter((c): c is number => c !== null);
+  return {
+    id,
+    ocrConfidence: extracted.ocr && confidences.length > 0 ? Math.min(...confidences) : null,
+    ocrTruncated:
+      extracted.ocrPages !== undefined && extracted.pages !== null && extracted.ocrPages < extracted.pages
+        ? { read: extracted.ocrPages, total: extracted.pages }
+        : null,
+  };
+}
+
+export async function removeDocument(document: Pick<StudyDocument, 'id' | 'local_uri'>): Promise<void> {
+  if (Platform.OS !== 'web') {
+    const file = new File(document.local_uri);
+    if (file.exists) file.delete();
+  }
+  await deleteDocument(document.id);
+}
+
+export function getMessagePages(message: DocumentMessage): number[] {
+  try {
+    return JSON.parse(message.pages_json) as number[];
+  } catch {
+    return [];
+  }
+}
+
+// The server's copy may be gone (deleted, or a fresh server), in which case
+// the locally kept text is sent instead.
+async function requestAnswer(
+  document: Pick<StudyDocument, 'text' | 'remote_id'>,
+  question: string,
+  lang: AnswerLang
+): Promise<Response> {
+  if (document.remote_id) {
+    try {
+      return await apiRequest('POST', '/api/pdf/qa/stream', {
+        question,
+        documentId: document.remote_id,
+        answerLang: lang,
+      });
+    } catch (error) {
+      if (!(error instanceof Error && error.message.startsWith('404:'))) throw error;
+    }
+  }
+  return apiRequest('POST', '/api/pdf/qa/stream', {
+    question,
+    contextText: document.text,
+    answerLang: lang,
+  });
+}
+
+/**
+ * Asks the server about the document's text, reporting the answer so far
+ * through `onText` as it streams in. The exchange is only saved once the
+ * answer is complete, so a failed request leaves the history unchanged.
+ */
+export async function askDocument(
+  document: Pick<StudyDocument, 'id' | 'text' | 'remote_id'>,
+  question: string,
+  lang: AnswerLang,
+  onText: (answer: string) => void
+): Promise<DocumentAnswer> {
+  let answer = '';
+  let pages: number[] | null = null;
+  try {
+    const res = await requestAnswer(document, question, lang);
+
+    for await (const event of readServerSentEvents(res)) {
+      const data = JSON.parse(event.data);
+      if (event.event === 'token') {
+        answer += data.text;
+        onText(answer);
+      } else if (event.event === 'done') {
+        pages = data.pages;
+      } else if (event.event === 'error') {
+        throw new DocumentError('توقفت الإجابة قبل اكتمالها. أعد المحاولة.');
+      }
+    }
+  } catch (error) {
+    console.error('Error asking document:', error);
+    if (error instanceof DocumentError) throw error;
+    throw new DocumentError(describeRequestError(error, 'تعذر الحصول على إجابة'));
+  }
+
+  // A stream cut off before `done` holds a partial answer; don't keep it.
+  if (pages === null) {
+    throw new DocumentError('انقطع الاتصال قبل اكتمال الإجابة.');
+  }
+
+  await addDocumentMessage(document.id, 'user', question, lang);
+  await addDocumentMessage(document.id, 'assistant', answer, lang, pages);
+  return { answer, pages };
+}
@@ -0,0 +1,131 @@
+export type Difficulty = 1 | 2 | 3;
+
+export type DifficultyMix = Record<Difficulty, number>;
+
+export interface BlueprintSubject {
+  subject_name: string;
+  questions: number;
+  coefficient: number;
+}
+
+export interface ExamBlueprint {
+  id: string;
+  title: string;
+  description: string;
+  duration_minutes: number;
+  difficulty_mix: DifficultyMix;
+  subjects: BlueprintSubject[];
+}
+
+export interface SubjectScore {
+  subject_name: string;
+  coefficient: number;
+  correct: number;
+  total: number;
+  grade: number;
+}
+
+export interface MockExamScore {
+  subjects: SubjectScore[];
+  overall: number;
+  correct: number;
+  total: number;
+}
+
+const BREVET_DIFFICULTY_MIX: DifficultyMix = { 1: 0.3, 2: 0.5, 3: 0.2 };
+
+// Coefficients follow the Brevet grid for the subjects covered by the app.
+export const EXAM_BLUEPRINTS: ExamBlueprint[] = [
+  {
+    id: 'brevet_full',
+    title: 'امتحان البروفيه الكامل',
+    description: 'كل المواد بمعاملاتها الرسمية',
+    duration_minutes: 60,
+    difficulty_mix: BREVET_DIFFICULTY_MIX,
+    subjects: [
+      { subject_name: 'الرياضيات', questions: 8, coefficient: 4 },
+      { subject_name: 'اللغة العربية', questions: 6, coefficient: 5 },
+      { subject_name: 'اللغة الفرنسية', questions: 6, coefficient: 3 },
+      { subject_name: 'العلوم الطبيعية', questions: 5, coefficient: 2 },
+      { subject_name: 'التاريخ والجغرافيا', questions: 5, coefficient: 3 },
+    ],
+  },
+  {
+    id: 'brevet_short',
+    title: 'امتحان مصغر',
+    description: 'نسخة قصيرة بنفس المعاملات',
+    duration_minutes: 20,
+    difficulty_mix: BREVET_DIFFICULTY_MIX,
+    subjects: [
+      { subject_name: 'الرياضيات', questions: 3, coefficient: 4 },
+      { subject_name: 'اللغة العربية', questions: 3, coefficient: 5 },
+      { subject_name: 'اللغة الفرنسية', questions: 3, coefficient: 3 },
+      { subject_name: 'العلوم الطبيعية', questions: 3, coefficient: 2 },
+      { subject_name: 'التاريخ والجغرافيا', questions: 3, coefficient: 3 },
+    ],
+  },
+];
+
+export function getBlueprint(id: string): ExamBlueprint | undefined {
+  return EXAM_BLUEPRINTS.find((b) => b.id === id);
+}
+
+export function getBlueprintQuestionCount(blueprint: ExamBlueprint): number {
+  return blueprint.subjects.reduce((sum, s) => sum + s.questions, 0);
+}
+
+/** Splits `questions` across difficulties using largest remainders so the counts always add up. */
+export function allocateDifficulties(questions: number, mix: DifficultyMix): Record<Difficulty, number> {
+  const levels: Difficulty[] = [1, 2, 3];
+  const totalWeight = levels.reduce((sum, d) => sum + mix[d], 0) || 1;
+  const exact = levels.map((d) => (questions * mix[d]) / totalWeight);
+  const counts = exact.map(Math.floor);
+  let remaining = questions - counts.reduce((a, b) => a + b, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of order) {
+    if (remaining <= 0) break;
+    counts[index]++;
+    remaining--;
+  }
+
+  return { 1: counts[0], 2: counts[1], 3: counts[2] };
+}
+
+function toTwenty(correct: number, total: number): number {
+  if (total === 0) return 0;
+  return Math.round((correct / total) * 20 * 100) / 100;
+}
+
+export function scoreMockExam(
+  blueprint: ExamBlueprint,
+  results: { subject_name: string; is_correct: boolean }[]
+): MockExamScore {
+  const subjects: SubjectScore[] = blueprint.subjects
+    .map((subject) => {
+      const subjectResults = results.filter((r) => r.subject_name === subject.subject_name);
+      const correct = subjectResults.filter((r) => r.is_correct).length;
+      return {
+        subject_name: subject.subject_name,
+        coefficient: subject.coefficient,
+        correct,
+        total: subjectResults.length,
+        grade: toTwenty(correct, subjectResults.length),
+      };
+    })
+    .filter((s) => s.total > 0);
+
+  const weightSum = subjects.reduce((sum, s) => sum + s.coefficient, 0);
+  const overall = weightSum > 0
+    ? Math.round((subjects.reduce((sum, s) => sum + s.grade * s.coefficient, 0) / weightSum) * 100) / 100
+    : 0;
+
+  return {
+    subjects,
+    overall,
+    correct: subjects.reduce((sum, s) => sum + s.correct, 0),
+    total: subjects.reduce((sum, s) => sum + s.total, 0),
+  };
+}
@@ -0,0 +1,209 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { getSettings, getTodayStudyMinutes, getDueReviewDays } from '@/db/database';
+import type { Settings, DueReviewDay } from '@/db/types';
+import { addDays, localDate } from '@/lib/dates';
+
+const CHANNEL_ID = 'study-reminders';
+// Nudges and review alerts are planned this many days ahead; every reschedule
+// (app start, finished session, settings change) moves the window forward.
+const PLAN_DAYS = 7;
+const EXAM_MILESTONES = [30, 7, 1];
+const MILESTONE_TIME = '09:00';
+const DEFAULT_REVIEW_TIME = '08:00';
+
+type PlannedTrigger =
+  | { type: 'daily'; hour: number; minute: number }
+  | { type: 'date'; date: Date };
+
+export interface PlannedNotification {
+  id: string;
+  title: string;
+  body: string;
+  trigger: PlannedTrigger;
+}
+
+export interface NotificationInputs {
+  settings: Settings;
+  todayMinutes: number;
+  dueReviews: DueReviewDay[];
+  now: Date;
+}
+
+export function parseReminderTimes(settings: Settings | null): string[] {
+  try {
+    const times = JSON.parse(settings?.reminder_times_json || '[]');
+    return Array.isArray(times) ? times.filter((t) => /^\d{2}:\d{2}$/.test(t)).sort() : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseTime(time: string): { hour: number; minute: number } {
+  const [hour, minute] = time.split(':').map(Number);
+  return { hour, minute };
+}
+
+/** `date` is a local "YYYY-MM-DD" day; the result is that day at `time`. */
+function atTime(date: string, time: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const { hour, minute } = parseTime(time);
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+/**
+ * Works out every notification that should be pending right now. Local
+ * notifications cannot check anything when they fire, so the goal nudge is
+ * only planned for today if the goal is still unmet; later days have no study
+ * yet by definition and are dropped by the next reschedule once they do.
+ */
+export function buildNotificationPlan({ settings, todayMinutes, dueReviews, now }: NotificationInputs): PlannedNotification[] {
+  if (settings.notifications_enabled !== 1) return [];
+
+  const plan: PlannedNotification[] = [];
+  const reminderTimes = parseReminderTimes(settings);
+  const goal = settings.daily_minutes_goal;
+
+  for (const time of reminderTimes) {
+    plan.push({
+      id: `reminder-${time}`,
+      title: 'حان وقت الدراسة',
+      body: `هدفك اليوم ${goal} دقيقة. ابدأ جلسة تركيز الآن!`,
+      trigger: { type: 'daily', ...parseTime(time) },
+    });
+  }
+
+  if (settings.goal_nudge_enabled === 1) {
+    for (let offset = 0; offset < PLAN_DAYS; offset++) {
+      const day = localDate(addDays(now, offset));
+      const date = atTime(day, settings.goal_nudge_time);
+      if (date <= now) continue;
+      if (offset === 0 && todayMinutes >= goal) continue;
+      plan.push({
+        id: `goal-${day}`,
+        title: 'لم تحقق هدفك بعد',
+        body: offset === 0
+          ? `درست ${todayMinutes} من ${goal} دقيقة اليوم. ما زال هناك وقت!`
+          : `لم تدرس اليوم بعد. هدفك ${goal} دقيقة.`,
+        trigger: { type: 'date', date },
+      });
+    }
+  }
+
+  if (settings.review_alerts_enabled === 1) {
+    const reviewTime = reminderTimes[0] ?? DEFAULT_REVIEW_TIME;
+    for (const { date: day, count } of dueReviews) {
+      const date = atTime(day, reviewTime);
+      if (count === 0 || date <= now) continue;
+      plan.push({
+        id: `review-${day}`,
+        title: 'دروس للمراجعة',
+        body: `لديك ${count} ${count === 1 ? 'درس' : 'دروس'} للمراجعة اليوم.`,
+        trigger: { type: 'date', date },
+      });
+    }
+  }
+
+  if (settings.exam_countdown_enabled === 1 && settings.exam_date) {
+    const examDay = atTime(settings.exam_date, MILESTONE_TIME);
+    for (const days of EXAM_MILESTONES) {
+      const date = addDays(examDay, -days);
+      if (date <= now) continue;
+      plan.push({
+        id: `exam-${days}`,
+        title: days === 1 ? 'الامتحان غداً!' : `${days} يوماً على الامتحان`,
+        body: days === 1
+          ? 'راجع ملخصاتك ونم مبكراً. بالتوفيق!'
+          : 'تابع خطة المراجعة وركز على الدروس الضعيفة.',
+        trigger: { type: 'date', date },
+      });
+    }
+  }
+
+  return plan;
+}
+
+function toTriggerInput(trigger: PlannedTrigger): Notifications.NotificationTriggerInput {
+  if (trigger.type === 'daily') {
+    return {
+      type: Notifications.SchedulableTriggerInputTypes.DAILY,
+      hour: trigger.hour,
+      minute: trigger.minute,
+      channelId: CHANNEL_ID,
+    };
+  }
+  return {
+    type: Notifications.SchedulableTriggerInputTypes.DATE,
+    date: trigger.date,
+    channelId: CHANNEL_ID,
+  };
+}
+
+export async function configureNotifications(): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'تذكيرات الدراسة',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+}
+
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+let pendingReschedule: Promise<void> = Promise.resolve();
+
+/**
+ * Replaces every scheduled notification with the current plan. Calls are
+ * queued so two overlapping refreshes cannot interleave cancel and schedule.
+ */
+export function rescheduleNotifications(): Promise<void> {
+  pendingReschedule = pendingReschedule
+    .catch(() => undefined)
+    .then(runReschedule);
+  return pendingReschedule;
+}
+
+async function runReschedule(): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  const settings = await getSettings();
+  await Notifications.cancelAllScheduledNotificationsAsync();
+  if (!settings || settings.notifications_enabled !== 1) return;
+
+  const permission = await Notifications.getPermissionsAsync();
+  if (!permission.granted) return;
+
+  const plan = buildNotificationPlan({
+    settings,
+    todayMinutes: await getTodayStudyMinutes(),
+    dueReviews: await getDueReviewDays(PLAN_DAYS),
+    now: new Date(),
+  });
+
+  for (const notification of plan) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.id,
+      content: { title: notification.title, body: notification.body },
+      trigger: toTriggerInput(notification.trigger),
+    });
+  }
+}
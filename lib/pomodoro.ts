@@ -0,0 +1,181 @@
+import type { Settings, TimerDraft, TimerPhase } from '@/db/types';
+
+// Used when a finished session is never rated.
+export const DEFAULT_FOCUS_RATING = 4;
+
+export interface TimerConfig {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+  autoStartBreaks: boolean;
+  autoStartWork: boolean;
+}
+
+export function getTimerConfig(settings: Settings | null): TimerConfig {
+  return {
+    workMinutes: settings?.pomodoro_work || 25,
+    breakMinutes: settings?.pomodoro_break || 5,
+    longBreakMinutes: settings?.pomodoro_long_break || 15,
+    cyclesBeforeLongBreak: settings?.pomodoro_cycles || 4,
+    autoStartBreaks: (settings?.auto_start_breaks ?? 1) === 1,
+    autoStartWork: settings?.auto_start_work === 1,
+  };
+}
+
+export interface CompletedWorkPhase {
+  subject_id: number;
+  lesson_id: number | null;
+  started_at: string;
+  ended_at: string;
+  minutes: number;
+}
+
+export interface TimerTransition {
+  timer: TimerDraft | null;
+  completedWork: CompletedWorkPhase | null;
+}
+
+export function createPhase(
+  base: Pick<TimerDraft, 'subject_id' | 'lesson_id' | 'completed_sessions'>,
+  phase: TimerPhase,
+  minutes: number,
+  startedAt: Date
+): TimerDraft {
+  return {
+    ...base,
+    phase,
+    phase_minutes: minutes,
+    phase_started_at: startedAt.toISOString(),
+    phase_ends_at: new Date(startedAt.getTime() + minutes * 60 * 1000).toISOString(),
+    paused_remaining_seconds: null,
+  };
+}
+
+/** A phase that has not been started yet: it waits, paused, for the user. */
+export function createWaitingPhase(
+  base: Pick<TimerDraft, 'subject_id' | 'lesson_id' | 'completed_sessions'>,
+  phase: TimerPhase,
+  minutes: number,
+  now: Date
+): TimerDraft {
+  return { ...createPhase(base, phase, minutes, now), paused_remaining_seconds: minutes * 60 };
+}
+
+export function createStopwatch(
+  base: Pick<TimerDraft, 'subject_id' | 'lesson_id'>,
+  startedAt: Date
+): TimerDraft {
+  return {
+    ...base,
+    completed_sessions: 0,
+    phase: 'stopwatch',
+    phase_minutes: 0,
+    phase_started_at: startedAt.toISOString(),
+    phase_ends_at: startedAt.toISOString(),
+    paused_remaining_seconds: null,
+  };
+}
+
+export function isBreak(phase: TimerPhase | 'idle'): boolean {
+  return phase === 'break' || phase === 'long_break';
+}
+
+export function getRemainingSeconds(timer: TimerDraft, now: number = Date.now()): number {
+  if (timer.phase === 'stopwatch') return 0;
+  if (timer.paused_remaining_seconds !== null) return timer.paused_remaining_seconds;
+  return Math.max(0, Math.ceil((new Date(timer.phase_ends_at).getTime() - now) / 1000));
+}
+
+/**
+ * Seconds counted by a stopwatch. While paused, `paused_remaining_seconds`
+ * holds the elapsed time instead of the remaining time.
+ */
+export function getElapsedSeconds(timer: TimerDraft, now: number = Date.now()): number {
+  if (timer.paused_remaining_seconds !== null) return timer.paused_remaining_seconds;
+  return Math.max(0, Math.floor((now - new Date(timer.phase_started_at).getTime()) / 1000));
+}
+
+export function isPhaseOver(timer: TimerDraft, now: number = Date.now()): boolean {
+  return timer.phase !== 'stopwatch' &&
+    timer.paused_remaining_seconds === null &&
+    new Date(timer.phase_ends_at).getTime() <= now;
+}
+
+export function pauseTimer(timer: TimerDraft, now: number = Date.now()): TimerDraft {
+  if (timer.phase === 'stopwatch') {
+    return { ...timer, paused_remaining_seconds: getElapsedSeconds(timer, now) };
+  }
+  return { ...timer, paused_remaining_seconds: getRemainingSeconds(timer, now) };
+}
+
+export function resumeTimer(timer: TimerDraft, now: number = Date.now()): TimerDraft {
+  if (timer.phase === 'stopwatch') {
+    const elapsed = getElapsedSeconds(timer, now);
+    const startedAt = new Date(now - elapsed * 1000).toISOString();
+    return { ...timer, phase_started_at: startedAt, phase_ends_at: startedAt, paused_remaining_seconds: null };
+  }
+  const remaining = timer.paused_remaining_seconds ?? getRemainingSeconds(timer, now);
+  return {
+    ...timer,
+    phase_ends_at: new Date(now + remaining * 1000).toISOString(),
+    paused_remaining_seconds: null,
+  };
+}
+
+/** The study time of a stopped stopwatch, or `null` if it ran for under a minute. */
+export function finishStopwatch(timer: TimerDraft, now: number = Date.now()): CompletedWorkPhase | null {
+  const minutes = Math.floor(getElapsedSeconds(timer, now) / 60);
+  if (timer.phase !== 'stopwatch' || minutes < 1) return null;
+  return {
+    subject_id: timer.subject_id,
+    lesson_id: timer.lesson_id,
+    started_at: timer.phase_started_at,
+    ended_at: new Date(now).toISOString(),
+    minutes,
+  };
+}
+
+/**
+ * Moves a timer whose phase has run out on to the next one. A finished work
+ * phase is reported so it can be saved; every `cyclesBeforeLongBreak`-th one
+ * is followed by a long break. With `autoStartBreaks` the break is timed from
+ * the moment work ended, otherwise it waits to be started. A finished break
+ * only runs straight into work when `autoStartWork` is set and the timer is
+ * on screen; a break that ran out in the background leaves the next work
+ * phase waiting instead of logging study time nobody was there for.
+ */
+export function advanceTimer(
+  timer: TimerDraft,
+  config: TimerConfig,
+  onScreen: boolean,
+  now: number = Date.now()
+): TimerTransition {
+  if (timer.phase === 'work') {
+    const endedAt = new Date(timer.phase_ends_at);
+    const completedSessions = timer.completed_sessions + 1;
+    const isLongBreak = completedSessions % config.cyclesBeforeLongBreak === 0;
+    const base = { ...timer, completed_sessions: completedSessions };
+    const phase: TimerPhase = isLongBreak ? 'long_break' : 'break';
+    const minutes = isLongBreak ? config.longBreakMinutes : config.breakMinutes;
+    return {
+      timer: config.autoStartBreaks
+        ? createPhase(base, phase, minutes, endedAt)
+        : createWaitingPhase(base, phase, minutes, endedAt),
+      completedWork: {
+        subject_id: timer.subject_id,
+        lesson_id: timer.lesson_id,
+        started_at: timer.phase_started_at,
+        ended_at: timer.phase_ends_at,
+        minutes: timer.phase_minutes,
+      },
+    };
+  }
+
+  return {
+    timer: config.autoStartWork && onScreen
+      ? createPhase(timer, 'work', config.workMinutes, new Date(now))
+      : createWaitingPhase(timer, 'work', config.workMinutes, new Date(now)),
+    completedWork: null,
+  };
+}
@@ -31,11 +31,13 @@ export async function apiRequest(
 ): Promise<Response> {
   const baseUrl = getApiUrl();
   const url = new URL(route, baseUrl);
+  // Multipart bodies are sent as-is so fetch can set the boundary header.
+  const isForm = data instanceof FormData;
 
   const res = await fetch(url.toString(), {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !isForm ? { "Content-Type": "application/json" } : {},
+    body: isForm ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { readServerSentEvents, type ServerSentEvent } from '@/lib/sse';
+
+// A streamed response whose body arrives in exactly these reads.
+function streamedResponse(chunks: (string | Uint8Array)[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+async function collect(res: Response): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(res)) events.push(event);
+  return events;
+}
+
+describe('readServerSentEvents', () => {
+  it('reads LF-separated events', async () => {
+    const res = streamedResponse(['event: token\ndata: {"text":"a"}\n\nevent: done\ndata: {}\n\n']);
+
+    expect(await collect(res)).toEqual([
+      { event: 'token', data: '{"text":"a"}' },
+      { event: 'done', data: '{}' },
+    ]);
+  });
+
+  it('reads CRLF-separated events', async () => {
+    const res = streamedResponse(['event: token\r\ndata: {"text":"a"}\r\n\r\nevent: done\r\ndata: {}\r\n\r\n']);
+
+    expect(await collect(res)).toEqual([
+      { event: 'token', data: '{"text":"a"}' },
+      { event: 'done', data: '{}' },
+    ]);
+  });
+
+  it('joins events split across reads', async () => {
+    const res = streamedResponse(['event: tok', 'en\ndata: {"text":', '"a"}\n', '\nevent: done\r\n', 'data: {}\r\n\r', '\n']);
+
+    expect(await collect(res)).toEqual([
+      { event: 'token', data: '{"text":"a"}' },
+      { event: 'done', data: '{}' },
+    ]);
+  });
+
+  it('decodes characters split across reads', async () => {
+    const bytes = new TextEncoder().encode('data: {"text":"مرحبا"}\n\n');
+    const res = streamedResponse([bytes.slice(0, 16), bytes.slice(16)]);
+
+    expect(await collect(res)).toEqual([{ event: 'message', data: '{"text":"مرحبا"}' }]);
+  });
+
+  it('skips comments and joins multi-line data', async () => {
+    const res = streamedResponse([': keep-alive\n\ndata: first\ndata: second\n\n']);
+
+    expect(await collect(res)).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+  });
+
+  it('yields a final event that lacks the blank line', async () => {
+    const res = streamedResponse(['event: done\ndata: {}']);
+
+    expect(await collect(res)).toEqual([{ event: 'done', data: '{}' }]);
+  });
+
+  it('reads the whole text when the body cannot be streamed', async () => {
+    const res = { body: null, text: async () => 'event: token\r\ndata: a\r\n\r\nevent: done\ndata: {}\n\n' } as Response;
+
+    expect(await collect(res)).toEqual([
+      { event: 'token', data: 'a' },
+      { event: 'done', data: '{}' },
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Yields the events of a `text/event-stream` response as they arrive.
+ * Platforms whose fetch cannot stream bodies get all events at the end.
+ */
+export async function* readServerSentEvents(res: Response): AsyncGenerator<ServerSentEvent> {
+  if (!res.body) {
+    for (const block of (await res.text()).split(/\r?\n\r?\n/)) {
+      const event = parseEvent(block);
+      if (event) yield event;
+    }
+    return;
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : (blocks.pop() ?? '');
+      for (const block of blocks) {
+        const event = parseEvent(block);
+        if (event) yield event;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,136 @@
+import type { PlanItemKind } from '@/db/types';
+import { addDays, localDate, parseLocalDate } from '@/lib/dates';
+
+export const LESSON_MINUTES = 30;
+export const REVIEW_MINUTES = 15;
+export const REVISION_MINUTES = 20;
+export const DEFAULT_PLAN_DAYS = 14;
+const MAX_REVISION_DAYS = 7;
+
+export interface PlanLessonCandidate {
+  lesson_id: number;
+  is_completed: boolean;
+  priority_score: number;
+}
+
+export interface PlanReviewCandidate {
+  lesson_id: number;
+  next_review_date: string;
+}
+
+export interface StudyPlanInput {
+  today: Date;
+  examDate: string | null;
+  dailyMinutes: number;
+  lessons: PlanLessonCandidate[];
+  reviews: PlanReviewCandidate[];
+}
+
+export interface GeneratedPlanItem {
+  plan_date: string;
+  lesson_id: number;
+  kind: PlanItemKind;
+  minutes: number;
+  position: number;
+}
+
+export interface GeneratedPlan {
+  items: GeneratedPlanItem[];
+  days: string[];
+  unscheduled: number;
+}
+
+export function getPlanDays(today: Date, examDate: string | null): string[] {
+  const start = new Date(today);
+  start.setHours(0, 0, 0, 0);
+
+  let count = DEFAULT_PLAN_DAYS;
+  if (examDate) {
+    const exam = parseLocalDate(examDate);
+    count = Math.round((exam.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+  }
+
+  const days: string[] = [];
+  for (let i = 0; i < Math.max(1, count); i++) {
+    days.push(localDate(addDays(start, i)));
+  }
+  return days;
+}
+
+/**
+ * Lays out study work over the days left before the exam: due reviews land on
+ * their due date, new lessons are spread evenly over the learning days and the
+ * last days are kept for a revision pass over the weakest lessons. Each day is
+ * filled up to `dailyMinutes`; lessons that do not fit are counted as unscheduled.
+ */
+export function generateStudyPlan(input: StudyPlanInput): GeneratedPlan {
+  const days = getPlanDays(input.today, input.examDate);
+  const budget = Math.max(input.dailyMinutes, LESSON_MINUTES);
+  const revisionDays = input.examDate && days.length >= 5
+    ? Math.min(MAX_REVISION_DAYS, Math.floor(days.length * 0.2))
+    : 0;
+  const learningDays = days.slice(0, days.length - revisionDays);
+
+  const dayItems = new Map<string, GeneratedPlanItem[]>(days.map((d) => [d, []]));
+  const usedMinutes = new Map<string, number>(days.map((d) => [d, 0]));
+
+  const add = (day: string, lessonId: number, kind: PlanItemKind, minutes: number) => {
+    const items = dayItems.get(day)!;
+    items.push({ plan_date: day, lesson_id: lessonId, kind, minutes, position: items.length });
+    usedMinutes.set(day, usedMinutes.get(day)! + minutes);
+  };
+
+  for (const review of input.reviews) {
+    const dueDay = review.next_review_date < days[0] ? days[0] : review.next_review_date;
+    if (dayItems.has(dueDay)) {
+      add(dueDay, review.lesson_id, 'review', REVIEW_MINUTES);
+    }
+  }
+
+  const remaining = input.lessons
+    .filter((l) => !l.is_completed)
+    .sort((a, b) => b.priority_score - a.priority_score);
+
+  let cursor = 0;
+  learningDays.forEach((day, index) => {
+    const daysLeft = learningDays.length - index;
+    const target = Math.ceil((remaining.length - cursor) / daysLeft);
+    let placed = 0;
+    while (
+      cursor < remaining.length &&
+      placed < target &&
+      usedMinutes.get(day)! + LESSON_MINUTES <= budget
+    ) {
+      add(day, remaining[cursor].lesson_id, 'lesson', LESSON_MINUTES);
+      cursor++;
+      placed++;
+    }
+  });
+
+  if (revisionDays > 0) {
+    const revisionPool = [...input.lessons].sort((a, b) => b.priority_score - a.priority_score);
+    let revisionCursor = 0;
+    for (const day of days.slice(days.length - revisionDays)) {
+      const plannedToday = new Set(dayItems.get(day)!.map((i) => i.lesson_id));
+      let attempts = 0;
+      while (
+        revisionPool.length > 0 &&
+        attempts < revisionPool.length &&
+        usedMinutes.get(day)! + REVISION_MINUTES <= budget
+      ) {
+        const lesson = revisionPool[revisionCursor % revisionPool.length];
+        revisionCursor++;
+        attempts++;
+        if (plannedToday.has(lesson.lesson_id)) continue;
+        plannedToday.add(lesson.lesson_id);
+        add(day, lesson.lesson_id, 'revision', REVISION_MINUTES);
+      }
+    }
+  }
+
+  return {
+    items: days.flatMap((d) => dayItems.get(d)!),
+    days,
+    unscheduled: remaining.length - cursor,
+  };
+}
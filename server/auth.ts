@@ -0,0 +1,187 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { credentialsSchema, type PublicUser, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { DuplicateUsernameError } from "./storageErrors";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    // Set by `requireAuth`.
+    user?: PublicUser;
+  }
+}
+
+const SESSION_COOKIE = "brevti_session";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+/** Stored as `scrypt:<salt hex>:<key hex>`. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = stored.split(":");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await deriveKey(password, Buffer.from(saltHex, "hex"));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Unknown usernames are checked against this too, so a login takes as long
+// whether or not the account exists.
+const dummyHash = hashPassword(randomBytes(16).toString("hex"));
+
+function toPublicUser(user: User): PublicUser {
+  return { id: user.id, username: user.username };
+}
+
+// Only the token's hash is stored, so a leaked session table can't be replayed.
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function readSessionToken(req: Request): string | null {
+  // Non-browser clients can send the token from the login response instead.
+  const authorization = req.header("authorization");
+  if (authorization?.startsWith("Bearer ")) return authorization.slice("Bearer ".length);
+
+  for (const pair of (req.header("cookie") ?? "").split(";")) {
+    const [name, ...value] = pair.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+// Expo web runs on another origin in development, and cross-site requests
+// only carry cookies marked `SameSite=None; Secure`.
+function cookieOptions(req: Request) {
+  return {
+    httpOnly: true,
+    path: "/",
+    secure: req.secure,
+    sameSite: req.secure ? ("none" as const) : ("lax" as const),
+  };
+}
+
+async function startSession(req: Request, res: Response, user: User): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  await storage.createSession({
+    id: hashToken(token),
+    userId: user.id,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  res.cookie(SESSION_COOKIE, token, { ...cookieOptions(req), maxAge: SESSION_TTL_MS });
+  return token;
+}
+
+async function findSessionUser(req: Request): Promise<PublicUser | null> {
+  const token = readSessionToken(req);
+  if (!token) return null;
+
+  const session = await storage.getSession(hashToken(token));
+  if (!session) return null;
+  if (session.expiresAt.getTime() <= Date.now()) {
+    await storage.deleteSession(session.id);
+    return null;
+  }
+
+  const user = await storage.getUser(session.userId);
+  return user ? toPublicUser(user) : null;
+}
+
+/** Rejects requests without a live session with 401, and sets `req.user`. */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await findSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Authentication required" });
+    req.user = user;
+    return next();
+  } catch (err) {
+    return next(err);
+  }
+}
+
+function readCredentials(req: Request) {
+  const parsed = credentialsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: `${issue.path.join(".") || "body"}: ${issue.message}` } as const;
+  }
+  return { credentials: parsed.data } as const;
+}
+
+export function registerAuthRoutes(app: Express) {
+  app.post("/api/auth/register", async (req: Request, res: Response) => {
+    try {
+      const { credentials, error } = readCredentials(req);
+      if (!credentials) return res.status(400).json({ message: error });
+
+      // Checked up front to skip hashing, and again by `createUser` for
+      // registrations racing on the same name.
+      if (await storage.getUserByUsername(credentials.username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      const user = await storage.createUser({
+        username: credentials.username,
+        password: await hashPassword(credentials.password),
+      });
+      const token = await startSession(req, res, user);
+      return res.status(201).json({ user: toPublicUser(user), token });
+    } catch (err) {
+      if (err instanceof DuplicateUsernameError) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Registration failed" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req: Request, res: Response) => {
+    try {
+      const { username, password } = req.body as { username?: unknown; password?: unknown };
+      if (typeof username !== "string" || typeof password !== "string") {
+        return res.status(400).json({ message: "Missing username or password" });
+      }
+
+      const user = await storage.getUserByUsername(username.trim());
+      const valid = await verifyPassword(password, user?.password ?? (await dummyHash));
+      if (!user || !valid) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      const token = await startSession(req, res, user);
+      return res.status(200).json({ user: toPublicUser(user), token });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req: Request, res: Response) => {
+    try {
+      const token = readSessionToken(req);
+      if (token) await storage.deleteSession(hashToken(token));
+      res.clearCookie(SESSION_COOKIE, cookieOptions(req));
+      return res.status(204).end();
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Logout failed" });
+    }
+  });
+
+  app.get("/api/auth/me", requireAuth, (req: Request, res: Response) => {
+    return res.status(200).json({ user: req.user });
+  });
+}
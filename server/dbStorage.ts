@@ -0,0 +1,201 @@
+import { and, asc, desc, eq, getTableColumns, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import {
+  documentOwners,
+  documents,
+  progress,
+  qaMessages,
+  sessions,
+  users,
+  type InsertQaMessage,
+  type InsertUser,
+  type Progress,
+  type QaMessage,
+  type Session,
+  type User,
+} from "@shared/schema";
+import type { DocumentFile, DocumentFileMeta, StoredDocument, StoredDocumentMeta } from "./documentStore";
+import type { IStorage } from "./storage";
+import { DuplicateUsernameError } from "./storageErrors";
+
+// Postgres `unique_violation`.
+const UNIQUE_VIOLATION = "23505";
+
+function isUniqueViolation(err: unknown): boolean {
+  const { code, cause } = (err ?? {}) as { code?: string; cause?: { code?: string } };
+  return code === UNIQUE_VIOLATION || cause?.code === UNIQUE_VIOLATION;
+}
+
+type DocumentRow = typeof documents.$inferSelect;
+type OwnerColumns = Pick<typeof documentOwners.$inferSelect, "filename" | "createdAt">;
+
+const { pageTexts: _pageTexts, ...fileColumns } = getTableColumns(documents);
+const ownerColumns = { filename: documentOwners.filename, createdAt: documentOwners.createdAt };
+
+function toFileMeta(row: Omit<DocumentRow, "pageTexts">): DocumentFileMeta {
+  const { confidence, ocrPages, ...meta } = row;
+  return {
+    ...meta,
+    ...(confidence ? { confidence } : {}),
+    ...(ocrPages !== null ? { ocrPages } : {}),
+  };
+}
+
+function toMeta(row: Omit<DocumentRow, "pageTexts"> & OwnerColumns): StoredDocumentMeta {
+  const { filename, createdAt, ...file } = row;
+  return { ...toFileMeta(file), filename, createdAt: createdAt.toISOString() };
+}
+
+/**
+ * `IStorage` on Postgres through Drizzle; the tables are in shared/schema.ts.
+ * Takes the database rather than a URL so a pg-mem pool can stand in.
+ */
+export class DbStorage implements IStorage {
+  constructor(private db: NodePgDatabase) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    try {
+      const [user] = await this.db.insert(users).values(insertUser).returning();
+      return user;
+    } catch (err) {
+      if (isUniqueViolation(err)) throw new DuplicateUsernameError(insertUser.username);
+      throw err;
+    }
+  }
+
+  async createSession(session: Session): Promise<void> {
+    await this.db.insert(sessions).values(session);
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.db.delete(sessions).where(eq(sessions.id, id));
+  }
+
+  async listDocuments(ownerId: string): Promise<StoredDocumentMeta[]> {
+    const rows = await this.db
+      .select({ ...fileColumns, ...ownerColumns })
+      .from(documents)
+      .innerJoin(documentOwners, eq(documentOwners.documentId, documents.id))
+      .where(eq(documentOwners.userId, ownerId))
+      .orderBy(desc(documentOwners.createdAt));
+    return rows.map(toMeta);
+  }
+
+  async findDocument(id: string): Promise<DocumentFile | undefined> {
+    const [row] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return row && { ...toFileMeta(row), pageTexts: row.pageTexts };
+  }
+
+  async getDocument(id: string, ownerId: string): Promise<StoredDocument | undefined> {
+    const [row] = await this.db
+      .select({ ...getTableColumns(documents), ...ownerColumns })
+      .from(documents)
+      .innerJoin(documentOwners, eq(documentOwners.documentId, documents.id))
+      .where(and(eq(documents.id, id), eq(documentOwners.userId, ownerId)));
+    if (!row) return undefined;
+    const { pageTexts, ...meta } = row;
+    return { ...toMeta(meta), pageTexts };
+  }
+
+  async isDocumentOwner(id: string, ownerId: string): Promise<boolean> {
+    const rows = await this.db
+      .select({ documentId: documentOwners.documentId })
+      .from(documentOwners)
+      .where(and(eq(documentOwners.documentId, id), eq(documentOwners.userId, ownerId)))
+      .limit(1);
+    return rows.length > 0;
+  }
+
+  async addDocument(document: StoredDocument, ownerId: string): Promise<void> {
+    const { filename, createdAt, ...file } = document;
+    await this.db.transaction(async (tx) => {
+      await tx
+        .insert(documents)
+        .values({
+          ...file,
+          confidence: file.confidence ?? null,
+          ocrPages: file.ocrPages ?? null,
+        })
+        .onConflictDoNothing();
+      await tx
+        .insert(documentOwners)
+        .values({ documentId: document.id, userId: ownerId, filename, createdAt: new Date(createdAt) })
+        .onConflictDoNothing();
+    });
+  }
+
+  async removeDocumentOwner(id: string, ownerId: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(documentOwners)
+        .where(and(eq(documentOwners.documentId, id), eq(documentOwners.userId, ownerId)))
+        .returning();
+      if (removed.length === 0) return false;
+
+      // The last owner takes the document (and its history) with them.
+      const [remaining] = await tx
+        .select({ userId: documentOwners.userId })
+        .from(documentOwners)
+        .where(eq(documentOwners.documentId, id))
+        .limit(1);
+      if (!remaining) {
+        await tx.delete(documents).where(eq(documents.id, id));
+      }
+      return true;
+    });
+  }
+
+  async getQaMessages(userId: string, documentId: string): Promise<QaMessage[]> {
+    return this.db
+      .select()
+      .from(qaMessages)
+      .where(and(eq(qaMessages.userId, userId), eq(qaMessages.documentId, documentId)))
+      .orderBy(asc(qaMessages.id));
+  }
+
+  async addQaMessages(messages: InsertQaMessage[]): Promise<QaMessage[]> {
+    if (messages.length === 0) return [];
+    return this.db
+      .insert(qaMessages)
+      .values(messages.map((message) => ({ ...message, pages: message.pages ?? [] })))
+      .returning();
+  }
+
+  async clearQaMessages(userId: string, documentId: string): Promise<void> {
+    await this.db
+      .delete(qaMessages)
+      .where(and(eq(qaMessages.userId, userId), eq(qaMessages.documentId, documentId)));
+  }
+
+  async getProgress(userId: string): Promise<Progress | undefined> {
+    const [row] = await this.db.select().from(progress).where(eq(progress.userId, userId));
+    return row;
+  }
+
+  async saveProgress(snapshot: Progress): Promise<Progress> {
+    await this.db
+      .insert(progress)
+      .values(snapshot)
+      .onConflictDoUpdate({
+        target: progress.userId,
+        set: { data: snapshot.data, updatedAt: snapshot.updatedAt },
+        setWhere: sql`${progress.updatedAt} < excluded.updated_at`,
+      });
+    return (await this.getProgress(snapshot.userId))!;
+  }
+}
@@ -0,0 +1,93 @@
+import type { LlmProvider, LlmUsage } from "./llm";
+import type { AnswerLang } from "./lessonGenerator";
+import type { Chunk, PassageRetriever } from "./retrieval";
+
+// Five passages of ~160 words fit comfortably in one prompt.
+const TOP_PASSAGES = 5;
+const MAX_CONTEXT_CHARS = 6000;
+
+export interface QaInput {
+  question: string;
+  // A stored document's cached retriever, or one built from sent text.
+  retriever: PassageRetriever;
+  lang: AnswerLang;
+}
+
+export interface QaAnswer {
+  answer: string;
+  // Pages of the passages the model was given, ascending.
+  pages: number[];
+}
+
+export type QaStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; pages: number[]; usage: LlmUsage | null };
+
+const NOT_FOUND: Record<AnswerLang, string> = {
+  ar: "المعلومة غير موجودة في الوثيقة.",
+  fr: "Information non trouvée dans le document.",
+};
+
+function formatPassages(passages: Chunk[]): string {
+  return passages.map((p) => (p.page !== null ? `[p. ${p.page}]\n${p.text}` : p.text)).join("\n\n");
+}
+
+export function buildQaPrompt(question: string, passages: Chunk[], lang: AnswerLang): { system: string; prompt: string } {
+  const system =
+    lang === "fr"
+      ? `Tu réponds en français. Réponse claire, directe, et basée uniquement sur les extraits fournis. Si l'info n'existe pas dans les extraits, dis: '${NOT_FOUND.fr}'`
+      : `أجب بالعربية فقط. جواب واضح ومباشر ومبني فقط على المقتطفات المُعطاة. إذا المعلومة غير موجودة فيها قل: '${NOT_FOUND.ar}'`;
+
+  const citation = lang === "fr" ? "(p. 3)" : "(ص 3)";
+  const prompt =
+    "DOCUMENT:\n" +
+    formatPassages(passages) +
+    "\n\nQUESTION:\n" +
+    question +
+    "\n\nRULES:\n" +
+    "- Use only the document excerpts. Each excerpt starts with its page, e.g. [p. 3].\n" +
+    `- End the answer with the pages you used, written like ${citation}.\n` +
+    "- If not found, say exactly the not-found sentence from system.\n";
+
+  return { system, prompt };
+}
+
+function citedPages(passages: Chunk[]): number[] {
+  return Array.from(
+    new Set(passages.map((p) => p.page).filter((page): page is number => page !== null)),
+  ).sort((a, b) => a - b);
+}
+
+/**
+ * Answers from the passages that best match the question rather than the
+ * whole document, so long textbooks stay within the model's context.
+ */
+export async function answerQuestion(provider: LlmProvider, input: QaInput): Promise<QaAnswer> {
+  const passages = input.retriever.retrieve(input.question, TOP_PASSAGES, MAX_CONTEXT_CHARS);
+  const pages = citedPages(passages);
+
+  if (passages.length === 0) {
+    return { answer: NOT_FOUND[input.lang], pages };
+  }
+
+  const { system, prompt } = buildQaPrompt(input.question, passages, input.lang);
+  const answer = await provider.complete({ system, prompt });
+  return { answer, pages };
+}
+
+/** `answerQuestion` as it is being written, ending with the cited pages. */
+export async function* streamAnswer(provider: LlmProvider, input: QaInput): AsyncGenerator<QaStreamEvent> {
+  const passages = input.retriever.retrieve(input.question, TOP_PASSAGES, MAX_CONTEXT_CHARS);
+  const pages = citedPages(passages);
+
+  if (passages.length === 0) {
+    yield { type: "delta", text: NOT_FOUND[input.lang] };
+    yield { type: "done", pages, usage: null };
+    return;
+  }
+
+  const { system, prompt } = buildQaPrompt(input.question, passages, input.lang);
+  for await (const event of provider.stream({ system, prompt })) {
+    yield event.type === "delta" ? event : { type: "done", pages, usage: event.usage };
+  }
+}
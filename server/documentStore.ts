@@ -0,0 +1,225 @@
+import { createHash, randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import type { PageConfidence } from "./pdfExtraction";
+import type { PageText } from "./retrieval";
+
+const DOCUMENT_ID = /^[0-9a-f]{64}$/;
+
+// What every owner of a document shares: the file and what was extracted from it.
+export interface DocumentFileMeta {
+  // sha256 of the uploaded file, so re-uploads find the stored copy.
+  id: string;
+  pages: number;
+  size: number;
+  ocr: boolean;
+  confidence?: PageConfidence[];
+  // Set for scans; less than `pages` when OCR stopped early.
+  ocrPages?: number;
+}
+
+export interface DocumentFile extends DocumentFileMeta {
+  pageTexts: PageText[];
+}
+
+// The document as one owner sees it: under the name they uploaded it with,
+// at the time they did.
+export interface StoredDocumentMeta extends DocumentFileMeta {
+  filename: string;
+  createdAt: string;
+}
+
+export interface StoredDocument extends StoredDocumentMeta {
+  pageTexts: PageText[];
+}
+
+export function hashDocument(data: Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Documents are shared by content hash: every upload of a file adds its user
+ * as an owner of the one stored copy, which is deleted with its last owner.
+ */
+export interface DocumentStore {
+  listDocuments(ownerId: string): Promise<StoredDocumentMeta[]>;
+  // Regardless of owner, so a re-upload by anyone skips extraction.
+  findDocument(id: string): Promise<DocumentFile | undefined>;
+  getDocument(id: string, ownerId: string): Promise<StoredDocument | undefined>;
+  isDocumentOwner(id: string, ownerId: string): Promise<boolean>;
+  // Stores the document unless it already is, and adds the owner with the
+  // document's filename and time; a no-op for an existing owner.
+  addDocument(document: StoredDocument, ownerId: string): Promise<void>;
+  // `false` when the user didn't own the document.
+  removeDocumentOwner(id: string, ownerId: string): Promise<boolean>;
+}
+
+interface FileOwner {
+  userId: string;
+  filename: string;
+  createdAt: string;
+}
+
+// Older meta files kept one filename and time per document next to its
+// `ownerIds`; documents stored before accounts existed have no owners.
+type FileMeta = DocumentFileMeta & {
+  owners?: FileOwner[];
+  ownerIds?: string[];
+  filename?: string;
+  createdAt?: string;
+};
+
+function ownersOf(meta: FileMeta): FileOwner[] {
+  if (meta.owners) return meta.owners;
+  return (meta.ownerIds ?? []).map((userId) => ({
+    userId,
+    filename: meta.filename ?? "",
+    createdAt: meta.createdAt ?? "",
+  }));
+}
+
+function fileMetaOf(meta: FileMeta): DocumentFileMeta {
+  const { owners: _owners, ownerIds: _ownerIds, filename: _filename, createdAt: _createdAt, ...file } = meta;
+  return file;
+}
+
+function ownedMeta(meta: FileMeta, ownerId: string): StoredDocumentMeta | undefined {
+  const owner = ownersOf(meta).find((candidate) => candidate.userId === ownerId);
+  return owner && { ...fileMetaOf(meta), filename: owner.filename, createdAt: owner.createdAt };
+}
+
+/**
+ * Keeps each document as two JSON files, `<id>.meta.json` (with its owners and
+ * the filename each uploaded it under) and `<id>.pages.json`, so listing never
+ * reads page text. IDs are checked to be hashes before they touch a path.
+ */
+export class FileDocumentStore implements DocumentStore {
+  // Tail of each document's queue of owner updates, see `exclusive`.
+  private pending = new Map<string, Promise<unknown>>();
+
+  constructor(private dir: string) {}
+
+  // Owner changes read, modify and rewrite the meta file, so updates to one
+  // document run one after another or concurrent uploads lose owners.
+  private exclusive<T>(id: string, update: () => Promise<T>): Promise<T> {
+    const run = (this.pending.get(id) ?? Promise.resolve()).then(update, update);
+    const tail = run.catch(() => undefined);
+    this.pending.set(id, tail);
+    void tail.then(() => {
+      if (this.pending.get(id) === tail) this.pending.delete(id);
+    });
+    return run;
+  }
+
+  private file(id: string, kind: "meta" | "pages"): string {
+    return path.join(this.dir, `${id}.${kind}.json`);
+  }
+
+  private async readJson<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  // Write-then-rename, so a crash never leaves half a file behind.
+  private async writeJson(file: string, value: unknown): Promise<void> {
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value));
+    await fs.rename(tmp, file);
+  }
+
+  private async readMeta(id: string): Promise<FileMeta | null> {
+    if (!DOCUMENT_ID.test(id)) return null;
+    return this.readJson<FileMeta>(this.file(id, "meta"));
+  }
+
+  private async writeMeta(meta: FileMeta, owners: FileOwner[]): Promise<void> {
+    await this.writeJson(this.file(meta.id, "meta"), { ...fileMetaOf(meta), owners });
+  }
+
+  private readPages(id: string): Promise<PageText[] | null> {
+    return this.readJson<PageText[]>(this.file(id, "pages"));
+  }
+
+  async listDocuments(ownerId: string): Promise<StoredDocumentMeta[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+
+    const metas = await Promise.all(
+      names
+        .filter((name) => name.endsWith(".meta.json"))
+        .map((name) => this.readJson<FileMeta>(path.join(this.dir, name))),
+    );
+    return metas
+      .map((meta) => meta && ownedMeta(meta, ownerId))
+      .filter((meta): meta is StoredDocumentMeta => meta !== null && meta !== undefined)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async findDocument(id: string): Promise<DocumentFile | undefined> {
+    const meta = await this.readMeta(id);
+    const pageTexts = meta && (await this.readPages(id));
+    return meta && pageTexts ? { ...fileMetaOf(meta), pageTexts } : undefined;
+  }
+
+  async getDocument(id: string, ownerId: string): Promise<StoredDocument | undefined> {
+    const meta = await this.readMeta(id);
+    const owned = meta && ownedMeta(meta, ownerId);
+    const pageTexts = owned && (await this.readPages(id));
+    return owned && pageTexts ? { ...owned, pageTexts } : undefined;
+  }
+
+  async isDocumentOwner(id: string, ownerId: string): Promise<boolean> {
+    const meta = await this.readMeta(id);
+    return meta ? ownersOf(meta).some((owner) => owner.userId === ownerId) : false;
+  }
+
+  addDocument(document: StoredDocument, ownerId: string): Promise<void> {
+    return this.exclusive(document.id, () => this.addOwnedDocument(document, ownerId));
+  }
+
+  private async addOwnedDocument(document: StoredDocument, ownerId: string): Promise<void> {
+    const { pageTexts, filename, createdAt, ...meta } = document;
+    const owner = { userId: ownerId, filename, createdAt };
+    const stored = await this.readMeta(document.id);
+    if (stored) {
+      const owners = ownersOf(stored);
+      if (owners.some((existing) => existing.userId === ownerId)) return;
+      await this.writeMeta(stored, [...owners, owner]);
+      return;
+    }
+
+    await fs.mkdir(this.dir, { recursive: true });
+    // Pages first: a meta file without pages would list a broken document.
+    await this.writeJson(this.file(document.id, "pages"), pageTexts);
+    await this.writeMeta(meta, [owner]);
+  }
+
+  removeDocumentOwner(id: string, ownerId: string): Promise<boolean> {
+    return this.exclusive(id, () => this.removeOwner(id, ownerId));
+  }
+
+  private async removeOwner(id: string, ownerId: string): Promise<boolean> {
+    const meta = await this.readMeta(id);
+    const owners = meta ? ownersOf(meta) : [];
+    if (!meta || !owners.some((owner) => owner.userId === ownerId)) return false;
+
+    const remaining = owners.filter((owner) => owner.userId !== ownerId);
+    if (remaining.length > 0) {
+      await this.writeMeta(meta, remaining);
+      return true;
+    }
+
+    await fs.rm(this.file(id, "meta"), { force: true });
+    await fs.rm(this.file(id, "pages"), { force: true });
+    return true;
+  }
+}
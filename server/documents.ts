@@ -0,0 +1,44 @@
+import { PassageRetriever } from "./retrieval";
+import { storage } from "./storage";
+
+// Retrievers for the most recently asked-about documents stay in memory.
+const RETRIEVER_CACHE_SIZE = 20;
+
+// Insertion order doubles as recency: hits are moved to the end.
+const retrievers = new Map<string, PassageRetriever>();
+
+/**
+ * The retriever for one of the user's stored documents, built on first use.
+ * Documents are content-addressed, so a cached retriever never goes stale;
+ * ownership is still checked on every call.
+ */
+export async function getRetriever(id: string, userId: string): Promise<PassageRetriever | null> {
+  if (!(await storage.isDocumentOwner(id, userId))) return null;
+
+  const cached = retrievers.get(id);
+  if (cached) {
+    retrievers.delete(id);
+    retrievers.set(id, cached);
+    return cached;
+  }
+
+  const document = await storage.findDocument(id);
+  if (!document) return null;
+
+  const retriever = new PassageRetriever(document.pageTexts);
+  retrievers.set(id, retriever);
+  if (retrievers.size > RETRIEVER_CACHE_SIZE) {
+    retrievers.delete(retrievers.keys().next().value!);
+  }
+  return retriever;
+}
+
+/** Drops the document and the user's questions about it from their account. */
+export async function deleteDocument(id: string, userId: string): Promise<boolean> {
+  const removed = await storage.removeDocumentOwner(id, userId);
+  if (removed) {
+    retrievers.delete(id);
+    await storage.clearQaMessages(userId, id);
+  }
+  return removed;
+}
@@ -40,7 +40,10 @@ function setupCors(app: express.Application) {
         "Access-Control-Allow-Methods",
         "GET, POST, PUT, DELETE, OPTIONS",
       );
-      res.header("Access-Control-Allow-Headers", "Content-Type");
+      res.header(
+        "Access-Control-Allow-Headers",
+        "Content-Type, Authorization",
+      );
       res.header("Access-Control-Allow-Credentials", "true");
     }
 
@@ -226,6 +229,9 @@ function setupErrorHandler(app: express.Application) {
 }
 
 (async () => {
+  // Deployments sit behind a TLS-terminating proxy; `req.secure` decides
+  // whether session cookies are marked Secure.
+  app.set("trust proxy", 1);
   setupCors(app);
   setupBodyParsing(app);
   setupRequestLogging(app);
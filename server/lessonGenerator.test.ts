@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { contentPackSchema } from "@shared/contentPack";
+import { FakeLlmProvider } from "./llm/fake";
+import { generateLessonPack, LessonGenerationError, parseLessonDrafts } from "./lessonGenerator";
+
+const exercise = {
+  question: "Que transporte une onde ?",
+  options: ["De la matière", "De l'énergie", "Des électrons", "Rien"],
+  correct_index: 1,
+  explanation: "Une onde transporte de l'énergie.",
+  difficulty: 2,
+};
+
+const drafts = {
+  lessons: [
+    {
+      title: "Les ondes",
+      summary: "Une onde transporte de l'énergie sans transporter de matière.",
+      importance_points: "La célérité dépend du milieu.",
+      common_mistakes: "Confondre période et fréquence.",
+      exercises: [exercise],
+    },
+    {
+      title: "La lumière",
+      summary: "La lumière est une onde électromagnétique.",
+      importance_points: "Elle se propage dans le vide.",
+      common_mistakes: "Croire qu'elle a besoin d'un milieu.",
+    },
+  ],
+};
+
+const text = "Une onde transporte de l'énergie. La lumière est une onde électromagnétique.";
+
+describe("generateLessonPack", () => {
+  it("turns the model's lessons into a valid content pack", async () => {
+    const provider = new FakeLlmProvider([JSON.stringify(drafts)]);
+
+    const pack = await generateLessonPack(provider, { text, lang: "fr", subjectName: "Physique" });
+
+    expect(contentPackSchema.safeParse(pack).success).toBe(true);
+    expect(pack.title).toBe("Les ondes");
+    expect(pack.lessons.map((lesson) => lesson.title)).toEqual(["Les ondes", "La lumière"]);
+    expect(pack.exercises).toEqual([{ id: `${pack.lessons[0].id}.1`, lesson_id: pack.lessons[0].id, ...exercise }]);
+  });
+
+  it("gives the same IDs for the same document", async () => {
+    const reply = JSON.stringify(drafts);
+    const provider = new FakeLlmProvider([reply, reply]);
+
+    const first = await generateLessonPack(provider, { text, lang: "fr" });
+    const second = await generateLessonPack(provider, { text, lang: "fr" });
+
+    expect(second.id).toBe(first.id);
+    expect(second.lessons.map((lesson) => lesson.id)).toEqual(first.lessons.map((lesson) => lesson.id));
+  });
+
+  it("writes in the requested language", async () => {
+    const provider = new FakeLlmProvider([JSON.stringify(drafts), JSON.stringify(drafts)]);
+
+    await generateLessonPack(provider, { text, lang: "fr" });
+    await generateLessonPack(provider, { text, lang: "ar" });
+
+    expect(provider.requests[0]).toMatchObject({ json: true, system: expect.stringContaining("en français") });
+    expect(provider.requests[1].system).toContain("بالعربية");
+    expect(provider.requests[0].prompt).toContain(`DOCUMENT:\n${text}`);
+  });
+
+  it("creates a subject named after the input", async () => {
+    const provider = new FakeLlmProvider([JSON.stringify(drafts)]);
+
+    const pack = await generateLessonPack(provider, { text, lang: "fr", title: "Chapitre 3", subjectName: "Physique" });
+
+    expect(pack.title).toBe("Chapitre 3");
+    expect(pack.subjects).toEqual([{ id: `${pack.id}.subject`, name: "Physique", color: expect.any(String) }]);
+    expect(pack.lessons.every((lesson) => lesson.subject_id === `${pack.id}.subject`)).toBe(true);
+  });
+
+  it("attaches the lessons to an installed subject", async () => {
+    const provider = new FakeLlmProvider([JSON.stringify(drafts)]);
+
+    const pack = await generateLessonPack(provider, { text, lang: "ar", subjectId: "physique", subjectName: "Ignoré" });
+
+    expect(pack.subjects).toEqual([]);
+    expect(pack.lessons.every((lesson) => lesson.subject_id === "physique")).toBe(true);
+  });
+
+  it("builds a valid pack from the fake model's own drafts", async () => {
+    const pack = await generateLessonPack(new FakeLlmProvider(), {
+      text: "La photosynthèse produit du glucose dans les feuilles. La respiration cellulaire consomme ce glucose.",
+      lang: "fr",
+    });
+
+    expect(contentPackSchema.safeParse(pack).success).toBe(true);
+    expect(pack.lessons).toHaveLength(1);
+  });
+
+  it.each([
+    ["text that is not JSON", "Voici les leçons : ..."],
+    ["JSON without lessons", JSON.stringify({ lessons: [] })],
+    [
+      "an exercise with three options",
+      JSON.stringify({
+        lessons: [{ ...drafts.lessons[0], exercises: [{ ...exercise, options: ["a", "b", "c"] }] }],
+      }),
+    ],
+  ])("rejects %s", async (_name, reply) => {
+    const provider = new FakeLlmProvider([reply]);
+
+    await expect(generateLessonPack(provider, { text, lang: "fr" })).rejects.toBeInstanceOf(LessonGenerationError);
+  });
+});
+
+describe("parseLessonDrafts", () => {
+  it("unwraps a fenced JSON reply", () => {
+    const parsed = parseLessonDrafts("```json\n" + JSON.stringify(drafts) + "\n```");
+
+    expect(parsed.lessons).toHaveLength(2);
+    // Defaults fill in what the model left out.
+    expect(parsed.lessons[1].exercises).toEqual([]);
+  });
+
+  it("names the field that broke the schema", () => {
+    const reply = JSON.stringify({ lessons: [{ ...drafts.lessons[0], summary: "" }] });
+
+    expect(() => parseLessonDrafts(reply)).toThrow(/lessons\.0\.summary/);
+  });
+});
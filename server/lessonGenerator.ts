@@ -0,0 +1,165 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import {
+  contentPackSchema,
+  CONTENT_PACK_FORMAT,
+  type ContentPack,
+  type PackExercise,
+  type PackLesson,
+  type PackSubject,
+} from "@shared/contentPack";
+import type { LlmProvider } from "./llm";
+
+// Longer documents are cut; the model only sees this many characters.
+const MAX_SOURCE_CHARS = 12000;
+const DEFAULT_SUBJECT_COLOR = "#1E3A5F";
+
+export type AnswerLang = "ar" | "fr";
+
+export interface LessonGenerationInput {
+  text: string;
+  title?: string;
+  lang: AnswerLang;
+  // Attach the lessons to an installed subject (e.g. "math")...
+  subjectId?: string;
+  // ...or create a new subject with this name.
+  subjectName?: string;
+}
+
+export class LessonGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LessonGenerationError";
+  }
+}
+
+const draftExerciseSchema = z.object({
+  question: z.string().min(1),
+  options: z.array(z.string().min(1)).length(4),
+  correct_index: z.number().int().min(0).max(3),
+  explanation: z.string().default(""),
+  difficulty: z.number().int().min(1).max(3).default(1),
+});
+
+const draftLessonSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string().min(1),
+  importance_points: z.string().min(1),
+  common_mistakes: z.string().min(1),
+  exercises: z.array(draftExerciseSchema).default([]),
+});
+
+const lessonDraftsSchema = z.object({
+  lessons: z.array(draftLessonSchema).min(1),
+});
+
+export type LessonDrafts = z.infer<typeof lessonDraftsSchema>;
+
+function buildPrompt(text: string, lang: AnswerLang): { system: string; prompt: string } {
+  const system =
+    lang === "fr"
+      ? "Tu es un professeur qui prépare le Brevet. Tu écris en français et uniquement à partir du texte fourni."
+      : "أنت أستاذ يحضّر التلاميذ لشهادة التعليم المتوسط. اكتب بالعربية واعتمد فقط على النص المُعطى.";
+
+  const prompt =
+    "DOCUMENT:\n" +
+    text +
+    "\n\nTASK:\n" +
+    "Split the document into 1 to 5 lessons. Reply with one JSON object of the form\n" +
+    '{"lessons":[{"title":"","summary":"","importance_points":"","common_mistakes":"",' +
+    '"exercises":[{"question":"","options":["","","",""],"correct_index":0,"explanation":"","difficulty":1}]}]}\n' +
+    "\n\nRULES:\n" +
+    "- summary: 2-3 sentences. importance_points and common_mistakes: short sentences separated by periods.\n" +
+    "- 2 to 4 multiple-choice exercises per lesson, exactly 4 options, one correct.\n" +
+    "- difficulty is 1 (easy), 2 (medium) or 3 (hard).\n" +
+    "- Use only facts from the document.\n";
+
+  return { system, prompt };
+}
+
+export function parseLessonDrafts(raw: string): LessonDrafts {
+  let json: unknown;
+  try {
+    // Models sometimes wrap JSON in a code fence despite being asked not to.
+    json = JSON.parse(raw.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ""));
+  } catch {
+    throw new LessonGenerationError("Model reply is not valid JSON");
+  }
+
+  const result = lessonDraftsSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new LessonGenerationError(`Model reply does not match the lesson schema: ${issue.path.join(".")} ${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Turns drafts into an importable content pack. IDs derive from a hash of
+ * the source text, so regenerating from the same document updates the
+ * installed pack instead of duplicating it.
+ */
+export function buildLessonPack(drafts: LessonDrafts, input: LessonGenerationInput): ContentPack {
+  const hash = createHash("sha256").update(input.text).digest("hex").slice(0, 10);
+  const packId = `pdf-${hash}`;
+
+  const subjects: PackSubject[] = [];
+  let subjectId = input.subjectId;
+  if (!subjectId) {
+    subjectId = `${packId}.subject`;
+    subjects.push({
+      id: subjectId,
+      name: input.subjectName || input.title || "وثيقة",
+      color: DEFAULT_SUBJECT_COLOR,
+    });
+  }
+
+  const lessons: PackLesson[] = [];
+  const exercises: PackExercise[] = [];
+  drafts.lessons.forEach((draft, i) => {
+    const lessonId = `${packId}.lesson-${i + 1}`;
+    lessons.push({
+      id: lessonId,
+      subject_id: subjectId,
+      title: draft.title,
+      summary: draft.summary,
+      importance_points: draft.importance_points,
+      common_mistakes: draft.common_mistakes,
+    });
+    draft.exercises.forEach((exercise, j) => {
+      exercises.push({
+        id: `${lessonId}.${j + 1}`,
+        lesson_id: lessonId,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        options: exercise.options,
+        correct_index: exercise.correct_index,
+        explanation: exercise.explanation,
+      });
+    });
+  });
+
+  const result = contentPackSchema.safeParse({
+    format: CONTENT_PACK_FORMAT,
+    id: packId,
+    version: 1,
+    title: input.title || drafts.lessons[0].title,
+    description: "",
+    subjects,
+    lessons,
+    exercises,
+  });
+  if (!result.success) {
+    throw new LessonGenerationError(`Generated pack is invalid: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+export async function generateLessonPack(
+  provider: LlmProvider,
+  input: LessonGenerationInput,
+): Promise<ContentPack> {
+  const { system, prompt } = buildPrompt(input.text.slice(0, MAX_SOURCE_CHARS), input.lang);
+  const raw = await provider.complete({ system, prompt, json: true });
+  return buildLessonPack(parseLessonDrafts(raw), input);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { readLlmConfig } from "./config";
+import { LlmConfigError } from "./errors";
+import { createLlmProvider } from "./index";
+
+function env(vars: Record<string, string>): NodeJS.ProcessEnv {
+  return { NODE_ENV: "test", ...vars };
+}
+
+describe("readLlmConfig", () => {
+  it("defaults to OpenAI with a 30s timeout and two retries", () => {
+    expect(readLlmConfig(env({ OPENAI_API_KEY: "sk-test", OPENAI_MODEL: "gpt-test" }))).toEqual({
+      provider: "openai",
+      model: "gpt-test",
+      apiKey: "sk-test",
+      timeoutMs: 30000,
+      maxRetries: 2,
+    });
+  });
+
+  it("reads a local endpoint", () => {
+    expect(
+      readLlmConfig(
+        env({ LLM_PROVIDER: "local", LLM_MODEL: "qwen", LLM_BASE_URL: "http://gpu:8000/v1", LLM_MAX_RETRIES: "0" }),
+      ),
+    ).toMatchObject({ provider: "local", model: "qwen", baseUrl: "http://gpu:8000/v1", maxRetries: 0 });
+  });
+
+  it.each([
+    ["a missing API key", {}, "Missing env: OPENAI_API_KEY"],
+    ["an unknown provider", { LLM_PROVIDER: "claude" }, "Unknown LLM_PROVIDER: claude"],
+    ["a local provider without a model", { LLM_PROVIDER: "local" }, /LLM_MODEL/],
+    ["a zero timeout", { LLM_PROVIDER: "fake", LLM_TIMEOUT_MS: "0" }, /LLM_TIMEOUT_MS must be an integer of at least 1/],
+    ["a fractional retry count", { LLM_PROVIDER: "fake", LLM_MAX_RETRIES: "1.5" }, /LLM_MAX_RETRIES/],
+  ])("rejects %s with 503", (_name, vars, message) => {
+    let error: unknown;
+    try {
+      readLlmConfig(env(vars));
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(LlmConfigError);
+    expect(error).toMatchObject({ status: 503, retryable: false, message: expect.stringMatching(message) });
+  });
+});
+
+describe("createLlmProvider", () => {
+  it("wraps the configured provider", async () => {
+    const provider = createLlmProvider(readLlmConfig(env({ LLM_PROVIDER: "fake" })));
+
+    expect(provider.name).toBe("fake");
+    await expect(provider.complete({ system: "", prompt: "DOCUMENT:\nLa lumière est une onde." })).resolves.toBe(
+      "La lumière est une onde.",
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { LlmConfigError } from "./errors";
+import { DEFAULT_OPENAI_MODEL } from "./openai";
+import { DEFAULT_LOCAL_BASE_URL } from "./openaiCompatible";
+
+export type LlmProviderName = "openai" | "local" | "fake";
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+
+// `min` is 1 for the timeout: a zero timeout would fail every call with 504.
+function readInt(env: NodeJS.ProcessEnv, name: string, fallback: number, min: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new LlmConfigError(`${name} must be an integer of at least ${min}, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Model settings from the environment:
+ * - `LLM_PROVIDER`: `openai` (default), `local` or `fake`
+ * - `LLM_MODEL`: model name (`OPENAI_MODEL` is still read for `openai`)
+ * - `OPENAI_API_KEY`: required for `openai`
+ * - `LLM_BASE_URL`, `LLM_API_KEY`: endpoint and optional key for `local`
+ * - `LLM_TIMEOUT_MS`, `LLM_MAX_RETRIES`: per-attempt timeout and retry count
+ */
+export function readLlmConfig(env: NodeJS.ProcessEnv = process.env): LlmConfig {
+  const provider = env.LLM_PROVIDER || "openai";
+  const timeoutMs = readInt(env, "LLM_TIMEOUT_MS", DEFAULT_TIMEOUT_MS, 1);
+  const maxRetries = readInt(env, "LLM_MAX_RETRIES", DEFAULT_MAX_RETRIES, 0);
+
+  switch (provider) {
+    case "fake":
+      return { provider, model: "fake", timeoutMs, maxRetries };
+    case "openai": {
+      const apiKey = env.OPENAI_API_KEY;
+      if (!apiKey) throw new LlmConfigError("Missing env: OPENAI_API_KEY");
+      const model = env.LLM_MODEL || env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL;
+      return { provider, model, apiKey, timeoutMs, maxRetries };
+    }
+    case "local": {
+      const model = env.LLM_MODEL;
+      if (!model) throw new LlmConfigError("Missing env: LLM_MODEL (required for LLM_PROVIDER=local)");
+      const baseUrl = env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL;
+      return { provider, model, baseUrl, apiKey: env.LLM_API_KEY, timeoutMs, maxRetries };
+    }
+    default:
+      throw new LlmConfigError(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Base class for every failure talking to a model. `status` is the HTTP
+ * status a route should answer with; `retryable` marks failures worth
+ * another attempt (timeouts, rate limits, upstream 5xx).
+ */
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+/** The server is missing or has invalid model configuration. */
+export class LlmConfigError extends LlmError {
+  constructor(message: string) {
+    super(message, 503, false);
+    this.name = "LlmConfigError";
+  }
+}
+
+export class LlmTimeoutError extends LlmError {
+  constructor(timeoutMs: number) {
+    super(`Model did not answer within ${timeoutMs}ms`, 504, true);
+    this.name = "LlmTimeoutError";
+  }
+}
+
+export class LlmRateLimitError extends LlmError {
+  constructor(message = "Model rate limit reached, try again shortly") {
+    super(message, 429, true);
+    this.name = "LlmRateLimitError";
+  }
+}
+
+/** The model endpoint failed or could not be reached. */
+export class LlmUpstreamError extends LlmError {
+  constructor(message: string, retryable: boolean) {
+    super(message, 502, retryable);
+    this.name = "LlmUpstreamError";
+  }
+}
@@ -0,0 +1,127 @@
+import type { LlmProvider, LlmRequest, LlmStreamEvent } from "./provider";
+
+const SENTENCES_PER_LESSON = 6;
+const MAX_LESSONS = 5;
+
+/** The text between `DOCUMENT:` and the next `HEADING:` line of a prompt. */
+export function extractDocument(prompt: string): string {
+  const match = prompt.match(/DOCUMENT:\n([\s\S]*?)(?:\n\n[A-Z ]+:\n|$)/);
+  return (match?.[1] ?? prompt).trim();
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?؟])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter((s) => s.split(/\s+/).length >= 4);
+}
+
+function longestWord(sentence: string): string {
+  return sentence
+    .split(/\s+/)
+    .map((w) => w.replace(/[^\p{L}\p{N}-]/gu, ""))
+    .reduce((best, w) => (w.length > best.length ? w : best), "");
+}
+
+function draftLessons(document: string) {
+  const sentences = splitSentences(document);
+  const words = Array.from(new Set(sentences.map(longestWord).filter((w) => w.length >= 4)));
+  const lessons = [];
+
+  for (let start = 0; start < sentences.length && lessons.length < MAX_LESSONS; start += SENTENCES_PER_LESSON) {
+    const chunk = sentences.slice(start, start + SENTENCES_PER_LESSON);
+    const exercises = chunk
+      .filter((sentence) => longestWord(sentence).length >= 4)
+      .slice(0, 2)
+      .map((sentence, i) => {
+        const answer = longestWord(sentence);
+        const distractors = words.filter((w) => w !== answer).slice(i, i + 3);
+        if (distractors.length < 3) return null;
+        const correctIndex = (start + i) % 4;
+        const options = [...distractors];
+        options.splice(correctIndex, 0, answer);
+        return {
+          question: sentence.replace(answer, "____"),
+          options,
+          correct_index: correctIndex,
+          explanation: sentence,
+          difficulty: 1,
+        };
+      })
+      .filter((e) => e !== null);
+
+    lessons.push({
+      title: chunk[0].split(/\s+/).slice(0, 6).join(" "),
+      summary: chunk.slice(0, 2).join(" "),
+      importance_points: chunk.slice(2, 4).join(" ") || chunk[0],
+      common_mistakes: chunk.slice(4).join(" ") || chunk[chunk.length - 1],
+      exercises,
+    });
+  }
+
+  return { lessons };
+}
+
+/**
+ * A scripted reply: returned as-is, thrown, or computed from the request.
+ */
+export type FakeReply = string | Error | ((request: LlmRequest) => string | Promise<string>);
+
+export interface FakeLlmOptions {
+  // Pause between streamed words, to make incremental rendering visible.
+  tokenDelayMs?: number;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Offline stand-in for a real model. Scripted replies are consumed in order;
+ * once the script runs out, output depends only on the prompt: JSON requests
+ * get lesson drafts cut from the document's own sentences (exercises blank
+ * out each sentence's longest word), text requests get the document's first
+ * sentence. Streams send the same reply word by word, with word counts
+ * standing in for token usage. Every request is recorded for inspection.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = "fake";
+  readonly requests: LlmRequest[] = [];
+
+  constructor(
+    private script: FakeReply[] = [],
+    private options: FakeLlmOptions = {},
+  ) {}
+
+  async complete(request: LlmRequest): Promise<string> {
+    this.requests.push(request);
+
+    const reply = this.script.shift();
+    if (reply instanceof Error) throw reply;
+    if (typeof reply === "function") return reply(request);
+    if (reply !== undefined) return reply;
+
+    const document = extractDocument(request.prompt);
+    if (request.json) {
+      return JSON.stringify(draftLessons(document));
+    }
+    return splitSentences(document)[0] ?? "";
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    const reply = await this.complete(request);
+    const words = reply.match(/\S+\s*/g) ?? [];
+
+    for (const text of words) {
+      if (this.options.tokenDelayMs) {
+        await new Promise((resolve) => setTimeout(resolve, this.options.tokenDelayMs));
+      }
+      if (request.signal?.aborted) return;
+      yield { type: "delta", text };
+    }
+    yield {
+      type: "done",
+      usage: { inputTokens: countWords(request.system) + countWords(request.prompt), outputTokens: words.length },
+    };
+  }
+}
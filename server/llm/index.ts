@@ -0,0 +1,43 @@
+import type { LlmProvider } from "./provider";
+import { readLlmConfig, type LlmConfig } from "./config";
+import { OpenAiProvider } from "./openai";
+import { OpenAiCompatibleProvider } from "./openaiCompatible";
+import { FakeLlmProvider } from "./fake";
+import { ResilientLlmProvider } from "./resilient";
+
+export type { LlmProvider, LlmRequest, LlmStreamEvent, LlmUsage } from "./provider";
+export type { LlmConfig, LlmProviderName } from "./config";
+export { LlmError, LlmConfigError, LlmTimeoutError, LlmRateLimitError, LlmUpstreamError } from "./errors";
+
+// Slow enough that the offline fake visibly streams in the app.
+const FAKE_TOKEN_DELAY_MS = 30;
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  let provider: LlmProvider;
+  switch (config.provider) {
+    case "fake":
+      provider = new FakeLlmProvider([], { tokenDelayMs: FAKE_TOKEN_DELAY_MS });
+      break;
+    case "openai":
+      provider = new OpenAiProvider(config.apiKey!, config.model);
+      break;
+    case "local":
+      provider = new OpenAiCompatibleProvider(config.baseUrl!, config.model, config.apiKey);
+      break;
+  }
+  return new ResilientLlmProvider(provider, config);
+}
+
+let cached: LlmProvider | null = null;
+
+/**
+ * The provider configured by the environment (see `readLlmConfig`), built on
+ * first use. Configuration problems throw `LlmConfigError` on every call
+ * until fixed, so routes answer 503 instead of the server failing to start.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!cached) {
+    cached = createLlmProvider(readLlmConfig());
+  }
+  return cached;
+}
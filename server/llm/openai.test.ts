@@ -0,0 +1,36 @@
+import OpenAI from "openai";
+import { describe, expect, it } from "vitest";
+import { LlmConfigError, LlmRateLimitError, LlmUpstreamError } from "./errors";
+import { toLlmError } from "./openai";
+
+function apiError(status: number) {
+  return OpenAI.APIError.generate(status, { message: `status ${status}` }, undefined, new Headers());
+}
+
+describe("toLlmError", () => {
+  it.each([
+    { status: 429, type: LlmRateLimitError, routeStatus: 429, retryable: true },
+    { status: 401, type: LlmConfigError, routeStatus: 503, retryable: false },
+    { status: 404, type: LlmConfigError, routeStatus: 503, retryable: false },
+    { status: 500, type: LlmUpstreamError, routeStatus: 502, retryable: true },
+    { status: 400, type: LlmUpstreamError, routeStatus: 502, retryable: false },
+  ])("answers a model HTTP $status with $routeStatus", ({ status, type, routeStatus, retryable }) => {
+    const error = toLlmError(apiError(status));
+
+    expect(error).toBeInstanceOf(type);
+    expect(error).toMatchObject({ status: routeStatus, retryable });
+  });
+
+  it("retries an unreachable endpoint", () => {
+    const error = toLlmError(new OpenAI.APIConnectionError({ message: "Connection error." }));
+
+    expect(error).toBeInstanceOf(LlmUpstreamError);
+    expect(error).toMatchObject({ status: 502, retryable: true });
+  });
+
+  it("keeps errors that are already mapped", () => {
+    const error = new LlmRateLimitError();
+
+    expect(toLlmError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,85 @@
+import OpenAI from "openai";
+import type { LlmProvider, LlmRequest, LlmStreamEvent, LlmUsage } from "./provider";
+import { LlmConfigError, LlmError, LlmRateLimitError, LlmUpstreamError } from "./errors";
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini-2024-07-18";
+
+/** Translates OpenAI SDK errors (also thrown by compatible endpoints). */
+export function toLlmError(error: unknown): LlmError {
+  if (error instanceof LlmError) return error;
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new LlmUpstreamError(`Model endpoint unreachable: ${error.message}`, true);
+  }
+  if (error instanceof OpenAI.APIError) {
+    if (error.status === 429) return new LlmRateLimitError();
+    if (error.status === 401 || error.status === 403) {
+      return new LlmConfigError(`Model endpoint rejected the credentials (${error.status})`);
+    }
+    if (error.status === 404) return new LlmConfigError(`Model not found: ${error.message}`);
+    const status = error.status ?? 0;
+    return new LlmUpstreamError(`Model request failed (${status || "no status"}): ${error.message}`, status >= 500);
+  }
+  return new LlmUpstreamError(error instanceof Error ? error.message : String(error), false);
+}
+
+export class OpenAiProvider implements LlmProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    private model: string = DEFAULT_OPENAI_MODEL,
+  ) {
+    // Timeouts and retries are handled by ResilientLlmProvider.
+    this.client = new OpenAI({ apiKey, maxRetries: 0 });
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    try {
+      const response = await this.client.responses.create(
+        {
+          model: this.model,
+          input: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.prompt },
+          ],
+          ...(request.json ? { text: { format: { type: "json_object" as const } } } : {}),
+        },
+        { signal: request.signal },
+      );
+      return response.output_text ?? "";
+    } catch (error) {
+      throw toLlmError(error);
+    }
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    let usage: LlmUsage | null = null;
+    try {
+      const events = await this.client.responses.create(
+        {
+          model: this.model,
+          input: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.prompt },
+          ],
+          stream: true,
+        },
+        { signal: request.signal },
+      );
+      for await (const event of events) {
+        if (event.type === "response.output_text.delta") {
+          yield { type: "delta", text: event.delta };
+        } else if (event.type === "response.completed" && event.response.usage) {
+          usage = {
+            inputTokens: event.response.usage.input_tokens,
+            outputTokens: event.response.usage.output_tokens,
+          };
+        }
+      }
+    } catch (error) {
+      throw toLlmError(error);
+    }
+    yield { type: "done", usage };
+  }
+}
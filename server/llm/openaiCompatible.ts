@@ -0,0 +1,73 @@
+import OpenAI from "openai";
+import type { LlmProvider, LlmRequest, LlmStreamEvent, LlmUsage } from "./provider";
+import { toLlmError } from "./openai";
+
+// Ollama's default; llama.cpp and LM Studio serve the same API on other ports.
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * A self-hosted model behind an OpenAI-compatible `/chat/completions`
+ * endpoint. Local servers rarely implement the Responses API, hence the
+ * older chat API here.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = "local";
+  private client: OpenAI;
+
+  constructor(
+    baseURL: string,
+    private model: string,
+    apiKey?: string,
+  ) {
+    // Local servers usually ignore the key, but the SDK requires one.
+    this.client = new OpenAI({ baseURL, apiKey: apiKey || "local", maxRetries: 0 });
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.prompt },
+          ],
+          ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+        },
+        { signal: request.signal },
+      );
+      return completion.choices[0]?.message?.content ?? "";
+    } catch (error) {
+      throw toLlmError(error);
+    }
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    let usage: LlmUsage | null = null;
+    try {
+      const chunks = await this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.prompt },
+          ],
+          stream: true,
+          // The last chunk carries usage; servers without support just omit it.
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal },
+      );
+      for await (const chunk of chunks) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield { type: "delta", text };
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+      }
+    } catch (error) {
+      throw toLlmError(error);
+    }
+    yield { type: "done", usage };
+  }
+}
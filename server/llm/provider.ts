@@ -0,0 +1,30 @@
+export interface LlmRequest {
+  system: string;
+  prompt: string;
+  // Ask the model for a single JSON object instead of free text.
+  json?: boolean;
+  // Aborted when the caller stops waiting (e.g. on timeout).
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// A stream is any number of text deltas followed by exactly one `done`.
+export type LlmStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; usage: LlmUsage | null };
+
+/**
+ * Everything the server needs from a language model. Route handlers and
+ * generators only see this interface, so the real API can be swapped for a
+ * local endpoint or the deterministic fake when running without network
+ * access. Implementations throw `LlmError` subclasses.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<string>;
+  stream(request: LlmRequest): AsyncIterable<LlmStreamEvent>;
+}
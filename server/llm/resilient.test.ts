@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeLlmProvider } from "./fake";
+import { LlmRateLimitError, LlmTimeoutError, LlmUpstreamError } from "./errors";
+import type { LlmRequest, LlmStreamEvent } from "./provider";
+import { ResilientLlmProvider } from "./resilient";
+
+const request: LlmRequest = { system: "Tu es un professeur.", prompt: "DOCUMENT:\nUne onde transporte de l'énergie." };
+
+// A reply that never comes, like a model that hangs.
+const hang = () => new Promise<string>(() => {});
+
+// Sends one word, then fails in a way that would otherwise be retried.
+class FailsAfterFirstWord extends FakeLlmProvider {
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    this.requests.push(request);
+    yield { type: "delta", text: "Début " };
+    throw new LlmUpstreamError("Connection reset", true);
+  }
+}
+
+async function collect(events: AsyncIterable<LlmStreamEvent>): Promise<LlmStreamEvent[]> {
+  const collected: LlmStreamEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("ResilientLlmProvider.complete", () => {
+  it("gives up with 504 when the model does not answer in time", async () => {
+    const inner = new FakeLlmProvider([hang]);
+    const provider = new ResilientLlmProvider(inner, { timeoutMs: 1000, maxRetries: 0 });
+
+    const result = expect(provider.complete(request)).rejects.toMatchObject({ status: 504 });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await result;
+    expect(inner.requests[0].signal?.aborted).toBe(true);
+  });
+
+  it("retries a timeout after backing off", async () => {
+    const inner = new FakeLlmProvider([hang, "Réponse"]);
+    const provider = new ResilientLlmProvider(inner, { timeoutMs: 1000, maxRetries: 1 });
+
+    const reply = provider.complete(request);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(inner.requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(500);
+
+    await expect(reply).resolves.toBe("Réponse");
+    expect(inner.requests).toHaveLength(2);
+  });
+
+  it("retries a rate limit, then surfaces it as 429", async () => {
+    const inner = new FakeLlmProvider([new LlmRateLimitError(), new LlmRateLimitError(), new LlmRateLimitError()]);
+    const provider = new ResilientLlmProvider(inner, { timeoutMs: 1000, maxRetries: 2 });
+
+    const result = expect(provider.complete(request)).rejects.toBeInstanceOf(LlmRateLimitError);
+    // Backoff doubles: 500ms, then 1000ms.
+    await vi.advanceTimersByTimeAsync(500);
+    expect(inner.requests).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await result;
+    expect(inner.requests).toHaveLength(3);
+  });
+
+  it("answers once the rate limit clears", async () => {
+    const inner = new FakeLlmProvider([new LlmRateLimitError(), "Réponse"]);
+    const provider = new ResilientLlmProvider(inner, { timeoutMs: 1000, maxRetries: 2 });
+
+    const reply = provider.complete(request);
+    await vi.advanceTimersByTimeAsync(500);
+
+    await expect(reply).resolves.toBe("Réponse");
+  });
+
+  it("does not retry an upstream failure marked final", async () => {
+    const inner = new FakeLlmProvider([new LlmUpstreamError("Bad request", false), "Réponse"]);
+    const provider = new ResilientLlmProvider(inner, { timeoutMs: 1000, maxRetries: 2 });
+
+    await expect(provider.complete(request)).rejects.toMatchObject({ status: 502, message: "Bad request" });
+    expect(inner.requests).toHaveLength(1);
+  });
+
+  it("reports an unexpected error as a 502", async () => {
+    const provider = new ResilientLlmProvider(new FakeLlmProvider([new TypeError("fetch failed")]), {
+      timeoutMs: 1000,
+      maxRetries: 2,
+    });
+
+    const error = await provider.complete(request).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(LlmUpstreamError);
+    expect(error).toMatchObject({ status: 502, message: "fetch failed", retryable: false });
+  });
+});
+
+describe("ResilientLlmProvider.stream", () => {
+  it("retries a stream that fails before its first text", async () => {
+    const inner = new FakeLlmProvider([new LlmUpstreamError("Connection reset", true), "Deux mots"]);
+    const provider = new ResilientLlmProvider(inner, { timeoutMs: 1000, maxRetries: 1 });
+
+    const events = collect(provider.stream(request));
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect((await events).filter((event) => event.type === "delta")).toEqual([
+      { type: "delta", text: "Deux " },
+      { type: "delta", text: "mots" },
+    ]);
+    expect(inner.requests).toHaveLength(2);
+  });
+
+  it("gives up with 504 when the next event does not come in time", async () => {
+    const inner = new FakeLlmProvider(["Une réponse lente"], { tokenDelayMs: 5000 });
+    const provider = new ResilientLlmProvider(inner, { timeoutMs: 1000, maxRetries: 0 });
+
+    const result = expect(collect(provider.stream(request))).rejects.toBeInstanceOf(LlmTimeoutError);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await result;
+    expect(inner.requests[0].signal?.aborted).toBe(true);
+  });
+
+  it("does not retry once text has been passed on", async () => {
+    const inner = new FailsAfterFirstWord();
+    const provider = new ResilientLlmProvider(inner, { timeoutMs: 1000, maxRetries: 2 });
+    const received: LlmStreamEvent[] = [];
+
+    const result = (async () => {
+      for await (const event of provider.stream(request)) received.push(event);
+    })();
+
+    await expect(result).rejects.toMatchObject({ status: 502, message: "Connection reset" });
+    expect(received).toEqual([{ type: "delta", text: "Début " }]);
+    expect(inner.requests).toHaveLength(1);
+  });
+});
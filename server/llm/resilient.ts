@@ -0,0 +1,98 @@
+import type { LlmProvider, LlmRequest, LlmStreamEvent } from "./provider";
+import { LlmError, LlmTimeoutError, LlmUpstreamError } from "./errors";
+
+const BACKOFF_BASE_MS = 500;
+
+export interface ResilienceOptions {
+  timeoutMs: number;
+  // Extra attempts after the first one, for retryable errors only.
+  maxRetries: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function asLlmError(error: unknown): LlmError {
+  return error instanceof LlmError
+    ? error
+    : new LlmUpstreamError(error instanceof Error ? error.message : String(error), false);
+}
+
+/**
+ * Wraps a provider with a timeout and exponential backoff retries. The
+ * timeout also races the call itself, so it holds for providers that ignore
+ * the abort signal. For streams it bounds the wait for each event, and a
+ * stream is only retried until its first text has been passed on.
+ */
+export class ResilientLlmProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(
+    private inner: LlmProvider,
+    private options: ResilienceOptions,
+  ) {
+    this.name = inner.name;
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      try {
+        return await this.withTimeout(this.inner.complete({ ...request, signal: controller.signal }), controller);
+      } catch (error) {
+        const llmError = asLlmError(error);
+        if (!llmError.retryable || attempt >= this.options.maxRetries) throw llmError;
+        await sleep(BACKOFF_BASE_MS * 2 ** attempt);
+      }
+    }
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    for (let attempt = 0; ; attempt++) {
+      let started = false;
+      try {
+        for await (const event of this.streamAttempt(request)) {
+          if (event.type === "delta") started = true;
+          yield event;
+        }
+        return;
+      } catch (error) {
+        const llmError = asLlmError(error);
+        if (started || !llmError.retryable || attempt >= this.options.maxRetries) throw llmError;
+        await sleep(BACKOFF_BASE_MS * 2 ** attempt);
+      }
+    }
+  }
+
+  private async *streamAttempt(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    const controller = new AbortController();
+    const events = this.inner.stream({ ...request, signal: controller.signal })[Symbol.asyncIterator]();
+    try {
+      while (true) {
+        const result = await this.withTimeout(events.next(), controller);
+        if (result.done) return;
+        yield result.value;
+      }
+    } finally {
+      // Stops the upstream request when the consumer gives up early.
+      controller.abort();
+    }
+  }
+
+  private async withTimeout<T>(promise: Promise<T>, controller: AbortController): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LlmTimeoutError(this.options.timeoutMs));
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
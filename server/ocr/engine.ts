@@ -0,0 +1,24 @@
+export type OcrLang = "ar" | "fr";
+
+export interface OcrPage {
+  text: string;
+  // Mean word confidence, 0-100; null when no words were recognised.
+  confidence: number | null;
+}
+
+/**
+ * A text recogniser for one rendered page image (PNG). Engines are local so
+ * scanned worksheets never leave the server.
+ */
+export interface OcrEngine {
+  readonly name: string;
+  recognize(image: Uint8Array, langs: OcrLang[]): Promise<OcrPage>;
+}
+
+/** The engine is missing, misconfigured or crashed. */
+export class OcrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OcrError";
+  }
+}
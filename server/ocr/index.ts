@@ -0,0 +1,25 @@
+import { OcrError, type OcrEngine } from "./engine";
+import { TesseractCliEngine } from "./tesseract";
+
+export type { OcrEngine, OcrLang, OcrPage } from "./engine";
+export { OcrError } from "./engine";
+
+/**
+ * The OCR engine from `OCR_ENGINE`: `tesseract` (default, binary from
+ * `TESSERACT_PATH`, per-page timeout `OCR_TIMEOUT_MS`) or `none` to turn the
+ * scanned-PDF fallback off.
+ */
+export function getOcrEngine(): OcrEngine | null {
+  const name = process.env.OCR_ENGINE || "tesseract";
+
+  switch (name) {
+    case "none":
+      return null;
+    case "tesseract": {
+      const timeoutMs = Number(process.env.OCR_TIMEOUT_MS) || undefined;
+      return new TesseractCliEngine(process.env.TESSERACT_PATH || "tesseract", timeoutMs);
+    }
+    default:
+      throw new OcrError(`Unknown OCR_ENGINE: ${name}`);
+  }
+}
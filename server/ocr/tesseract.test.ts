@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { parseTesseractTsv } from "./tesseract";
+
+const HEADER = "level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext";
+
+// One TSV row; `level` 5 is a word, lower levels are the page, blocks and lines.
+function row(level: number, [block, paragraph, line, word]: number[], conf: number, text = "") {
+  return [level, 1, block, paragraph, line, word, 0, 0, 10, 10, conf, text].join("\t");
+}
+
+describe("parseTesseractTsv", () => {
+  it("joins words into lines and lines into paragraphs", () => {
+    const tsv = [
+      HEADER,
+      row(1, [0, 0, 0, 0], -1),
+      row(4, [1, 1, 1, 0], -1),
+      row(5, [1, 1, 1, 1], 90, "التمرين"),
+      row(5, [1, 1, 1, 2], 80, "الأول"),
+      row(5, [1, 1, 2, 1], 70, "Calculer"),
+      row(5, [1, 2, 1, 1], 60, "Solution"),
+      "",
+    ].join("\n");
+
+    expect(parseTesseractTsv(tsv)).toEqual({
+      text: "التمرين الأول\nCalculer\n\nSolution",
+      confidence: 75,
+    });
+  });
+
+  it("averages confidence over recognised words only", () => {
+    const tsv = [
+      HEADER,
+      row(5, [1, 1, 1, 1], 91, "a"),
+      // Empty words and negative confidences are layout rows, not words.
+      row(5, [1, 1, 1, 2], 10, "  "),
+      row(5, [1, 1, 1, 3], -1, "b"),
+      row(5, [1, 1, 1, 4], 94, "c"),
+    ].join("\n");
+
+    expect(parseTesseractTsv(tsv)).toEqual({ text: "a c", confidence: 93 });
+  });
+
+  it("reports no confidence when nothing was recognised", () => {
+    expect(parseTesseractTsv(`${HEADER}\n${row(1, [0, 0, 0, 0], -1)}\n`)).toEqual({ text: "", confidence: null });
+  });
+
+  it("keeps tabs inside a word's text", () => {
+    const tsv = `${HEADER}\n${row(5, [1, 1, 1, 1], 50, "x\ty")}`;
+
+    expect(parseTesseractTsv(tsv).text).toBe("x\ty");
+  });
+});
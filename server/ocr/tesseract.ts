@@ -0,0 +1,90 @@
+import { spawn } from "node:child_process";
+import type { OcrEngine, OcrLang, OcrPage } from "./engine";
+import { OcrError } from "./engine";
+
+const TESSERACT_LANGS: Record<OcrLang, string> = { ar: "ara", fr: "fra" };
+const WORD_LEVEL = "5";
+
+/**
+ * Rebuilds text from Tesseract's TSV output: words are joined into lines,
+ * lines into paragraphs. The TSV also carries the per-word confidence that
+ * plain-text output drops.
+ */
+export function parseTesseractTsv(tsv: string): OcrPage {
+  const lines: string[] = [];
+  let lineKey = "";
+  let paragraphKey = "";
+  let confidenceSum = 0;
+  let words = 0;
+
+  for (const row of tsv.split("\n").slice(1)) {
+    const cols = row.split("\t");
+    if (cols[0] !== WORD_LEVEL || cols.length < 12) continue;
+    const text = cols.slice(11).join("\t").trim();
+    const confidence = Number(cols[10]);
+    if (!text || confidence < 0) continue;
+
+    const [, page, block, paragraph, line] = cols;
+    const nextParagraph = `${page}.${block}.${paragraph}`;
+    const nextLine = `${nextParagraph}.${line}`;
+    if (nextLine !== lineKey) {
+      if (lines.length > 0 && nextParagraph !== paragraphKey) lines.push("");
+      lines.push(text);
+    } else {
+      lines[lines.length - 1] += ` ${text}`;
+    }
+    lineKey = nextLine;
+    paragraphKey = nextParagraph;
+    confidenceSum += confidence;
+    words++;
+  }
+
+  return {
+    text: lines.join("\n"),
+    confidence: words > 0 ? Math.round(confidenceSum / words) : null,
+  };
+}
+
+/**
+ * Runs the `tesseract` CLI on each page image. Needs the `ara` and `fra`
+ * traineddata installed (e.g. `tesseract-ocr-ara` and `tesseract-ocr-fra`).
+ */
+export class TesseractCliEngine implements OcrEngine {
+  readonly name = "tesseract";
+
+  constructor(
+    private binary: string = "tesseract",
+    private timeoutMs: number = 60000,
+  ) {}
+
+  recognize(image: Uint8Array, langs: OcrLang[]): Promise<OcrPage> {
+    const lang = langs.map((l) => TESSERACT_LANGS[l]).join("+");
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binary, ["stdin", "stdout", "-l", lang, "tsv"], {
+        timeout: this.timeoutMs,
+      });
+      let stdout = "";
+      let stderr = "";
+      child.stdout.setEncoding("utf8").on("data", (chunk: string) => (stdout += chunk));
+      child.stderr.setEncoding("utf8").on("data", (chunk: string) => (stderr += chunk));
+
+      child.on("error", (err: NodeJS.ErrnoException) => {
+        reject(
+          new OcrError(
+            err.code === "ENOENT" ? `Tesseract binary not found: ${this.binary}` : `Tesseract failed: ${err.message}`,
+          ),
+        );
+      });
+      child.on("close", (code, signal) => {
+        if (signal) return reject(new OcrError(`Tesseract stopped by ${signal} (timeout ${this.timeoutMs}ms)`));
+        if (code !== 0) return reject(new OcrError(`Tesseract exited with ${code}: ${stderr.trim()}`));
+        resolve(parseTesseractTsv(stdout));
+      });
+
+      // The child may exit before reading everything (e.g. bad language).
+      child.stdin.on("error", () => {});
+      child.stdin.end(Buffer.from(image));
+    });
+  }
+}
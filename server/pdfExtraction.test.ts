@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from "vitest";
+import type { OcrEngine } from "./ocr";
+import { OcrError } from "./ocr";
+import { extractPdf } from "./pdfExtraction";
+
+// A minimal PDF with one page per entry; `null` pages have no text layer,
+// like a scan.
+function makePdf(pages: (string | null)[]): Uint8Array {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+  pages.forEach((text, i) => {
+    const content = text === null ? "" : `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects[pageIds[i]] =
+      "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] " +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
+
+function fakeEngine(pages: { text: string; confidence: number | null }[]): OcrEngine {
+  return { name: "fake", recognize: vi.fn(async () => pages.shift()!) };
+}
+
+describe("extractPdf", () => {
+  it("reads the text layer without looking up an OCR engine", async () => {
+    const getOcrEngine = vi.fn(() => {
+      throw new OcrError("Unknown OCR_ENGINE: typo");
+    });
+
+    const extraction = await extractPdf(makePdf(["Premier chapitre", null]), getOcrEngine);
+
+    expect(extraction).toEqual({
+      pages: 2,
+      pageTexts: [{ page: 1, text: "Premier chapitre" }],
+      ocr: false,
+    });
+    expect(getOcrEngine).not.toHaveBeenCalled();
+  });
+
+  it("runs OCR on every page when no page has text", async () => {
+    const engine = fakeEngine([
+      { text: "Page lue", confidence: 88 },
+      { text: "", confidence: null },
+    ]);
+
+    const extraction = await extractPdf(makePdf([null, null]), () => engine);
+
+    expect(extraction).toEqual({
+      pages: 2,
+      pageTexts: [{ page: 1, text: "Page lue" }],
+      ocr: true,
+      confidence: [
+        { page: 1, confidence: 88 },
+        { page: 2, confidence: null },
+      ],
+      ocrPages: 2,
+    });
+    expect(engine.recognize).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns no text for a scan when OCR is turned off", async () => {
+    const extraction = await extractPdf(makePdf([null]), () => null);
+
+    expect(extraction).toEqual({ pages: 1, pageTexts: [], ocr: false });
+  });
+
+  it("reports an unusable OCR engine for a scan", async () => {
+    const getOcrEngine = () => {
+      throw new OcrError("Unknown OCR_ENGINE: typo");
+    };
+
+    await expect(extractPdf(makePdf([null]), getOcrEngine)).rejects.toBeInstanceOf(OcrError);
+  });
+});
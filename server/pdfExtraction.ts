@@ -0,0 +1,75 @@
+import { PDFParse } from "pdf-parse";
+import type { OcrEngine, OcrLang } from "./ocr";
+import type { PageText } from "./retrieval";
+
+// Scanned pages are rendered at 2x (144 dpi), enough for Tesseract on
+// worksheet-sized print without huge images.
+const OCR_RENDER_SCALE = 2;
+// Each page costs seconds of CPU; longer scans are cut (see `ocrPages`).
+const MAX_OCR_PAGES = 30;
+const OCR_LANGS: OcrLang[] = ["ar", "fr"];
+
+export interface PageConfidence {
+  page: number;
+  confidence: number | null;
+}
+
+export interface PdfExtraction {
+  pages: number;
+  // Normalized text of every page that has any, in page order.
+  pageTexts: PageText[];
+  // True when the text came from OCR; `confidence` is then set per page.
+  ocr: boolean;
+  confidence?: PageConfidence[];
+  // Pages read by OCR, from the first. Less than `pages` when the scan was cut.
+  ocrPages?: number;
+}
+
+export function normalizeText(input: string): string {
+  return input
+    .replace(/\r/g, "")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Reads the PDF's text layer and, when it has none (a scanned document),
+ * falls back to OCR on rendered page images. The engine is only looked up
+ * then, so OCR misconfiguration never affects PDFs with text.
+ */
+export async function extractPdf(
+  data: Uint8Array,
+  getOcrEngine: () => OcrEngine | null,
+): Promise<PdfExtraction> {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getText();
+    const pageTexts = result.pages
+      .map((page) => ({ page: page.num, text: normalizeText(page.text) }))
+      .filter((page) => page.text);
+    if (pageTexts.length > 0) {
+      return { pages: result.total, pageTexts, ocr: false };
+    }
+    const ocr = getOcrEngine();
+    if (!ocr) {
+      return { pages: result.total, pageTexts, ocr: false };
+    }
+
+    const pageCount = Math.min(result.total, MAX_OCR_PAGES);
+    const confidence: PageConfidence[] = [];
+
+    // One page at a time keeps only a single rendered image in memory.
+    for (let page = 1; page <= pageCount; page++) {
+      const shot = await parser.getScreenshot({ partial: [page], scale: OCR_RENDER_SCALE, imageDataUrl: false });
+      const recognized = await ocr.recognize(shot.pages[0].data, OCR_LANGS);
+      const text = normalizeText(recognized.text);
+      if (text) pageTexts.push({ page, text });
+      confidence.push({ page, confidence: recognized.confidence });
+    }
+
+    return { pages: result.total, pageTexts, ocr: true, confidence, ocrPages: pageCount };
+  } finally {
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { Bm25Index, chunkPages, joinPages, PassageRetriever, splitPages, tokenize, type PageText } from "./retrieval";
+
+function words(prefix: string, count: number): string {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(" ");
+}
+
+const course: PageText[] = [
+  { page: 1, text: "La photosynthèse transforme la lumière en énergie chimique dans les feuilles." },
+  { page: 2, text: "La respiration cellulaire libère l'énergie stockée dans le glucose." },
+  { page: 3, text: "التنفس الخلوي يحرر الطاقة المخزنة في الغلوكوز داخل الميتوكوندري." },
+];
+
+describe("tokenize", () => {
+  it("drops Arabic diacritics, articles and stopwords", () => {
+    expect(tokenize("وَالْمُعادَلَةُ الأولى في الرياضيات")).toEqual(["معادله", "اولي", "رياضيات"]);
+  });
+
+  it("folds Arabic letter variants", () => {
+    expect(tokenize("إلى مستشفى")).toEqual(tokenize("الي مستشفي"));
+    expect(tokenize("المعادلة")).toEqual(tokenize("معادله"));
+  });
+
+  it("drops French accents, case, elisions and stopwords", () => {
+    expect(tokenize("L'Équation du second degré, à 2 inconnues !")).toEqual([
+      "equation",
+      "second",
+      "degre",
+      "inconnues",
+    ]);
+  });
+});
+
+describe("chunkPages", () => {
+  it("never lets a chunk cross a page break", () => {
+    const chunks = chunkPages([
+      { page: 1, text: words("a", 5) },
+      { page: 2, text: words("b", 300) },
+    ]);
+
+    expect(chunks.map(({ id, page }) => ({ id, page }))).toEqual([
+      { id: 0, page: 1 },
+      { id: 1, page: 2 },
+      { id: 2, page: 2 },
+      { id: 3, page: 2 },
+    ]);
+    expect(chunks[0].text).toBe(words("a", 5));
+    expect(chunks.slice(1).every((chunk) => chunk.text.startsWith("b"))).toBe(true);
+  });
+
+  it("overlaps the windows within a page", () => {
+    const [first, second, last] = chunkPages([{ page: 1, text: words("w", 300) }]);
+
+    expect(first.text.split(" ")).toHaveLength(160);
+    expect(second.text.split(" ")[0]).toBe("w120");
+    expect(first.text.endsWith("w159")).toBe(true);
+    expect(last.text.endsWith("w299")).toBe(true);
+  });
+});
+
+describe("Bm25Index", () => {
+  const index = new Bm25Index(chunkPages(course));
+
+  it("ranks the page that answers the question first", () => {
+    const [best] = index.search("Que libère la respiration cellulaire ?", 3);
+
+    expect(best.page).toBe(2);
+  });
+
+  it("matches an Arabic question against Arabic text", () => {
+    expect(index.search("ماذا يحرر التنفس الخلوي؟", 3).map((chunk) => chunk.page)).toEqual([3]);
+  });
+
+  it("returns at most the top k chunks, best first", () => {
+    const results = index.search("énergie glucose lumière", 2);
+
+    expect(results).toHaveLength(2);
+    expect(results[0].score).toBeGreaterThanOrEqual(results[1].score);
+  });
+
+  it("finds nothing for an empty question or one made of stopwords", () => {
+    expect(index.search("", 3)).toEqual([]);
+    expect(index.search("  ?! ", 3)).toEqual([]);
+    expect(index.search("que de la", 3)).toEqual([]);
+  });
+});
+
+describe("PassageRetriever", () => {
+  it("falls back to the opening of the document when nothing matches", () => {
+    const retriever = new PassageRetriever(course);
+
+    expect(retriever.retrieve("", 2, 10_000).map((chunk) => chunk.page)).toEqual([1, 2]);
+  });
+
+  it("keeps the best passages within the character budget, in document order", () => {
+    const retriever = new PassageRetriever(course);
+
+    const passages = retriever.retrieve("glucose énergie respiration", 3, course[1].text.length);
+
+    expect(passages.map((chunk) => chunk.page)).toEqual([2]);
+  });
+});
+
+describe("joinPages and splitPages", () => {
+  it("round-trip the page numbers", () => {
+    const pages = [course[0], { page: 3, text: "Troisième page\navec deux lignes." }];
+
+    const text = joinPages(pages, 3);
+
+    expect(text).toContain("-- 3 of 3 --");
+    expect(splitPages(text)).toEqual(pages);
+  });
+
+  it("reads text without page markers as one unnumbered page", () => {
+    expect(splitPages("  Texte collé.\n")).toEqual([{ page: null, text: "Texte collé." }]);
+    expect(joinPages([{ page: null, text: "Texte collé." }], 0)).toBe("Texte collé.");
+  });
+
+  it("keeps text after the last marker as an unnumbered page", () => {
+    expect(splitPages("Page un\n-- 1 of 1 --\nNote ajoutée")).toEqual([
+      { page: 1, text: "Page un" },
+      { page: null, text: "Note ajoutée" },
+    ]);
+  });
+});
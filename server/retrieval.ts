@@ -0,0 +1,197 @@
+// Extracted text marks the end of every page with a `-- 3 of 12 --` line
+// (pdf-parse's own page joiner), which is how passages keep their page
+// numbers after the text has round-tripped through the client.
+const PAGE_MARKER = /^-- (\d+) of \d+ --$/gm;
+
+function formatPageMarker(page: number, total: number): string {
+  return `-- ${page} of ${total} --`;
+}
+
+const CHUNK_WORDS = 160;
+const CHUNK_OVERLAP_WORDS = 40;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface PageText {
+  // null when the text carries no page markers (e.g. pasted text).
+  page: number | null;
+  text: string;
+}
+
+export interface Chunk {
+  id: number;
+  page: number | null;
+  text: string;
+}
+
+export interface ScoredChunk extends Chunk {
+  score: number;
+}
+
+const STOPWORDS = new Set([
+  // Arabic (after normalization)
+  "في", "من", "علي", "الي", "عن", "مع", "هذا", "هذه", "ذلك", "تلك", "التي", "الذي", "الذين",
+  "هو", "هي", "هم", "ان", "او", "ما", "ماذا", "لماذا", "كيف", "متي", "اين", "هل", "كان", "كانت",
+  "لا", "لم", "لن", "قد", "ثم", "كل", "بين", "عند", "حتي", "اذا", "به", "بها", "له", "لها",
+  // French
+  "le", "la", "les", "un", "une", "des", "du", "de", "et", "ou", "en", "au", "aux", "dans", "par",
+  "pour", "sur", "avec", "est", "sont", "que", "qui", "quoi", "quel", "quelle", "quels", "quelles",
+  "ce", "cet", "cette", "ces", "il", "elle", "ils", "elles", "se", "sa", "son", "ses", "pas", "ne",
+  "plus", "comment", "pourquoi", "quand", "où",
+]);
+
+// Arabic definite article, alone or behind a one-letter conjunction/preposition.
+const ARABIC_ARTICLE = /^(?:[وفبكل]?ال|لل)(?=\p{L}{2,})/u;
+
+/**
+ * Folds the spelling variation that should not affect matching: case, French
+ * accents, Arabic diacritics and tatweel, and the alef/ya/ta marbuta variants.
+ */
+export function normalizeForSearch(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, "")
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه");
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeForSearch(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .map((token) => token.replace(ARABIC_ARTICLE, ""))
+    .filter((token) => token.length >= 2 && !STOPWORDS.has(token));
+}
+
+/** Inverse of `splitPages`: the text the extract route sends to clients. */
+export function joinPages(pages: PageText[], total: number): string {
+  return pages
+    .map(({ page, text }) => (page !== null ? `${text}\n${formatPageMarker(page, total)}\n` : text))
+    .join("\n");
+}
+
+/** Splits extracted text at the page markers written by the extract route. */
+export function splitPages(text: string): PageText[] {
+  const pages: PageText[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(PAGE_MARKER)) {
+    const pageText = text.slice(start, match.index).trim();
+    if (pageText) pages.push({ page: Number(match[1]), text: pageText });
+    start = match.index + match[0].length;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) pages.push({ page: null, text: rest });
+  return pages;
+}
+
+/**
+ * Cuts every page into overlapping word windows. Windows never span two
+ * pages, so each passage cites exactly one page.
+ */
+export function chunkPages(pages: PageText[]): Chunk[] {
+  const chunks: Chunk[] = [];
+  const step = CHUNK_WORDS - CHUNK_OVERLAP_WORDS;
+
+  for (const { page, text } of pages) {
+    const words = text.split(/\s+/).filter(Boolean);
+    for (let start = 0; start < words.length; start += step) {
+      chunks.push({ id: chunks.length, page, text: words.slice(start, start + CHUNK_WORDS).join(" ") });
+      if (start + CHUNK_WORDS >= words.length) break;
+    }
+  }
+
+  return chunks;
+}
+
+/** Okapi BM25 over a fixed set of chunks. */
+export class Bm25Index {
+  private docTerms: Map<string, number>[];
+  private docLengths: number[];
+  private avgLength: number;
+  private docFreq = new Map<string, number>();
+
+  constructor(private chunks: Chunk[]) {
+    this.docTerms = chunks.map((chunk) => {
+      const terms = new Map<string, number>();
+      for (const token of tokenize(chunk.text)) {
+        terms.set(token, (terms.get(token) ?? 0) + 1);
+      }
+      return terms;
+    });
+    this.docLengths = this.docTerms.map((terms) => {
+      let length = 0;
+      terms.forEach((count) => (length += count));
+      return length;
+    });
+    this.avgLength = this.docLengths.reduce((sum, n) => sum + n, 0) / Math.max(chunks.length, 1);
+
+    for (const terms of this.docTerms) {
+      for (const term of terms.keys()) {
+        this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+      }
+    }
+  }
+
+  private idf(term: string): number {
+    const n = this.docFreq.get(term) ?? 0;
+    return Math.log(1 + (this.chunks.length - n + 0.5) / (n + 0.5));
+  }
+
+  /** Chunks with a positive score, best first; ties keep document order. */
+  search(query: string, limit: number): ScoredChunk[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const scored: ScoredChunk[] = [];
+
+    this.chunks.forEach((chunk, i) => {
+      const terms = this.docTerms[i];
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * this.docLengths[i]) / (this.avgLength || 1));
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = terms.get(term);
+        if (!tf) continue;
+        score += (this.idf(term) * tf * (BM25_K1 + 1)) / (tf + norm);
+      }
+      if (score > 0) scored.push({ ...chunk, score });
+    });
+
+    return scored.sort((a, b) => b.score - a.score || a.id - b.id).slice(0, limit);
+  }
+}
+
+/**
+ * Chunks and index for one document, built once and reused for every
+ * question about it.
+ */
+export class PassageRetriever {
+  private chunks: Chunk[];
+  private index: Bm25Index;
+
+  constructor(pages: PageText[]) {
+    this.chunks = chunkPages(pages);
+    this.index = new Bm25Index(this.chunks);
+  }
+
+  /**
+   * The passages to answer a question from: the best BM25 matches within a
+   * character budget, or the opening of the document when nothing matches
+   * (e.g. "summarize this"), returned in document order.
+   */
+  retrieve(question: string, limit: number, maxChars: number): Chunk[] {
+    const ranked = this.index.search(question, limit);
+    const candidates: Chunk[] = ranked.length > 0 ? ranked : this.chunks.slice(0, limit);
+
+    const selected: Chunk[] = [];
+    let used = 0;
+    for (const chunk of candidates) {
+      if (selected.length > 0 && used + chunk.text.length > maxChars) break;
+      selected.push(chunk);
+      used += chunk.text.length;
+    }
+
+    return selected.sort((a, b) => a.id - b.id);
+  }
+}
@@ -0,0 +1,192 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { readServerSentEvents } from "@/lib/sse";
+import { FakeLlmProvider } from "./llm/fake";
+import { LlmRateLimitError, LlmUpstreamError, type LlmProvider, type LlmRequest } from "./llm";
+import { joinPages } from "./retrieval";
+import { registerRoutes } from "./routes";
+
+const llm = vi.hoisted(() => ({ provider: null as LlmProvider | null }));
+
+vi.mock("./llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./llm")>()),
+  getLlmProvider: () => llm.provider!,
+}));
+
+// Fails where the fake would send `done`, after every word went out.
+class MidStreamFailureProvider extends FakeLlmProvider {
+  async *stream(request: LlmRequest) {
+    for await (const event of super.stream(request)) {
+      if (event.type === "done") throw new LlmUpstreamError("Model connection reset", true);
+      yield event;
+    }
+  }
+}
+
+// Records how far the stream got and whether it was closed.
+class TrackedProvider extends FakeLlmProvider {
+  sent = 0;
+  closed = false;
+
+  async *stream(request: LlmRequest) {
+    try {
+      for await (const event of super.stream(request)) {
+        this.sent++;
+        yield event;
+      }
+    } finally {
+      this.closed = true;
+    }
+  }
+}
+
+const contextText = joinPages(
+  [
+    { page: 1, text: "La photosynthèse transforme la lumière en énergie chimique dans les feuilles." },
+    { page: 2, text: "La respiration cellulaire libère l'énergie stockée dans le glucose." },
+  ],
+  2,
+);
+
+let server: Server;
+let baseUrl: string;
+let token: string;
+
+function askStream(question: string, init: RequestInit = {}) {
+  return fetch(`${baseUrl}/api/pdf/qa/stream`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ question, contextText, answerLang: "fr" }),
+    ...init,
+  });
+}
+
+async function collect(res: Response) {
+  const events = [];
+  for await (const event of readServerSentEvents(res)) {
+    events.push({ event: event.event, data: JSON.parse(event.data) });
+  }
+  return events;
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const res = await fetch(`${baseUrl}/api/auth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: "stream_tester", password: "correct horse battery" }),
+  });
+  token = ((await res.json()) as { token: string }).token;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  // The route logs every failure it reports.
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("POST /api/pdf/qa/stream", () => {
+  it("sends the answer as token events, then one done event", async () => {
+    llm.provider = new FakeLlmProvider(["Elle produit de l'énergie chimique."]);
+
+    const res = await askStream("Que produit la photosynthèse ?");
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("text/event-stream; charset=utf-8");
+    const body = await res.text();
+    expect(body.startsWith('event: token\ndata: {"text":"Elle "}\n\n')).toBe(true);
+    expect(body.endsWith("\n\n")).toBe(true);
+
+    const events = await collect(new Response(body));
+    const tokens = events.filter((e) => e.event === "token").map((e) => e.data.text);
+    expect(tokens.join("")).toBe("Elle produit de l'énergie chimique.");
+    expect(events.at(-1)).toEqual({
+      event: "done",
+      data: { pages: [1], usage: { inputTokens: expect.any(Number), outputTokens: 5 } },
+    });
+    expect(events.filter((e) => e.event === "done")).toHaveLength(1);
+  });
+
+  it("answers a failure before the first token with its own status", async () => {
+    llm.provider = new FakeLlmProvider([new LlmRateLimitError()]);
+
+    const res = await askStream("Que produit la photosynthèse ?");
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("content-type")).toMatch(/^application\/json/);
+    expect(await res.json()).toEqual({ message: "Model rate limit reached, try again shortly" });
+  });
+
+  it("ends with an error event when the model fails mid-answer", async () => {
+    llm.provider = new MidStreamFailureProvider(["Elle produit de l'énergie."]);
+
+    const res = await askStream("Que produit la photosynthèse ?");
+
+    expect(res.status).toBe(200);
+    const events = await collect(res);
+    expect(events.filter((e) => e.event === "token").map((e) => e.data.text).join("")).toBe(
+      "Elle produit de l'énergie.",
+    );
+    expect(events.at(-1)).toEqual({
+      event: "error",
+      data: { message: "Model connection reset", status: 502 },
+    });
+    expect(events.some((e) => e.event === "done")).toBe(false);
+  });
+
+  it("stops the model stream when the client disconnects", async () => {
+    const provider = new TrackedProvider([Array(200).fill("mot").join(" ")], { tokenDelayMs: 5 });
+    llm.provider = provider;
+    const controller = new AbortController();
+
+    const res = await askStream("Que produit la photosynthèse ?", { signal: controller.signal });
+    const events = readServerSentEvents(res);
+    expect((await events.next()).value).toEqual({ event: "token", data: JSON.stringify({ text: "mot " }) });
+    controller.abort();
+    await events.return(undefined).catch(() => undefined);
+
+    await vi.waitFor(() => expect(provider.closed).toBe(true));
+    expect(provider.sent).toBeLessThan(200);
+  });
+});
+
+describe("POST /api/pdf/lessons", () => {
+  function generate(body: Record<string, unknown>) {
+    return fetch(`${baseUrl}/api/pdf/lessons`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("returns the generated pack", async () => {
+    llm.provider = new FakeLlmProvider();
+
+    const res = await generate({ text: contextText, lang: "fr", subjectId: "svt" });
+
+    expect(res.status).toBe(200);
+    const { pack } = (await res.json()) as { pack: { subjects: unknown[]; lessons: { subject_id: string }[] } };
+    expect(pack.subjects).toEqual([]);
+    expect(pack.lessons.map((lesson) => lesson.subject_id)).toEqual(["svt"]);
+  });
+
+  it("answers a malformed model reply with 422", async () => {
+    llm.provider = new FakeLlmProvider(['{"lessons": "none"}']);
+
+    const res = await generate({ text: contextText, lang: "fr" });
+
+    expect(res.status).toBe(422);
+    expect(((await res.json()) as { message: string }).message).toMatch(/^Model reply does not match the lesson schema/);
+  });
+});
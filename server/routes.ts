@@ -1,26 +1,80 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "node:http";
 import multer from "multer";
-import * as pdfParse from "pdf-parse";
-import OpenAI from "openai";
+import { getLlmProvider, LlmError } from "./llm";
+import { generateLessonPack, LessonGenerationError } from "./lessonGenerator";
+import { answerQuestion, streamAnswer, type QaInput } from "./documentQa";
+import { extractPdf, normalizeText } from "./pdfExtraction";
+import { PassageRetriever, joinPages, splitPages } from "./retrieval";
+import { registerAuthRoutes, requireAuth } from "./auth";
+import { hashDocument, type StoredDocument } from "./documentStore";
+import { deleteDocument, getRetriever } from "./documents";
+import { storage } from "./storage";
+import { getOcrEngine, OcrError } from "./ocr";
 
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 25 * 1024 * 1024 }, // 25MB
 });
 
-function normalizeText(input: string): string {
-  return input
-    .replace(/\r/g, "")
-    .replace(/[ \t]+\n/g, "\n")
-    .replace(/\n{3,}/g, "\n\n")
-    .trim();
+// Model failures carry their own status: 503 misconfigured, 504 timed out,
+// 429 rate limited, 502 upstream error.
+function sendLlmError(res: Response, err: unknown, fallback: string) {
+  if (err instanceof LlmError) {
+    return res.status(err.status).json({ message: err.message });
+  }
+  return res.status(500).json({ message: fallback });
 }
 
-function requireEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
+// `documentId` is set for stored documents, whose exchanges are kept as history.
+type QaRequest = { input: QaInput; documentId?: string } | { status: number; message: string };
+
+// Questions name a stored document by `documentId`, or send its text as
+// `contextText` (clients that predate the document store).
+async function readQaInput(req: Request): Promise<QaRequest> {
+  const { question, documentId, contextText, answerLang } = req.body as {
+    question?: string;
+    documentId?: string;
+    contextText?: string;
+    answerLang?: "ar" | "fr";
+  };
+
+  if (!question || (!documentId && !contextText)) {
+    return { status: 400, message: "Missing question, or documentId/contextText" };
+  }
+  if (answerLang !== "ar" && answerLang !== "fr") {
+    return { status: 400, message: "answerLang must be 'ar' or 'fr'" };
+  }
+
+  const retriever = documentId
+    ? await getRetriever(documentId, req.user!.id)
+    : new PassageRetriever(splitPages(contextText!));
+  if (!retriever) return { status: 404, message: "Document not found" };
+
+  return { input: { question, retriever, lang: answerLang }, documentId };
+}
+
+async function recordExchange(
+  userId: string,
+  documentId: string | undefined,
+  input: QaInput,
+  answer: string,
+  pages: number[],
+) {
+  if (!documentId) return;
+  await storage.addQaMessages([
+    { userId, documentId, role: "user", content: input.question, lang: input.lang, pages: [] },
+    { userId, documentId, role: "assistant", content: answer, lang: input.lang, pages },
+  ]);
+}
+
+function documentResponse(document: StoredDocument) {
+  const { pageTexts, ...meta } = document;
+  return { ...meta, text: joinPages(pageTexts, document.pages) };
+}
+
+function writeSse(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -30,7 +84,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return res.status(200).json({ ok: true });
   });
 
-  // 1) Upload PDF -> Extract text (field name: file)
+  registerAuthRoutes(app);
+
+  // Everything under /api/pdf needs a signed-in user (`req.user`).
+  app.use("/api/pdf", requireAuth);
+
+  // 1) Upload PDF -> Extract text (field name: file), with OCR for scanned PDFs
   app.post("/api/pdf/extract", upload.single("file"), async (req: Request, res: Response) => {
     try {
       const file = req.file;
@@ -42,75 +101,245 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (!mimeOk) return res.status(400).json({ message: "File is not a PDF" });
 
-      const data = await (pdfParse as any)(file.buffer);
-      const text = normalizeText(data.text || "");
+      // Re-uploads of a known file skip parsing (and OCR) entirely; the user
+      // keeps the name they first uploaded it under.
+      const id = hashDocument(file.buffer);
+      const owned = await storage.getDocument(id, req.user!.id);
+      if (owned) return res.status(200).json(documentResponse(owned));
 
-      if (!text) {
+      const stored = await storage.findDocument(id);
+      if (stored) {
+        const document = { ...stored, filename: file.originalname, createdAt: new Date().toISOString() };
+        await storage.addDocument(document, req.user!.id);
+        return res.status(200).json(documentResponse(document));
+      }
+
+      const extraction = await extractPdf(file.buffer, getOcrEngine);
+      if (extraction.pageTexts.length === 0) {
         return res.status(422).json({
-          message: "No extractable text found in this PDF (maybe scanned images).",
+          message: extraction.ocr
+            ? "No text could be recognised in this scanned PDF."
+            : "No extractable text found in this PDF (maybe scanned images).",
         });
       }
 
-      return res.status(200).json({
+      const document: StoredDocument = {
+        id,
         filename: file.originalname,
-        pages: data.numpages ?? null,
-        text,
-      });
+        pages: extraction.pages,
+        size: file.size,
+        ocr: extraction.ocr,
+        ...(extraction.confidence ? { confidence: extraction.confidence } : {}),
+        ...(extraction.ocrPages !== undefined ? { ocrPages: extraction.ocrPages } : {}),
+        createdAt: new Date().toISOString(),
+        pageTexts: extraction.pageTexts,
+      };
+      await storage.addDocument(document, req.user!.id);
+
+      return res.status(200).json(documentResponse(document));
     } catch (err) {
       console.error(err);
+      if (err instanceof OcrError) {
+        return res.status(503).json({ message: `This PDF needs OCR, which is unavailable: ${err.message}` });
+      }
       return res.status(500).json({ message: "PDF extraction failed" });
     }
   });
 
-  // 2) QA using OpenAI directly (Arabic/French)
-  app.post("/api/pdf/qa", async (req: Request, res: Response) => {
+  // 2) Extracted text -> lesson drafts and MCQs, returned as an importable content pack
+  app.post("/api/pdf/lessons", async (req: Request, res: Response) => {
     try {
-      const { question, contextText, answerLang } = req.body as {
-        question?: string;
-        contextText?: string;
-        answerLang?: "ar" | "fr";
+      const { text, title, lang, subjectId, subjectName } = req.body as {
+        text?: string;
+        title?: string;
+        lang?: "ar" | "fr";
+        subjectId?: string;
+        subjectName?: string;
       };
 
-      if (!question || !contextText) {
-        return res.status(400).json({ message: "Missing question or contextText" });
+      if (!text || !text.trim()) {
+        return res.status(400).json({ message: "Missing text" });
       }
-      if (answerLang !== "ar" && answerLang !== "fr") {
-        return res.status(400).json({ message: "answerLang must be 'ar' or 'fr'" });
+      if (lang !== undefined && lang !== "ar" && lang !== "fr") {
+        return res.status(400).json({ message: "lang must be 'ar' or 'fr'" });
       }
 
-      const apiKey = requireEnv("OPENAI_API_KEY");
-      const model = process.env.OPENAI_MODEL || "gpt-4o-mini-2024-07-18";
-
-      const client = new OpenAI({ apiKey });
-
-      const system =
-        answerLang === "fr"
-          ? "Tu réponds en français. Réponse claire, directe, et basée uniquement sur le texte fourni. Si l'info n'existe pas dans le texte, dis: 'Information non trouvée dans le document.'"
-          : "أجب بالعربية فقط. جواب واضح ومباشر ومبني فقط على النص المُعطى. إذا المعلومة غير موجودة في النص قل: 'المعلومة غير موجودة في الوثيقة.'";
-
-      const response = await client.responses.create({
-        model,
-        input: [
-          { role: "system", content: system },
-          {
-            role: "user",
-            content:
-              "DOCUMENT:\n" +
-              contextText +
-              "\n\nQUESTION:\n" +
-              question +
-              "\n\nRULES:\n- Use only the document.\n- If not found, say exactly the not-found sentence from system.\n",
-          },
-        ],
+      const pack = await generateLessonPack(getLlmProvider(), {
+        text: normalizeText(text),
+        title,
+        lang: lang ?? "ar",
+        subjectId,
+        subjectName,
       });
 
-      // Node SDK يعطيك النص النهائي بهذه الخاصية غالباً
-      const answer = (response as any).output_text ?? "";
+      return res.status(200).json({ pack });
+    } catch (err) {
+      console.error(err);
+      if (err instanceof LessonGenerationError) {
+        return res.status(422).json({ message: err.message });
+      }
+      return sendLlmError(res, err, "Lesson generation failed");
+    }
+  });
+
+  // 3) QA over the passages that best match the question (Arabic/French)
+  app.post("/api/pdf/qa", async (req: Request, res: Response) => {
+    try {
+      const request = await readQaInput(req);
+      if ("status" in request) {
+        return res.status(request.status).json({ message: request.message });
+      }
+
+      const { answer, pages } = await answerQuestion(getLlmProvider(), request.input);
+      await recordExchange(req.user!.id, request.documentId, request.input, answer, pages);
+
+      return res.status(200).json({ answer, pages });
+    } catch (err) {
+      console.error(err);
+      return sendLlmError(res, err, "QA failed");
+    }
+  });
+
+  // 4) Same as 3) streamed as Server-Sent Events: `token` events with
+  // {text}, then one `done` event with {pages, usage}, or an `error` event
+  // with {message, status} if the model fails mid-answer.
+  app.post("/api/pdf/qa/stream", async (req: Request, res: Response) => {
+    let closed = false;
+    res.on("close", () => {
+      closed = true;
+    });
+
+    try {
+      const request = await readQaInput(req);
+      if ("status" in request) {
+        return res.status(request.status).json({ message: request.message });
+      }
+
+      const events = streamAnswer(getLlmProvider(), request.input);
+      // Wait for the first event before committing to a 200, so failures
+      // before any text (config, timeouts, rate limits) keep their status.
+      let next = await events.next();
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      let answer = "";
+      while (!next.done && !closed) {
+        const event = next.value;
+        if (event.type === "delta") {
+          answer += event.text;
+          writeSse(res, "token", { text: event.text });
+        } else {
+          await recordExchange(req.user!.id, request.documentId, request.input, answer, event.pages);
+          writeSse(res, "done", { pages: event.pages, usage: event.usage });
+        }
+        next = await events.next();
+      }
+      if (closed) await events.return(undefined);
+      res.end();
+    } catch (err) {
+      console.error(err);
+      if (!res.headersSent) {
+        return sendLlmError(res, err, "QA failed");
+      }
+      const status = err instanceof LlmError ? err.status : 500;
+      writeSse(res, "error", { message: err instanceof Error ? err.message : "QA failed", status });
+      res.end();
+    }
+  });
+
+  // 5) The user's stored documents, keyed by the sha256 returned from /api/pdf/extract
+  app.get("/api/pdf/documents", async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json({ documents: await storage.listDocuments(req.user!.id) });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Listing documents failed" });
+    }
+  });
 
-      return res.status(200).json({ answer });
+  app.get("/api/pdf/documents/:id", async (req: Request, res: Response) => {
+    try {
+      const document = await storage.getDocument(String(req.params.id), req.user!.id);
+      if (!document) return res.status(404).json({ message: "Document not found" });
+      return res.status(200).json({ ...documentResponse(document), pageTexts: document.pageTexts });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Loading document failed" });
+    }
+  });
+
+  app.delete("/api/pdf/documents/:id", async (req: Request, res: Response) => {
+    try {
+      const deleted = await deleteDocument(String(req.params.id), req.user!.id);
+      if (!deleted) return res.status(404).json({ message: "Document not found" });
+      return res.status(204).end();
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Deleting document failed" });
+    }
+  });
+
+  app.get("/api/pdf/documents/:id/messages", async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      if (!(await storage.isDocumentOwner(id, req.user!.id))) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      return res.status(200).json({ messages: await storage.getQaMessages(req.user!.id, id) });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Loading history failed" });
+    }
+  });
+
+  app.delete("/api/pdf/documents/:id/messages", async (req: Request, res: Response) => {
+    try {
+      await storage.clearQaMessages(req.user!.id, String(req.params.id));
+      return res.status(204).end();
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Clearing history failed" });
+    }
+  });
+
+  // 6) Study progress snapshot, so it follows the student across devices.
+  // The newer of the stored and sent snapshots wins and is returned.
+  app.use("/api/progress", requireAuth);
+
+  app.get("/api/progress", async (req: Request, res: Response) => {
+    try {
+      const progress = await storage.getProgress(req.user!.id);
+      return res.status(200).json({ progress: progress ?? null });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Loading progress failed" });
+    }
+  });
+
+  app.put("/api/progress", async (req: Request, res: Response) => {
+    try {
+      const { data, updatedAt } = req.body as { data?: unknown; updatedAt?: string };
+      const timestamp = updatedAt ? new Date(updatedAt) : null;
+      if (!data || typeof data !== "object" || Array.isArray(data)) {
+        return res.status(400).json({ message: "data must be an object" });
+      }
+      if (!timestamp || Number.isNaN(timestamp.getTime())) {
+        return res.status(400).json({ message: "updatedAt must be an ISO date" });
+      }
+
+      const progress = await storage.saveProgress({
+        userId: req.user!.id,
+        data: data as Record<string, unknown>,
+        updatedAt: timestamp,
+      });
+      return res.status(200).json({ progress });
     } catch (err) {
       console.error(err);
-      return res.status(500).json({ message: "QA failed" });
+      return res.status(500).json({ message: "Saving progress failed" });
     }
   });
 
@@ -0,0 +1,273 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { DataType, newDb } from "pg-mem";
+import * as schema from "@shared/schema";
+import { DbStorage } from "./dbStorage";
+import { FileDocumentStore, type StoredDocument } from "./documentStore";
+import { MemStorage, type IStorage } from "./storage";
+import { DuplicateUsernameError } from "./storageErrors";
+
+// pg-mem rejects two query options node-postgres passes through Drizzle:
+// custom `types` parsers, and `rowMode: "array"`, which is emulated here with
+// timestamps formatted the way Postgres sends them.
+function adaptQuery<T extends { query: (...args: any[]) => Promise<any> }>(client: T): T {
+  const query = client.query.bind(client);
+  client.query = (async (config: any, ...rest: any[]) => {
+    if (!config || typeof config !== "object") return query(config, ...rest);
+    const { types: _types, rowMode, ...plain } = config;
+    const result = await query(plain, ...rest);
+    if (rowMode === "array") {
+      result.rows = result.rows.map((row: Record<string, unknown>) =>
+        Object.values(row).map((value) =>
+          value instanceof Date ? value.toISOString().replace("T", " ").replace("Z", "") : value,
+        ),
+      );
+    }
+    return result;
+  }) as T["query"];
+  return client;
+}
+
+async function createPgMemStorage(): Promise<DbStorage> {
+  const db = newDb();
+  db.public.registerFunction({
+    name: "gen_random_uuid",
+    returns: DataType.uuid,
+    implementation: randomUUID,
+    impure: true,
+  });
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    db.public.none(statement.replaceAll(`"public".`, ""));
+  }
+
+  const { Pool } = db.adapters.createPg();
+  const pool = adaptQuery(new Pool());
+  const connect = pool.connect.bind(pool);
+  pool.connect = async () => adaptQuery(await connect());
+  return new DbStorage(drizzle(pool));
+}
+
+function makeDocument(overrides: Partial<StoredDocument> = {}): StoredDocument {
+  return {
+    id: randomUUID().replaceAll("-", "").padEnd(64, "0"),
+    filename: "cours.pdf",
+    pages: 2,
+    size: 1024,
+    ocr: false,
+    createdAt: new Date("2026-03-01T10:00:00.000Z").toISOString(),
+    pageTexts: [
+      { page: 1, text: "Première page" },
+      { page: 2, text: "Deuxième page" },
+    ],
+    ...overrides,
+  };
+}
+
+// The part of a document every owner shares.
+function fileOf({ filename: _filename, createdAt: _createdAt, ...file }: StoredDocument) {
+  return file;
+}
+
+const backends: { name: string; create: () => Promise<{ storage: IStorage; cleanup: () => Promise<void> }> }[] = [
+  {
+    name: "MemStorage",
+    create: async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "brevti-documents-"));
+      return {
+        storage: new MemStorage(new FileDocumentStore(dir)),
+        cleanup: () => fs.rm(dir, { recursive: true, force: true }),
+      };
+    },
+  },
+  {
+    name: "DbStorage",
+    create: async () => ({ storage: await createPgMemStorage(), cleanup: async () => {} }),
+  },
+];
+
+describe.each(backends)("$name", ({ create }) => {
+  let storage: IStorage;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ storage, cleanup } = await create());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  const createUser = (username = "amina") => storage.createUser({ username, password: "scrypt:00:00" });
+
+  describe("users and sessions", () => {
+    it("finds a created user by id and username", async () => {
+      const user = await createUser();
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("amina")).toEqual(user);
+      expect(await storage.getUserByUsername("someone")).toBeUndefined();
+    });
+
+    it("rejects a second user with the same username", async () => {
+      await createUser();
+
+      await expect(createUser()).rejects.toBeInstanceOf(DuplicateUsernameError);
+    });
+
+    it("creates, reads and deletes sessions", async () => {
+      const user = await createUser();
+      const session = { id: "token-hash", userId: user.id, expiresAt: new Date("2026-04-01T00:00:00.000Z") };
+
+      await storage.createSession(session);
+      expect(await storage.getSession("token-hash")).toEqual(session);
+
+      await storage.deleteSession("token-hash");
+      expect(await storage.getSession("token-hash")).toBeUndefined();
+    });
+  });
+
+  describe("documents", () => {
+    it("stores a document for its owner only", async () => {
+      const owner = await createUser("owner");
+      const other = await createUser("other");
+      const document = makeDocument({ ocr: true, ocrPages: 1, confidence: [{ page: 1, confidence: 72 }] });
+
+      await storage.addDocument(document, owner.id);
+
+      expect(await storage.findDocument(document.id)).toEqual(fileOf(document));
+      expect(await storage.getDocument(document.id, owner.id)).toEqual(document);
+      expect(await storage.getDocument(document.id, other.id)).toBeUndefined();
+      expect(await storage.isDocumentOwner(document.id, owner.id)).toBe(true);
+      expect(await storage.isDocumentOwner(document.id, other.id)).toBe(false);
+
+      const { pageTexts: _pageTexts, ...meta } = document;
+      expect(await storage.listDocuments(owner.id)).toEqual([meta]);
+      expect(await storage.listDocuments(other.id)).toEqual([]);
+    });
+
+    it("shares one stored copy between the users who added it", async () => {
+      const first = await createUser("first");
+      const second = await createUser("second");
+      const document = makeDocument();
+      const secondUpload = { ...document, filename: "physique.pdf", createdAt: "2026-03-05T08:30:00.000Z" };
+
+      await storage.addDocument(document, first.id);
+      await storage.addDocument(secondUpload, second.id);
+      // Adding it again is a no-op.
+      await storage.addDocument({ ...document, filename: "renamed.pdf" }, first.id);
+
+      expect(await storage.isDocumentOwner(document.id, first.id)).toBe(true);
+      expect(await storage.isDocumentOwner(document.id, second.id)).toBe(true);
+      expect(await storage.listDocuments(first.id)).toHaveLength(1);
+
+      // Each owner sees the name and time of their own upload.
+      expect(await storage.getDocument(document.id, first.id)).toEqual(document);
+      expect(await storage.getDocument(document.id, second.id)).toEqual(secondUpload);
+      const [listed] = await storage.listDocuments(second.id);
+      expect(listed).toMatchObject({ filename: "physique.pdf", createdAt: "2026-03-05T08:30:00.000Z" });
+    });
+
+    it("deletes the document with its last owner", async () => {
+      const first = await createUser("first");
+      const second = await createUser("second");
+      const document = makeDocument();
+      await storage.addDocument(document, first.id);
+      await storage.addDocument(document, second.id);
+
+      expect(await storage.removeDocumentOwner(document.id, first.id)).toBe(true);
+      expect(await storage.isDocumentOwner(document.id, first.id)).toBe(false);
+      expect(await storage.findDocument(document.id)).toEqual(fileOf(document));
+
+      expect(await storage.removeDocumentOwner(document.id, second.id)).toBe(true);
+      expect(await storage.findDocument(document.id)).toBeUndefined();
+    });
+
+    it("reports removing an owner who never had the document", async () => {
+      const owner = await createUser("owner");
+      const other = await createUser("other");
+      const document = makeDocument();
+      await storage.addDocument(document, owner.id);
+
+      expect(await storage.removeDocumentOwner(document.id, other.id)).toBe(false);
+      expect(await storage.isDocumentOwner(document.id, owner.id)).toBe(true);
+    });
+  });
+
+  describe("Q&A history", () => {
+    it("keeps each user's messages about a document in order", async () => {
+      const user = await createUser("user");
+      const other = await createUser("other");
+      const document = makeDocument();
+      await storage.addDocument(document, user.id);
+      await storage.addDocument(document, other.id);
+
+      await storage.addQaMessages([
+        { userId: user.id, documentId: document.id, role: "user", content: "Question ?", lang: "fr" },
+        { userId: user.id, documentId: document.id, role: "assistant", content: "Réponse.", lang: "fr", pages: [2] },
+      ]);
+      await storage.addQaMessages([
+        { userId: other.id, documentId: document.id, role: "user", content: "سؤال؟", lang: "ar" },
+      ]);
+
+      const messages = await storage.getQaMessages(user.id, document.id);
+      expect(messages.map(({ role, content, pages }) => ({ role, content, pages }))).toEqual([
+        { role: "user", content: "Question ?", pages: [] },
+        { role: "assistant", content: "Réponse.", pages: [2] },
+      ]);
+      expect(messages[0].id).toBeLessThan(messages[1].id);
+      expect(messages[0].createdAt).toBeInstanceOf(Date);
+
+      await storage.clearQaMessages(user.id, document.id);
+      expect(await storage.getQaMessages(user.id, document.id)).toEqual([]);
+      expect(await storage.getQaMessages(other.id, document.id)).toHaveLength(1);
+    });
+
+    it("adds nothing for an empty batch", async () => {
+      expect(await storage.addQaMessages([])).toEqual([]);
+    });
+  });
+
+  describe("progress", () => {
+    it("keeps the snapshot with the later updatedAt", async () => {
+      const user = await createUser();
+      const older = { userId: user.id, data: { streak: 3 }, updatedAt: new Date("2026-03-01T10:00:00.000Z") };
+      const newer = { userId: user.id, data: { streak: 4 }, updatedAt: new Date("2026-03-02T10:00:00.000Z") };
+
+      expect(await storage.getProgress(user.id)).toBeUndefined();
+      expect(await storage.saveProgress(newer)).toEqual(newer);
+      expect(await storage.saveProgress(older)).toEqual(newer);
+      expect(await storage.getProgress(user.id)).toEqual(newer);
+
+      const newest = { ...newer, data: { streak: 5 }, updatedAt: new Date("2026-03-03T10:00:00.000Z") };
+      expect(await storage.saveProgress(newest)).toEqual(newest);
+    });
+  });
+});
+
+describe("FileDocumentStore", () => {
+  it("reads meta files that kept one filename for all owners", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "brevti-documents-"));
+    try {
+      const { pageTexts, ...meta } = makeDocument();
+      await fs.writeFile(path.join(dir, `${meta.id}.meta.json`), JSON.stringify({ ...meta, ownerIds: ["u1", "u2"] }));
+      await fs.writeFile(path.join(dir, `${meta.id}.pages.json`), JSON.stringify(pageTexts));
+      const store = new FileDocumentStore(dir);
+
+      expect(await store.listDocuments("u2")).toEqual([meta]);
+
+      await store.addDocument({ ...meta, filename: "autre.pdf", pageTexts }, "u3");
+      expect(await store.removeDocumentOwner(meta.id, "u1")).toBe(true);
+      expect(await store.getDocument(meta.id, "u2")).toEqual({ ...meta, pageTexts });
+      expect((await store.getDocument(meta.id, "u3"))?.filename).toBe("autre.pdf");
+      expect(await store.isDocumentOwner(meta.id, "u1")).toBe(false);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,20 +1,59 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type Session,
+  type QaMessage,
+  type InsertQaMessage,
+  type Progress,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import * as path from "path";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { DbStorage } from "./dbStorage";
+import { DuplicateUsernameError } from "./storageErrors";
+import {
+  FileDocumentStore,
+  type DocumentFile,
+  type DocumentStore,
+  type StoredDocument,
+  type StoredDocumentMeta,
+} from "./documentStore";
 
 // modify the interface with any CRUD methods
 // you might need
 
-export interface IStorage {
+export interface IStorage extends DocumentStore {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  createSession(session: Session): Promise<void>;
+  getSession(id: string): Promise<Session | undefined>;
+  deleteSession(id: string): Promise<void>;
+
+  // A user's questions and answers about one document, oldest first.
+  getQaMessages(userId: string, documentId: string): Promise<QaMessage[]>;
+  addQaMessages(messages: InsertQaMessage[]): Promise<QaMessage[]>;
+  clearQaMessages(userId: string, documentId: string): Promise<void>;
+
+  getProgress(userId: string): Promise<Progress | undefined>;
+  // Keeps whichever snapshot has the later `updatedAt`, and returns it.
+  saveProgress(progress: Progress): Promise<Progress>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private sessions: Map<string, Session>;
+  private qaMessages: QaMessage[];
+  private progress: Map<string, Progress>;
+  private nextQaMessageId = 1;
 
-  constructor() {
+  // Documents are too large to hold in memory, so they go to `documents`.
+  constructor(private documents: DocumentStore) {
     this.users = new Map();
+    this.sessions = new Map();
+    this.qaMessages = [];
+    this.progress = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -28,11 +67,100 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    // Checked without awaiting, so no other createUser can run in between.
+    const taken = Array.from(this.users.values()).some(
+      (user) => user.username === insertUser.username,
+    );
+    if (taken) throw new DuplicateUsernameError(insertUser.username);
     const id = randomUUID();
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
+
+  async createSession(session: Session): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  listDocuments(ownerId: string): Promise<StoredDocumentMeta[]> {
+    return this.documents.listDocuments(ownerId);
+  }
+
+  findDocument(id: string): Promise<DocumentFile | undefined> {
+    return this.documents.findDocument(id);
+  }
+
+  getDocument(id: string, ownerId: string): Promise<StoredDocument | undefined> {
+    return this.documents.getDocument(id, ownerId);
+  }
+
+  isDocumentOwner(id: string, ownerId: string): Promise<boolean> {
+    return this.documents.isDocumentOwner(id, ownerId);
+  }
+
+  addDocument(document: StoredDocument, ownerId: string): Promise<void> {
+    return this.documents.addDocument(document, ownerId);
+  }
+
+  removeDocumentOwner(id: string, ownerId: string): Promise<boolean> {
+    return this.documents.removeDocumentOwner(id, ownerId);
+  }
+
+  async getQaMessages(userId: string, documentId: string): Promise<QaMessage[]> {
+    return this.qaMessages.filter(
+      (message) => message.userId === userId && message.documentId === documentId,
+    );
+  }
+
+  async addQaMessages(messages: InsertQaMessage[]): Promise<QaMessage[]> {
+    const added = messages.map((message) => ({
+      ...message,
+      pages: message.pages ?? [],
+      id: this.nextQaMessageId++,
+      createdAt: new Date(),
+    }));
+    this.qaMessages.push(...added);
+    return added;
+  }
+
+  async clearQaMessages(userId: string, documentId: string): Promise<void> {
+    this.qaMessages = this.qaMessages.filter(
+      (message) => message.userId !== userId || message.documentId !== documentId,
+    );
+  }
+
+  async getProgress(userId: string): Promise<Progress | undefined> {
+    return this.progress.get(userId);
+  }
+
+  async saveProgress(progress: Progress): Promise<Progress> {
+    const stored = this.progress.get(progress.userId);
+    if (stored && stored.updatedAt > progress.updatedAt) return stored;
+    this.progress.set(progress.userId, progress);
+    return progress;
+  }
+}
+
+// With DATABASE_URL set everything lives in Postgres (`npm run db:push`
+// creates the tables). Without it users, sessions and history are lost on
+// restart, and documents are kept as files under DOCUMENT_STORE_DIR.
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DbStorage(drizzle(process.env.DATABASE_URL));
+  }
+  return new MemStorage(
+    new FileDocumentStore(
+      process.env.DOCUMENT_STORE_DIR || path.resolve(process.cwd(), ".data", "documents"),
+    ),
+  );
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,8 @@
+// Thrown by `IStorage.createUser` when the username is taken, including when
+// a concurrent registration got there first.
+export class DuplicateUsernameError extends Error {
+  constructor(username: string) {
+    super(`Username is already taken: ${username}`);
+    this.name = "DuplicateUsernameError";
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { CONTENT_PACK_FORMAT, contentPackSchema, toExerciseColumns } from "./contentPack";
+import { getExercisePayload } from "./exercise";
+
+function parsePack(exercise: Record<string, unknown>) {
+  return contentPackSchema.parse({
+    format: CONTENT_PACK_FORMAT,
+    id: "bac-physique",
+    version: 1,
+    title: "Physique",
+    subjects: [{ id: "physique", name: "الفيزياء", color: "#3366ff" }],
+    lessons: [
+      {
+        id: "physique.ondes",
+        subject_id: "physique",
+        title: "الموجات",
+        summary: "",
+        importance_points: "",
+        common_mistakes: "",
+      },
+    ],
+    exercises: [
+      { id: "physique.ondes.1", lesson_id: "physique.ondes", difficulty: 1, question: "?", explanation: "", ...exercise },
+    ],
+  });
+}
+
+describe("toExerciseColumns", () => {
+  it("stores a single-choice question given as options", () => {
+    const [exercise] = parsePack({ options: ["a", "b", "c"], correct_index: 2 }).exercises;
+
+    const columns = toExerciseColumns(exercise);
+
+    expect(columns).toEqual({ type: "mcq", options_json: '["a","b","c"]', correct_index: 2, payload_json: null });
+    expect(getExercisePayload(columns)).toEqual({ type: "mcq", options: ["a", "b", "c"], correct_index: 2 });
+  });
+
+  it("stores a single-choice question given only as a payload where it is read back", () => {
+    const [exercise] = parsePack({ payload: { type: "mcq", options: ["a", "b"], correct_index: 1 } }).exercises;
+
+    const columns = toExerciseColumns(exercise);
+
+    expect(columns).toEqual({ type: "mcq", options_json: '["a","b"]', correct_index: 1, payload_json: null });
+    expect(getExercisePayload(columns)).toEqual({ type: "mcq", options: ["a", "b"], correct_index: 1 });
+  });
+
+  it("stores other question types as their payload", () => {
+    const payload = { type: "true_false", correct: false };
+    const [exercise] = parsePack({ payload }).exercises;
+
+    const columns = toExerciseColumns(exercise);
+
+    expect(columns.type).toBe("true_false");
+    expect(getExercisePayload(columns)).toEqual(payload);
+  });
+});
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { exercisePayloadSchema, type StoredExercise } from "./exercise";
+
+export const CONTENT_PACK_FORMAT = "brevti-content-pack";
+
+// Stable identifiers chosen by the pack author. They never change between pack
+// versions, which is what lets an update rewrite a lesson without losing the
+// attempts and review history attached to it.
+const contentIdSchema = z.string().regex(/^[a-z0-9][a-z0-9._-]*$/, "IDs use lowercase letters, digits, '.', '_' and '-'");
+
+export const packSubjectSchema = z.object({
+  id: contentIdSchema,
+  name: z.string().min(1),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+});
+
+export const packLessonSchema = z.object({
+  id: contentIdSchema,
+  subject_id: contentIdSchema,
+  title: z.string().min(1),
+  summary: z.string(),
+  importance_points: z.string(),
+  common_mistakes: z.string(),
+});
+
+// Same rule as the bundled seed: single-choice exercises use
+// `options`/`correct_index`, other types carry a `payload`.
+export const packExerciseSchema = z
+  .object({
+    id: contentIdSchema,
+    lesson_id: contentIdSchema,
+    difficulty: z.number().int().min(1).max(3),
+    question: z.string().min(1),
+    options: z.array(z.string()).min(2).optional(),
+    correct_index: z.number().int().nonnegative().optional(),
+    payload: exercisePayloadSchema.optional(),
+    explanation: z.string(),
+  })
+  .refine((e) => e.payload !== undefined || (e.options !== undefined && e.correct_index !== undefined), {
+    message: "An exercise needs either a payload or options with a correct_index",
+  })
+  .refine((e) => e.options === undefined || e.correct_index === undefined || e.correct_index < e.options.length, {
+    message: "correct_index must be below the number of options",
+    path: ["correct_index"],
+  });
+
+export const contentPackSchema = z
+  .object({
+    format: z.literal(CONTENT_PACK_FORMAT),
+    id: contentIdSchema,
+    version: z.number().int().positive(),
+    title: z.string().min(1),
+    description: z.string().default(""),
+    subjects: z.array(packSubjectSchema).default([]),
+    lessons: z.array(packLessonSchema).default([]),
+    exercises: z.array(packExerciseSchema).default([]),
+  })
+  .superRefine((pack, ctx) => {
+    const ids = new Set<string>();
+    for (const item of [...pack.subjects, ...pack.lessons, ...pack.exercises]) {
+      if (ids.has(item.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate content ID "${item.id}"` });
+      }
+      ids.add(item.id);
+    }
+  });
+
+export type PackSubject = z.infer<typeof packSubjectSchema>;
+export type PackLesson = z.infer<typeof packLessonSchema>;
+export type PackExercise = z.infer<typeof packExerciseSchema>;
+export type ContentPack = z.infer<typeof contentPackSchema>;
+
+/**
+ * The `exercises` columns a pack exercise is stored in. Single-choice
+ * questions are read back from `options_json`/`correct_index`, so one given
+ * as an `mcq` payload is stored in those columns too.
+ */
+export function toExerciseColumns(exercise: PackExercise): StoredExercise {
+  const { payload } = exercise;
+  if (!payload || payload.type === "mcq") {
+    return {
+      type: "mcq",
+      options_json: JSON.stringify(payload?.options ?? exercise.options ?? []),
+      correct_index: payload?.correct_index ?? exercise.correct_index ?? 0,
+      payload_json: null,
+    };
+  }
+  return {
+    type: payload.type,
+    options_json: JSON.stringify(exercise.options ?? []),
+    correct_index: exercise.correct_index ?? 0,
+    payload_json: JSON.stringify(payload),
+  };
+}
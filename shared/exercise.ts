@@ -0,0 +1,295 @@
+import { z } from "zod";
+
+export const EXERCISE_TYPES = [
+  "mcq",
+  "true_false",
+  "multi_select",
+  "numeric",
+  "fill_blank",
+  "matching",
+  "ordering",
+] as const;
+
+export type ExerciseType = (typeof EXERCISE_TYPES)[number];
+
+export const BLANK_MARKER = "___";
+
+export const mcqPayloadSchema = z.object({
+  type: z.literal("mcq"),
+  options: z.array(z.string()).min(2),
+  correct_index: z.number().int().nonnegative(),
+});
+
+export const trueFalsePayloadSchema = z.object({
+  type: z.literal("true_false"),
+  correct: z.boolean(),
+});
+
+export const multiSelectPayloadSchema = z.object({
+  type: z.literal("multi_select"),
+  options: z.array(z.string()).min(2),
+  correct_indices: z.array(z.number().int().nonnegative()).min(1),
+});
+
+export const numericPayloadSchema = z.object({
+  type: z.literal("numeric"),
+  value: z.number(),
+  tolerance: z.number().nonnegative().default(0),
+  unit: z.string().optional(),
+});
+
+// `text` holds one BLANK_MARKER per blank; each blank lists its accepted answers.
+export const fillBlankPayloadSchema = z.object({
+  type: z.literal("fill_blank"),
+  text: z.string(),
+  blanks: z.array(z.array(z.string()).min(1)).min(1),
+  case_sensitive: z.boolean().default(false),
+});
+
+// left[i] matches right[i]; the right column is shuffled for display.
+export const matchingPayloadSchema = z.object({
+  type: z.literal("matching"),
+  left: z.array(z.string()).min(2),
+  right: z.array(z.string()).min(2),
+});
+
+// `items` is stored in the correct order and shuffled for display.
+export const orderingPayloadSchema = z.object({
+  type: z.literal("ordering"),
+  items: z.array(z.string()).min(2),
+});
+
+// Rules across fields, which would otherwise leave a question unanswerable or
+// print `undefined` as its correct answer.
+function checkPayload(payload: z.infer<typeof payloadShapeSchema>, ctx: z.RefinementCtx) {
+  const issue = (path: string, message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  switch (payload.type) {
+    case "mcq":
+      if (payload.correct_index >= payload.options.length) {
+        issue("correct_index", `correct_index must be below the ${payload.options.length} options`);
+      }
+      break;
+    case "multi_select":
+      if (payload.correct_indices.some((i) => i >= payload.options.length)) {
+        issue("correct_indices", `correct_indices must be below the ${payload.options.length} options`);
+      }
+      if (new Set(payload.correct_indices).size !== payload.correct_indices.length) {
+        issue("correct_indices", "correct_indices must not repeat");
+      }
+      break;
+    case "matching":
+      if (payload.left.length !== payload.right.length) {
+        issue("right", "left and right must have the same length");
+      }
+      break;
+  }
+}
+
+const payloadShapeSchema = z.discriminatedUnion("type", [
+  mcqPayloadSchema,
+  trueFalsePayloadSchema,
+  multiSelectPayloadSchema,
+  numericPayloadSchema,
+  fillBlankPayloadSchema,
+  matchingPayloadSchema,
+  orderingPayloadSchema,
+]);
+
+export const exercisePayloadSchema = payloadShapeSchema.superRefine(checkPayload);
+
+export type ExercisePayload = z.infer<typeof exercisePayloadSchema>;
+
+export const exerciseAnswerSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("mcq"), index: z.number().int() }),
+  z.object({ type: z.literal("true_false"), value: z.boolean() }),
+  z.object({ type: z.literal("multi_select"), indices: z.array(z.number().int()) }),
+  z.object({ type: z.literal("numeric"), value: z.string() }),
+  z.object({ type: z.literal("fill_blank"), values: z.array(z.string()) }),
+  z.object({ type: z.literal("matching"), pairs: z.array(z.number().int().nullable()) }),
+  z.object({ type: z.literal("ordering"), order: z.array(z.number().int()) }),
+]);
+
+export type ExerciseAnswer = z.infer<typeof exerciseAnswerSchema>;
+
+/** The columns of an `exercises` row needed to recover its payload. */
+export interface StoredExercise {
+  type: string;
+  options_json: string;
+  correct_index: number;
+  payload_json: string | null;
+}
+
+/**
+ * Single-choice questions predate the `type` column and keep using
+ * `options_json`/`correct_index`; every other type lives in `payload_json`.
+ * A row that doesn't hold a valid question gives `null`, so one bad row is
+ * skipped (see `withValidPayloads`) instead of breaking the screen.
+ */
+export function getExercisePayload(exercise: StoredExercise): ExercisePayload | null {
+  let raw: unknown;
+  try {
+    raw =
+      exercise.type === "mcq" || !exercise.payload_json
+        ? { type: "mcq", options: JSON.parse(exercise.options_json), correct_index: exercise.correct_index }
+        : { ...JSON.parse(exercise.payload_json), type: exercise.type };
+  } catch {
+    return null;
+  }
+
+  const parsed = exercisePayloadSchema.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+}
+
+/** The exercises whose stored payload is valid; the others are logged and dropped. */
+export function withValidPayloads<T extends StoredExercise & { id: number }>(exercises: T[]): T[] {
+  return exercises.filter((exercise) => {
+    if (getExercisePayload(exercise)) return true;
+    console.warn(`Skipping exercise ${exercise.id}: invalid payload`);
+    return false;
+  });
+}
+
+/** Deterministic shuffle so the same exercise is always laid out the same way. */
+export function shuffledIndices(count: number, seed: number): number[] {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  let state = (seed * 2654435761) >>> 0 || 1;
+  for (let i = count - 1; i > 0; i--) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    const j = state % (i + 1);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  // Never present an ordering question already solved.
+  if (count > 1 && indices.every((value, i) => value === i)) {
+    [indices[0], indices[1]] = [indices[1], indices[0]];
+  }
+  return indices;
+}
+
+/** Ordering questions start from a shuffled order; all other types start unanswered. */
+export function createInitialAnswer(payload: ExercisePayload, seed: number): ExerciseAnswer | null {
+  if (payload.type === "ordering") {
+    return { type: "ordering", order: shuffledIndices(payload.items.length, seed) };
+  }
+  return null;
+}
+
+export function parseNumber(raw: string): number | null {
+  const normalized = raw
+    .trim()
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[٫,]/g, ".")
+    .replace(/\s+/g, "");
+  if (normalized === "" || !/^[-+]?\d*\.?\d+$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+function normalizeText(value: string, caseSensitive: boolean): string {
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  return caseSensitive ? trimmed : trimmed.toLowerCase();
+}
+
+export function isAnswerComplete(payload: ExercisePayload, answer: ExerciseAnswer | null): boolean {
+  if (!answer || answer.type !== payload.type) return false;
+  switch (answer.type) {
+    case "multi_select":
+      return answer.indices.length > 0;
+    case "numeric":
+      return parseNumber(answer.value) !== null;
+    case "fill_blank":
+      return payload.type === "fill_blank" &&
+        answer.values.length === payload.blanks.length &&
+        answer.values.every((v) => v.trim() !== "");
+    case "matching":
+      return answer.pairs.every((p) => p !== null);
+    default:
+      return true;
+  }
+}
+
+export function gradeAnswer(payload: ExercisePayload, answer: ExerciseAnswer | null): boolean {
+  if (!answer || answer.type !== payload.type) return false;
+
+  switch (payload.type) {
+    case "mcq":
+      return answer.type === "mcq" && answer.index === payload.correct_index;
+    case "true_false":
+      return answer.type === "true_false" && answer.value === payload.correct;
+    case "multi_select": {
+      if (answer.type !== "multi_select") return false;
+      const chosen = new Set(answer.indices);
+      return chosen.size === payload.correct_indices.length &&
+        payload.correct_indices.every((i) => chosen.has(i));
+    }
+    case "numeric": {
+      if (answer.type !== "numeric") return false;
+      const value = parseNumber(answer.value);
+      return value !== null && Math.abs(value - payload.value) <= payload.tolerance;
+    }
+    case "fill_blank":
+      return answer.type === "fill_blank" && payload.blanks.every((accepted, i) => {
+        const given = normalizeText(answer.values[i] ?? "", payload.case_sensitive);
+        return accepted.some((a) => normalizeText(a, payload.case_sensitive) === given);
+      });
+    case "matching":
+      return answer.type === "matching" &&
+        answer.pairs.length === payload.left.length &&
+        answer.pairs.every((right, left) => right === left);
+    case "ordering":
+      return answer.type === "ordering" &&
+        answer.order.length === payload.items.length &&
+        answer.order.every((item, position) => item === position);
+  }
+}
+
+/** Human-readable answer for review screens; `null` means the question was skipped. */
+export function formatAnswer(payload: ExercisePayload, answer: ExerciseAnswer | null): string | null {
+  if (!answer || answer.type !== payload.type) return null;
+
+  switch (answer.type) {
+    case "mcq":
+      return payload.type === "mcq" ? payload.options[answer.index] ?? null : null;
+    case "true_false":
+      return answer.value ? "صحيح" : "خطأ";
+    case "multi_select":
+      return payload.type === "multi_select"
+        ? answer.indices.map((i) => payload.options[i]).join("، ")
+        : null;
+    case "numeric":
+      return payload.type === "numeric" && payload.unit
+        ? `${answer.value} ${payload.unit}`
+        : answer.value;
+    case "fill_blank":
+      return answer.values.join("، ");
+    case "matching":
+      return payload.type === "matching"
+        ? answer.pairs
+            .map((right, left) => `${payload.left[left]} ← ${right !== null ? payload.right[right] : "؟"}`)
+            .join("، ")
+        : null;
+    case "ordering":
+      return payload.type === "ordering"
+        ? answer.order.map((i) => payload.items[i]).join(" ← ")
+        : null;
+  }
+}
+
+export function formatCorrectAnswer(payload: ExercisePayload): string {
+  switch (payload.type) {
+    case "mcq":
+      return payload.options[payload.correct_index];
+    case "true_false":
+      return payload.correct ? "صحيح" : "خطأ";
+    case "multi_select":
+      return payload.correct_indices.map((i) => payload.options[i]).join("، ");
+    case "numeric":
+      return `${payload.value}${payload.unit ? ` ${payload.unit}` : ""}`;
+    case "fill_blank":
+      return payload.blanks.map((accepted) => accepted[0]).join("، ");
+    case "matching":
+      return payload.left.map((left, i) => `${left} ← ${payload.right[i]}`).join("، ");
+    case "ordering":
+      return payload.items.join(" ← ");
+  }
+}
@@ -1,5 +1,16 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  serial,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +19,7 @@ export const users = pgTable("users", {
     .primaryKey()
     .default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
+  // scrypt hash, never the plain password (see server/auth.ts).
   password: text("password").notNull(),
 });
 
@@ -16,5 +28,91 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// What register and login accept, before the password is hashed.
+export const credentialsSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3)
+    .max(32)
+    .regex(/^[A-Za-z0-9_.-]+$/, "Use letters, digits, '.', '_' or '-'"),
+  password: z.string().min(8).max(128),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+export const sessions = pgTable("sessions", {
+  // sha256 of the session token; the token itself only lives in the cookie.
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+});
+
+export type Session = typeof sessions.$inferSelect;
+
+// Extracted PDFs, keyed by the sha256 of the file. Uploads of the same file by
+// several users share one row; `document_owners` records who uploaded it,
+// under which filename and when.
+export const documents = pgTable("documents", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  pages: integer("pages").notNull(),
+  size: integer("size").notNull(),
+  ocr: boolean("ocr").notNull(),
+  confidence: jsonb("confidence").$type<{ page: number; confidence: number | null }[]>(),
+  ocrPages: integer("ocr_pages"),
+  pageTexts: jsonb("page_texts").notNull().$type<{ page: number | null; text: string }[]>(),
+});
+
+export const documentOwners = pgTable(
+  "document_owners",
+  {
+    documentId: varchar("document_id", { length: 64 })
+      .notNull()
+      .references(() => documents.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    filename: text("filename").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.documentId, table.userId] })],
+);
+
+export const qaMessages = pgTable(
+  "qa_messages",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    documentId: varchar("document_id", { length: 64 })
+      .notNull()
+      .references(() => documents.id, { onDelete: "cascade" }),
+    role: text("role").$type<"user" | "assistant">().notNull(),
+    content: text("content").notNull(),
+    lang: text("lang").$type<"ar" | "fr">().notNull(),
+    // Pages cited by an assistant answer; empty for questions.
+    pages: jsonb("pages").$type<number[]>().notNull().default([]),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index("qa_messages_user_document_idx").on(table.userId, table.documentId)],
+);
+
+export type QaMessage = typeof qaMessages.$inferSelect;
+export type InsertQaMessage = Omit<typeof qaMessages.$inferInsert, "id" | "createdAt">;
+
+// One progress snapshot per user, pushed by the app and pulled on other devices.
+export const progress = pgTable("progress", {
+  userId: varchar("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+});
+
+export type Progress = typeof progress.$inferSelect;
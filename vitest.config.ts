@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import * as path from "node:path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "shared"),
+      "@": path.resolve(__dirname),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "lib/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+  },
+});